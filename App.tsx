@@ -1,55 +1,55 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Sector, Legend } from 'recharts';
 import * as Icons from './components/Icons';
-import TradeMap from './components/Map';
+import TradeMap, { DrawMode, PointLayer, RingSet } from './components/Map';
 import GoogleAd from './components/GoogleAd';
-import { searchAddress, searchZones, fetchStores, searchAdminDistrict, fetchStoresInAdmin, fetchLocalAdminPolygon, fetchSbizData, fetchSeoulSalesData, getAdminCodeFromCoords } from './services/api';
-import { Zone, Store, StoreStats, SbizStats, SeoulSalesData } from './types';
+import ErrorNotice from './components/ErrorNotice';
+import SeoulSalesTrend from './components/SeoulSalesTrend';
+import SalesDongShares from './components/SalesDongShares';
+import CensusPanel from './components/CensusPanel';
+import SbizPanel from './components/SbizPanel';
+import DistrictDongTable from './components/DistrictDongTable';
+import CustomAreaList from './components/CustomAreaList';
+import BrandTable from './components/BrandTable';
+import FloorDistribution from './components/FloorDistribution';
+import LocationQuotientPanel from './components/LocationQuotientPanel';
+import DiversityCard, { DiversityReference } from './components/DiversityCard';
+import ClusterPanel from './components/ClusterPanel';
+import BuildingTable from './components/BuildingTable';
+import BuildingDetail from './components/BuildingDetail';
+import CompetitorPanel, { COMPETITOR_COLORS } from './components/CompetitorPanel';
+import ChurnPanel, { ChurnLayerVisibility, CHURN_COLORS } from './components/ChurnPanel';
+import { searchAddress, searchZones, fetchStores, fetchStoresInRadius, fetchStoresInShape, searchAdminDistrict, fetchStoresInAdmin, fetchLocalAdminPolygon, fetchSbizData, fetchZoneSbizData, fetchCensusStats, fetchSeoulSalesHistory, fetchZoneSalesSources, getAdminCodeFromCoords } from './services/api';
+import { isAbortError } from './services/paging';
+import { RequestPriority } from './services/scheduler';
+import { ApiError, isApiError, toApiError } from './services/errors';
+import { getDataSource, setDataSource, createFixtureSource, readFixtureOverHttp, isFixtureFallbackEnabled } from './services/sources';
+import { Zone, ZoneGeometry, CustomArea, DongSalesSource, Store, StoreStats, SbizDongStats, CensusStats, SeoulSalesData, SnapshotMeta, StoreChurn, FetchCompleteness, PageCheckpoint, ValidationReport, DropReason } from './types';
+import { RawRecord, DROP_REASON_LABELS } from './services/normalize';
+import { formatQuarter } from './services/salesTrend';
+import { blendSalesHistory, SalesWeighting } from './services/salesBlend';
+import { parseWKT } from './services/geometry';
+import { listCustomAreas, saveCustomArea, deleteCustomArea, customAreaToZone } from './services/customAreas';
+import { listSnapshots, loadSnapshot, recordSnapshot, normalizeYm, formatYm, snapshotZoneKey } from './services/snapshots';
+import { diffSnapshots } from './services/churn';
+import { floorDistribution, floorLabel } from './services/floors';
+import { parentDistrict } from './services/locationQuotient';
+import { zoneDiversity } from './services/diversity';
+import { clusterStores, CLUSTER_MAX_STORES } from './services/clusters';
+import { buildingKey, summarizeBuildings } from './services/buildings';
+import { CategoryFilter, CategoryLevel, CATEGORY_LEVELS, CATEGORY_LEVEL_LABELS, EMPTY_CATEGORY_FILTER, categoryCode, categoryLabels, categoryName, countCategories, matchesCategory, summarizeCategories } from './services/categories';
+import { findCompetitors, competitorRings, CompetitorTarget, COMPETITOR_MAX_M, COMPETITOR_RINGS_M } from './services/competitors';
+import { isFranchise, isBrandStore, matchBrand, summarizeBrands, BRAND_MATCH_THRESHOLD, BRANDS } from './services/brands';
 
 // Constants
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1', '#14b8a6', '#f97316', '#d946ef'];
-const MAJOR_BRANDS = [
-  "스타벅스", "투썸", "이디야", "메가MGC", "컴포즈", "빽다방", "할리스", "폴바셋", "공차",
-  "지에스25", "GS25", "CU", "씨유", "세븐일레븐", "이마트24", "다이소", "올리브영", "롯데마트", "이마트",
-  "파리바게뜨", "뚜레쥬르", "던킨", "배스킨라빈스", "설빙", "베스킨라빈스", "VIPS", "빕스",
-  "맥도날드", "버거킹", "롯데리아", "KFC", "맘스터치", "써브웨이", "교촌", "BHC", "BBQ", "도미노",
-  "아웃백", "애슐리", "굽네치킨", "푸라닭", "60계치킨", 
-  "피자헛", "파파존스", "피자스쿨", 
-  "본죽", "한솥", "한솥도시락", "엽기떡볶이", "이삭토스트", 
-  "명륜진사갈비", "채선당", "역전할머니맥주",
-  "더벤티", "파스쿠찌", "크리스피크림",
-  "홈플러스", "코스트코", "노브랜드", "처갓집양념치킨", "페리카나", "멕시카나", "노랑통닭", "자담치킨", "60계치킨",
-  "피자알볼로", "피자스쿨", "반올림피자", "신전떡볶이", "죠스떡볶이", "바르다김선생", "김밥천국", "에그드랍",
-  "엔제리너스", "탐앤탐스", "커피빈", "쥬씨", "와플대학", "아마스빈",
-  "원할머니보쌈", "놀부부대찌개", "하남돼지집", "새마을식당", "투다리", "역전우동", "홍콩반점", "샐러디",
-  "프랭크버거", "신세계백화점", "현대백화점", "롯데백화점", "하이마트"
-];
 
-// Utils
-const parseWKT = (wkt: string): number[][][] => {
-  if (!wkt) return [];
-  try {
-      const cleanWkt = wkt.replace(/^POLYGON\s*/i, '').trim();
-      const rings = cleanWkt.match(/\([^()]+\)/g);
-      if (!rings) return [];
-      return rings.map(ringStr => {
-          const content = ringStr.replace(/[()]/g, '');
-          const points = content.split(',');
-          return points.map(p => {
-              const parts = p.trim().split(/\s+/);
-              if (parts.length >= 2) {
-                  const lon = parseFloat(parts[0]);
-                  const lat = parseFloat(parts[1]);
-                  if (Number.isFinite(lat) && Number.isFinite(lon)) return [lat, lon];
-              }
-              return null;
-          }).filter((c): c is number[] => c !== null);
-      });
-  } catch (e) {
-      return [];
-  }
-};
+// 분석 기준별 버튼 색
+const SEARCH_TYPE_BG = { trade: 'bg-blue-600', admin: 'bg-green-600', radius: 'bg-violet-600', custom: 'bg-amber-600' };
+// 반경 분석에서 고를 수 있는 반경 (m, storeListInRadius 최대 2000)
+const RADIUS_OPTIONS = [100, 200, 300, 500, 1000];
 
+// Utils
 const renderActiveShape = (props: any) => {
   const { cx, cy, innerRadius, outerRadius, startAngle, endAngle, fill } = props;
   return (
@@ -63,11 +63,19 @@ const App: React.FC = () => {
   const [address, setAddress] = useState("");
   const [loading, setLoading] = useState(false);
   const [loadingMsg, setLoadingMsg] = useState("");
-  const [error, setError] = useState<string | null>(null);
+  // 입력 검증 메시지는 문자열, API 오류는 ApiError (ErrorNotice가 복구 방법을 표시)
+  const [error, setError] = useState<ApiError | string | null>(null);
   const [step, setStep] = useState<"input" | "verify_location" | "select_zone" | "result">("input");
   
   // Search Settings
-  const [searchType, setSearchType] = useState<'trade' | 'admin'>('trade'); 
+  const [searchType, setSearchType] = useState<'trade' | 'admin' | 'radius' | 'custom'>('trade'); 
+  const [searchRadius, setSearchRadius] = useState(300);
+
+  // Custom Area Drawing
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [draftArea, setDraftArea] = useState<ZoneGeometry | null>(null);
+  const [customAreaName, setCustomAreaName] = useState("");
+  const [customAreas, setCustomAreas] = useState<CustomArea[]>(() => listCustomAreas());
 
   const [searchCoords, setSearchCoords] = useState<{lat: number, lon: number}>({ lat: 37.5665, lon: 126.9780 });
   const [resolvedAddress, setResolvedAddress] = useState("");
@@ -76,23 +84,64 @@ const App: React.FC = () => {
   const [previewZone, setPreviewZone] = useState<Zone | null>(null);
   
   const [storeStats, setStoreStats] = useState<StoreStats | null>(null);
-  const [sbizStats, setSbizStats] = useState<SbizStats | null>(null);
-  const [seoulSales, setSeoulSales] = useState<SeoulSalesData | null>(null);
+  const [sbizDongs, setSbizDongs] = useState<SbizDongStats[]>([]);
+  const [censusStats, setCensusStats] = useState<CensusStats | null>(null);
+  const [seoulSalesHistory, setSeoulSalesHistory] = useState<SeoulSalesData[]>([]);
+  // 상권이 여러 행정동에 걸치면 동별 매출을 가중 합산 (비어 있으면 seoulSalesHistory 사용)
+  const [seoulSalesSources, setSeoulSalesSources] = useState<DongSalesSource[]>([]);
+  const [salesWeighting, setSalesWeighting] = useState<SalesWeighting>('area');
   const [selectedSeoulIndustry, setSelectedSeoulIndustry] = useState<string | null>(null);
   
   const [topStores, setTopStores] = useState<Store[]>([]);
   const [allRawStores, setAllRawStores] = useState<Store[]>([]);
   const [dataDate, setDataDate] = useState<string | null>(null);
+  const [fetchReport, setFetchReport] = useState<FetchCompleteness | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const [storeWarning, setStoreWarning] = useState<ApiError | null>(null);
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
+
+  // 기준월별 스냅샷과 두 기준월 사이 점포 변동
+  const [storeYm, setStoreYm] = useState<string>("");
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [churnRange, setChurnRange] = useState<{ from: string; to: string } | null>(null);
+  const [storeChurn, setStoreChurn] = useState<StoreChurn | null>(null);
+  const [churnLayers, setChurnLayers] = useState<ChurnLayerVisibility>({ opened: true, closed: true });
+
+  // 입지계수 기준 시군구 전체 점포 (요청할 때만 수집)
+  const [lqBaseStores, setLqBaseStores] = useState<Store[] | null>(null);
+  const [lqLoading, setLqLoading] = useState(false);
+  const [lqError, setLqError] = useState<ApiError | null>(null);
+  const [lqProgress, setLqProgress] = useState<string | null>(null);
+  const lqAbortRef = useRef<AbortController | null>(null);
+
+  // 이번 세션에 분석한 구역들의 업종 다양성 (다양성 카드 비교용, 최근 순)
+  const [diversityHistory, setDiversityHistory] = useState<Array<DiversityReference & { key: string }>>([]);
+
+  // 지도/목록에서 고른 점포 밀집 구역 (대시보드 통계를 그 구역 점포로 좁힘)
+  const [selectedClusterId, setSelectedClusterId] = useState<number | null>(null);
+
+  // 경쟁 점포 찾기: 대상 업종/브랜드와 후보지 반경 전체 점포 (구역이 반경을 다 덮지 못할 때만 요청해서 수집)
+  const [competitorTarget, setCompetitorTarget] = useState<CompetitorTarget | null>(null);
+  const [competitorSurroundings, setCompetitorSurroundings] = useState<{ key: string; stores: Store[] } | null>(null);
+  const [competitorLoading, setCompetitorLoading] = useState(false);
+  const [competitorError, setCompetitorError] = useState<ApiError | null>(null);
+  const competitorRequestRef = useRef<string | null>(null);
+
+  // In-flight analysis (cancel / resume)
+  const [canCancel, setCanCancel] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const storeCheckpointRef = useRef<{ zoneKey: string; checkpoint: PageCheckpoint<RawRecord> } | null>(null);
 
   // Filters
-  const [selectedLarge, setSelectedLarge] = useState<string | null>(null);
-  const [selectedMid, setSelectedMid] = useState<string | null>(null);
+  // 업종 필터 (대 → 중 → 소 분류 코드)
+  const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>(EMPTY_CATEGORY_FILTER);
+  const { large: selectedLarge, mid: selectedMid, small: selectedSmall } = categoryFilter;
   const [viewModeLarge, setViewModeLarge] = useState<'chart' | 'table'>('chart');
   const [viewModeMid, setViewModeMid] = useState<'chart' | 'table'>('chart');
   
   // Interactive Map State
-  const [selectedBuildingIndex, setSelectedBuildingIndex] = useState<number | null>(null);
-  const [detailedAnalysisFilter, setDetailedAnalysisFilter] = useState<string | null>(null);
+  const [selectedBuildingKey, setSelectedBuildingKey] = useState<string | null>(null);   // 건물 상세를 연 건물 (buildingKey)
+  const [detailedAnalysisPath, setDetailedAnalysisPath] = useState<string[]>([]);   // 종합 분석표에서 펼친 분류 코드 (대분류, 중분류)
 
   // Sales Tab State
   const [salesViewMode, setSalesViewMode] = useState<'amount' | 'count'>('amount');
@@ -108,7 +157,7 @@ const App: React.FC = () => {
       setResolvedAddress(item.address?.road || item.address?.parcel || item.title);
       setStep('verify_location');
     } catch (err: any) {
-      setError(err.message);
+      setError(toApiError(err, 'vworld'));
     } finally {
       setLoading(false);
     }
@@ -137,165 +186,351 @@ const App: React.FC = () => {
           
           const zones = await searchAdminDistrict(addrParts[0] || "", addrParts[1] || "", explicitDong);
           
-          setLoadingMsg("행정구역 경계 데이터(Polygon)를 불러오는 중입니다...");
-          
-          const enhancedZones = await Promise.all(zones.map(async (z) => {
-              const baseZone = {
-                  ...z,
-                  searchLat: searchCoords.lat,
-                  searchLon: searchCoords.lon,
-                  type: 'admin' as const
-              };
-              try {
-                  const polygon = await fetchLocalAdminPolygon(baseZone);
-                  return { ...baseZone, parsedPolygon: polygon };
-              } catch (e) {
-                  console.warn(`Failed to load polygon for ${z.mainTrarNm}`, e);
-                  return { ...baseZone, parsedPolygon: [] };
-              }
+          // 경계는 목록을 먼저 보여준 뒤 뒤에서 받아옴 (펼친 동은 loadZonePolygon이 우선 요청)
+          const baseZones = zones.map(z => ({
+              ...z,
+              searchLat: searchCoords.lat,
+              searchLon: searchCoords.lon,
+              type: 'admin' as const
           }));
-          
-          setFoundZones(enhancedZones);
+          setFoundZones(baseZones);
+          baseZones.forEach(z => loadZonePolygon(z, 'low'));
       }
       setStep('select_zone');
     } catch (err: any) {
-      setError(err.message);
+      setError(toApiError(err, 'data.go.kr'));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleAnalyzeZone = async (selectedZone: Zone) => {
-    setLoading(true); setLoadingMsg("상권 상세 데이터를 분석하고 있습니다..."); setError(null);
+  // 행정동 경계 로드 (undefined = 아직 불러오는 중, [] = 경계 없음)
+  const loadZonePolygon = async (zone: Zone, priority: RequestPriority) => {
+      let polygon: ZoneGeometry = [];
+      try {
+          polygon = await fetchLocalAdminPolygon(zone, { priority });
+      } catch (e) {
+          console.warn(`Failed to load polygon for ${zone.mainTrarNm}`, e);
+          // 경계 없이도 분석은 가능하므로 원인만 알림
+          if (isApiError(e)) setError(e);
+      }
+      setFoundZones(prev => prev.map(z => z.trarNo === zone.trarNo ? { ...z, parsedPolygon: polygon } : z));
+      return polygon;
+  };
+
+  const togglePreviewZone = (zone: Zone) => {
+      const opening = previewZone?.trarNo !== zone.trarNo;
+      setPreviewZone(opening ? zone : null);
+      if (opening && zone.type === 'admin' && zone.parsedPolygon === undefined) loadZonePolygon(zone, 'high');
+  };
+
+  const handleAnalyzeZone = async (selectedZone: Zone, options: { resume?: boolean; refresh?: boolean } = {}) => {
+    const { resume = false, refresh = false } = options;
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
+    // 이어받기: 같은 구역의 이전 수집 결과에서 누락된 페이지만 다시 요청
+    const zoneKey = snapshotZoneKey(selectedZone);
+    const checkpoint = resume && storeCheckpointRef.current?.zoneKey === zoneKey ? storeCheckpointRef.current.checkpoint : null;
+
+    setLoading(true); setCanCancel(true); setLoadingMsg("상권 상세 데이터를 분석하고 있습니다..."); setError(null);
     setTradeZone(selectedZone);
+    // 경계를 아직 받지 못한 행정동이면 분석과 함께 우선 요청
+    if (selectedZone.type === 'admin' && selectedZone.parsedPolygon === undefined) {
+        loadZonePolygon(selectedZone, 'high').then(polygon => {
+            setTradeZone(prev => prev?.trarNo === selectedZone.trarNo ? { ...prev, parsedPolygon: polygon } : prev);
+        });
+    }
     setStep('result');
-    setSelectedLarge(null); setSelectedMid(null);
-    setSelectedBuildingIndex(null);
-    setDetailedAnalysisFilter(null);
-    setSbizStats(null);
-    setSeoulSales(null);
-    setSelectedSeoulIndustry(null);
+    if (!resume) {
+        setCategoryFilter(EMPTY_CATEGORY_FILTER); setSelectedClusterId(null);
+        setSelectedBuildingKey(null);
+        setDetailedAnalysisPath([]);
+        setSbizDongs([]);
+        setCensusStats(null);
+        setSeoulSalesHistory([]);
+        setSeoulSalesSources([]);
+        setSelectedSeoulIndustry(null);
+        setFetchReport(null);
+        setStoreWarning(null);
+        setValidation(null);
+        setStoreYm(""); setSnapshots([]); setChurnRange(null); setStoreChurn(null);
+        lqAbortRef.current?.abort(); lqAbortRef.current = null; setLqBaseStores(null); setLqLoading(false); setLqProgress(null); setLqError(null);
+        competitorRequestRef.current = null; setCompetitorSurroundings(null); setCompetitorLoading(false); setCompetitorError(null);
+    }
 
     try {
-      let stores: Store[] = [];
-      let stdrYm = "";
+      const onProgress = (msg: string) => setLoadingMsg(msg);
+      const storeOptions = { signal: controller.signal, checkpoint, refresh };
+      let result;
 
       // Fetch Stores & Sbiz Data
       if (selectedZone.type === 'admin' && selectedZone.adminCode && selectedZone.adminLevel) {
-          const [storeResult, sbizResult, seoulResult] = await Promise.all([
-             fetchStoresInAdmin(selectedZone.adminCode, selectedZone.adminLevel, (msg) => setLoadingMsg(msg)),
-             fetchSbizData(selectedZone.adminCode),
-             selectedZone.adminCode.startsWith('11') ? fetchSeoulSalesData(selectedZone.adminCode) : Promise.resolve(null)
+          const adminCode = selectedZone.adminCode;
+          // Sbiz 지표와 서울시 추정매출은 행정동 단위 데이터
+          const isDong = selectedZone.adminLevel === 'adongCd';
+          const [storeResult, sbizResult, seoulResult, censusResult] = await Promise.all([
+             fetchStoresInAdmin(adminCode, selectedZone.adminLevel, onProgress, storeOptions),
+             resume || !isDong ? Promise.resolve(null) : fetchSbizData(adminCode, { refresh }),
+             !resume && isDong && adminCode.startsWith('11') ? fetchSeoulSalesHistory(adminCode) : Promise.resolve([]),
+             // 상주 인구 통계는 행정동과 시군구 모두 제공
+             resume ? Promise.resolve(null) : fetchCensusStats(selectedZone, { refresh })
           ]);
-          stores = storeResult.stores;
-          stdrYm = storeResult.stdrYm;
-          setSbizStats(sbizResult);
-          setSeoulSales(seoulResult);
+          result = storeResult;
+          if (!resume) {
+              if (sbizResult) setSbizDongs([{ code: adminCode, name: selectedZone.mainTrarNm, zoneStores: storeResult.stores.length, ...sbizResult }]);
+              setSeoulSalesHistory(seoulResult);
+              setCensusStats(censusResult);
+          }
       } else {
-          // Trade Mode
-          const result = await fetchStores(selectedZone.trarNo, (msg) => setLoadingMsg(msg));
-          stores = result.stores;
-          stdrYm = result.stdrYm;
-
-          // Attempt to fetch Seoul Sales Data for Trade Zone
-          if (selectedZone.searchLat && selectedZone.searchLon) {
-               setLoadingMsg("행정동 매출 데이터를 추가 조회중입니다...");
-               const adminCode = await getAdminCodeFromCoords(selectedZone.searchLat, selectedZone.searchLon);
-               if (adminCode && adminCode.startsWith('11')) {
-                   const seoulData = await fetchSeoulSalesData(adminCode);
-                   setSeoulSales(seoulData);
-               }
+          if (selectedZone.type === 'radius' && selectedZone.radius) {
+              result = await fetchStoresInRadius(selectedZone.searchLat!, selectedZone.searchLon!, selectedZone.radius, onProgress, storeOptions);
+          } else if (selectedZone.type === 'custom' && selectedZone.parsedPolygon) {
+              result = await fetchStoresInShape(selectedZone.parsedPolygon, onProgress, storeOptions);
+          } else {
+              // Trade Mode
+              result = await fetchStores(selectedZone.trarNo, onProgress, storeOptions);
+          }
+
+          // Sbiz 지표(구역 안 점포가 속한 행정동별)와 서울시 매출은 서로 무관하므로 함께 조회하고,
+          // 한쪽이 실패해도 다른 쪽 결과와 점포 분석은 그대로 보여줌
+          const zoneStores = result.stores;
+          // 경계가 있으면 걸친 행정동 전체를 가중 합산, 반경 분석이나 경계가 없으면 중심점의 행정동
+          const boundary = selectedZone.type !== 'radius' ? selectedZone.parsedPolygon : undefined;
+          const loadSbiz = async () => {
+              if (zoneStores.length > 0) setSbizDongs(await fetchZoneSbizData(zoneStores, { refresh }));
+          };
+          const loadSales = async () => {
+              if (boundary && boundary.length > 0 && zoneStores.length > 0) {
+                  const sources = await fetchZoneSalesSources(boundary, zoneStores);
+                  if (sources.some(source => source.history.length > 0)) setSeoulSalesSources(sources);
+              } else if (selectedZone.searchLat && selectedZone.searchLon) {
+                  const adminCode = await getAdminCodeFromCoords(selectedZone.searchLat, selectedZone.searchLon);
+                  if (adminCode && adminCode.startsWith('11')) {
+                      setSeoulSalesHistory(await fetchSeoulSalesHistory(adminCode));
+                  }
+              }
+          };
+          if (!resume) {
+              setLoadingMsg("행정동별 상권 지표와 매출 데이터를 추가 조회중입니다...");
+              const settled = await Promise.allSettled([loadSbiz(), loadSales()]);
+              settled.forEach(outcome => {
+                  if (outcome.status === 'rejected') console.warn("Failed to load dong-level supplementary data", outcome.reason);
+              });
           }
       }
+      if (controller.signal.aborted) return;
+
+      const stores = result.stores;
+      storeCheckpointRef.current = result.checkpoint ? { zoneKey, checkpoint: result.checkpoint } : null;
+      setFetchReport(result.report);
+      setStoreWarning(result.warning || null);
+      setValidation(result.validation);
+      setFromCache(result.fromCache);
       
-      const rawDate = stdrYm || stores[0]?.stdrYm || selectedZone.stdrYm || "";
+      const rawDate = result.stdrYm || stores[0]?.stdrYm || selectedZone.stdrYm || "";
       const cleanDate = rawDate.replace(/[^0-9]/g, '');
       const fmtDate = cleanDate.length >= 6 ? `${cleanDate.substring(0,4)}년 ${cleanDate.substring(4,6)}월` : rawDate;
       
       setDataDate(fmtDate);
+      setStoreYm(normalizeYm(rawDate));
       setAllRawStores(stores);
       analyzeData(stores);
+
+      // 완전히 수집된 목록만 기준월 스냅샷으로 보관하고, 직전 기준월과 비교
+      const recorded = result.report.complete
+          ? await recordSnapshot(zoneKey, selectedZone.mainTrarNm, rawDate, stores, 'cache')
+          : await listSnapshots(zoneKey);
+      if (controller.signal.aborted) return;
+      if (recorded) {
+          setSnapshots(recorded);
+          if (recorded.length >= 2) setChurnRange({ from: recorded[1].stdrYm, to: recorded[0].stdrYm });
+      }
     } catch (err: any) {
-      setError("상세 데이터 로딩 실패: " + err.message);
+      if (isAbortError(err)) {
+          // 사용자가 취소한 경우에만 이전 단계로 (새 분석으로 대체된 경우는 무시)
+          if (analysisAbortRef.current === controller && !resume) setStep(foundZones.length > 0 ? 'select_zone' : 'input');
+          return;
+      }
+      setError(toApiError(err, 'data.go.kr'));
     } finally {
-      setLoading(false);
+      if (analysisAbortRef.current === controller) {
+          analysisAbortRef.current = null;
+          setLoading(false);
+          setCanCancel(false);
+      }
     }
   };
 
-  const analyzeData = (stores: Store[], largeFilter?: string | null, midFilter?: string | null) => {
-    if (!stores.length) return;
+  // 반경 분석: 상권 목록 없이 드래그한 지점을 중심으로 바로 분석
+  const handleAnalyzeRadius = () => {
+      const { lat, lon } = searchCoords;
+      handleAnalyzeZone({
+          trarNo: `${lat.toFixed(5)},${lon.toFixed(5)},${searchRadius}`,
+          mainTrarNm: `${resolvedAddress} 반경 ${searchRadius}m`,
+          trarArea: Math.round(Math.PI * searchRadius * searchRadius),
+          ctprvnNm: "",
+          signguNm: "",
+          coords: "",
+          searchLat: lat,
+          searchLon: lon,
+          type: 'radius',
+          radius: searchRadius
+      });
+  };
 
-    const summaryGroups: Record<string, any> = {};
-    stores.forEach(s => {
-        const l = s.indsLclsNm || "기타";
-        if(!summaryGroups[l]) summaryGroups[l] = { name: l, count: 0, franchise: 0, firstFloor: 0, mids: {} };
-        const g = summaryGroups[l];
-        g.count++;
-        const isFranchise = (s.brchNm && s.brchNm.trim() !== "") || (s.bizesNm.includes("점") && !s.bizesNm.includes("상점"));
-        if(isFranchise) g.franchise++;
-        if(["1", "1층", "지상1층"].includes(s.flrNo)) g.firstFloor++;
-        g.mids[s.indsMclsNm || "기타"] = (g.mids[s.indsMclsNm || "기타"] || 0) + 1;
-    });
+  // 직접 그린 영역: 그린 형상을 그대로 분석 (저장하지 않아도 분석 가능)
+  const handleAnalyzeCustom = () => {
+      if (!draftArea) { setError("지도에 분석할 영역을 먼저 그려주세요."); return; }
+      handleAnalyzeZone(customAreaToZone({
+          id: `draft-${Date.now().toString(36)}`,
+          name: customAreaName.trim() || `${resolvedAddress} 주변 영역`,
+          geometry: draftArea
+      }));
+  };
 
-    const summaryTableData = Object.values(summaryGroups).map((g: any) => {
-        const sortedMid = Object.entries(g.mids).sort((a: any, b: any) => b[1] - a[1]);
-        return {
-            name: g.name, count: g.count, ratio: (g.count/stores.length)*100,
-            franchiseCount: g.franchise, franchiseRatio: g.count ? (g.franchise/g.count)*100 : 0,
-            firstFloorCount: g.firstFloor, firstFloorRatio: g.count ? (g.firstFloor/g.count)*100 : 0,
-            topMid: sortedMid.length ? sortedMid[0][0] : "-"
-        };
-    }).sort((a,b) => b.count - a.count);
+  const handleSaveCustomArea = () => {
+      if (!draftArea) { setError("지도에 분석할 영역을 먼저 그려주세요."); return; }
+      const name = customAreaName.trim();
+      if (!name) { setError("저장할 영역 이름을 입력해주세요."); return; }
+      saveCustomArea(name, draftArea);
+      setCustomAreas(listCustomAreas());
+      setError(null);
+  };
 
-    let filtered = stores;
-    if(largeFilter) filtered = filtered.filter(s => s.indsLclsNm === largeFilter);
-    if(midFilter) filtered = filtered.filter(s => s.indsMclsNm === midFilter);
+  const handleDeleteCustomArea = (area: CustomArea) => {
+      if (!window.confirm(`'${area.name}' 영역을 삭제할까요?`)) return;
+      deleteCustomArea(area.id);
+      setCustomAreas(listCustomAreas());
+  };
 
-    const lCounts: Record<string, number> = {};
-    const mCounts: Record<string, number> = {};
-    const bCounts: Record<string, number> = {};
-    const bInfo: Record<string, any> = {};
-    let fFloor = 0;
-    let franchise = 0;
+  const handleSaveSnapshot = async () => {
+      if (!tradeZone || !storeYm) return;
+      const saved = await recordSnapshot(snapshotZoneKey(tradeZone), tradeZone.mainTrarNm, storeYm, allRawStores, 'saved');
+      if (saved) setSnapshots(saved);
+  };
 
-    filtered.forEach(s => {
-       if(!largeFilter) lCounts[s.indsLclsNm || "기타"] = (lCounts[s.indsLclsNm || "기타"] || 0) + 1;
-       mCounts[s.indsMclsNm || "기타"] = (mCounts[s.indsMclsNm || "기타"] || 0) + 1;
-       
-       if(s.bldNm) {
-         bCounts[s.bldNm] = (bCounts[s.bldNm] || 0) + 1;
-         if(!bInfo[s.bldNm] && s.lat) bInfo[s.bldNm] = { lat: parseFloat(s.lat), lon: parseFloat(s.lon) };
-       }
-       if(["1", "1층", "지상1층"].includes(s.flrNo)) fFloor++;
-       if((s.brchNm && s.brchNm.trim() !== "") || (s.bizesNm.includes("점") && !s.bizesNm.includes("상점"))) franchise++;
-    });
+  const lqDistrict = useMemo(() => parentDistrict(allRawStores), [allRawStores]);
+
+  const districtDiversity = useMemo<DiversityReference | null>(
+      () => lqDistrict && lqBaseStores ? { name: lqDistrict.name, diversity: zoneDiversity(lqBaseStores) } : null,
+      [lqDistrict, lqBaseStores]
+  );
+
+  // 분석이 끝난 구역의 다양성을 기록 (같은 구역은 최신 값으로 교체)
+  const currentDiversity = storeStats?.diversity;
+  useEffect(() => {
+      if (loading || !tradeZone || !currentDiversity || selectedClusterId !== null) return;
+      const key = snapshotZoneKey(tradeZone);
+      setDiversityHistory(prev => [
+          { key, name: tradeZone.mainTrarNm, diversity: currentDiversity },
+          ...prev.filter(h => h.key !== key)
+      ].slice(0, 10));
+  }, [loading, tradeZone, currentDiversity, selectedClusterId]);
+
+  // 실패한 지표가 있는 행정동만 캐시 없이 다시 조회 (그 사이 구역이 바뀌었으면 목록에 없으므로 무시됨)
+  const handleRetrySbiz = async (code: string) => {
+      const retried = await fetchSbizData(code, { refresh: true });
+      setSbizDongs(prev => prev.map(dong => dong.code === code ? { ...dong, ...retried } : dong));
+  };
+
+  const handleLoadLqBaseline = async () => {
+      if (!tradeZone || !lqDistrict) return;
+      // 구역이 바뀌거나 초기화되면 이 컨트롤러로 수집을 중단
+      lqAbortRef.current?.abort();
+      const controller = new AbortController();
+      lqAbortRef.current = controller;
+      setLqLoading(true); setLqError(null); setLqProgress(null);
+      try {
+          const onProgress = (msg: string) => { if (lqAbortRef.current === controller) setLqProgress(msg); };
+          const result = await fetchStoresInAdmin(lqDistrict.code, 'signguCd', onProgress, { signal: controller.signal });
+          if (lqAbortRef.current !== controller) return;
+          setLqBaseStores(result.stores);
+          setLqError(result.warning || null);
+      } catch (err) {
+          if (lqAbortRef.current === controller && !isAbortError(err)) setLqError(toApiError(err, 'data.go.kr'));
+      } finally {
+          if (lqAbortRef.current === controller) {
+              lqAbortRef.current = null;
+              setLqLoading(false); setLqProgress(null);
+          }
+      }
+  };
+
+  const handleSelectCluster = (id: number | null) => {
+      setSelectedClusterId(prev => prev === id ? null : id);
+      setSelectedBuildingKey(null);
+  };
+
+  // 상위 5개 건물은 지도 마커 순위와 같으므로 선택한 건물의 순위로 마커를 강조
+  const selectedBuilding = storeStats?.buildings.find(b => b.key === selectedBuildingKey) || null;
+  const selectedBuildingIndex = selectedBuilding && storeStats ? storeStats.buildings.indexOf(selectedBuilding) : null;
+  const selectedBuildingStores = useMemo(
+      () => selectedBuildingKey ? allRawStores.filter(s => buildingKey(s) === selectedBuildingKey) : [],
+      [allRawStores, selectedBuildingKey]
+  );
+
+  const handleSelectBuilding = (key: string | null) => setSelectedBuildingKey(prev => prev === key ? null : key);
+
+  const handleChurnRangeChange = (from: string, to: string) => {
+      // 항상 이전 기준월 → 이후 기준월로 비교
+      setChurnRange(from <= to ? { from, to } : { from: to, to: from });
+  };
+
+  const analyzeData = (stores: Store[], categoryFilter: CategoryFilter = EMPTY_CATEGORY_FILTER) => {
+    if (!stores.length) return;
 
-    const globalLCounts: Record<string, number> = {};
-    stores.forEach(s => globalLCounts[s.indsLclsNm || "기타"] = (globalLCounts[s.indsLclsNm || "기타"] || 0) + 1);
-    const globalPieData = Object.keys(globalLCounts).map(k => ({ name: k, value: globalLCounts[k] })).sort((a,b) => b.value - a.value);
+    const summaryTableData = summarizeCategories(stores, 'large');
 
-    const fullBarData = Object.keys(mCounts).map(k => ({ name: k, count: mCounts[k], value: mCounts[k] })).sort((a,b) => b.count - a.count);
-    const buildingData = Object.keys(bCounts).map(k => ({ name: k, count: bCounts[k], value: bCounts[k], lat: bInfo[k]?.lat, lon: bInfo[k]?.lon })).sort((a,b) => b.count - a.count).slice(0, 5);
+    const filtered = stores.filter(s => matchesCategory(s, categoryFilter));
+    const franchise = filtered.filter(isFranchise).length;
 
-    const isMajor = (nm: string) => MAJOR_BRANDS.some(b => nm.includes(b));
-    const isFranchiseStore = (s: Store) => (s.brchNm && s.brchNm.trim() !== "") || (s.bizesNm.includes("점") && !s.bizesNm.includes("상점"));
+    const globalPieData = countCategories(stores, 'large');
+    const fullBarData = countCategories(filtered, 'mid');
+    const buildings = summarizeBuildings(filtered);
+    const buildingData = buildings.slice(0, 5).map(b => ({ name: b.name, count: b.count, value: b.count, lat: b.lat, lon: b.lon }));
+
+    // 행정동별 요약 (시군구 분석)
+    // 대표 대분류는 코드로 세고 이름은 표시에만 씀
+    const dongGroups: Record<string, { name: string; count: number; franchise: number; firstFloor: number; larges: Record<string, number> }> = {};
+    const largeNames: Record<string, string> = {};
+    filtered.forEach(s => {
+        const code = s.adongCd || "기타";
+        if(!dongGroups[code]) dongGroups[code] = { name: s.adongNm || "기타", count: 0, franchise: 0, firstFloor: 0, larges: {} };
+        const g = dongGroups[code];
+        g.count++;
+        if(isFranchise(s)) g.franchise++;
+        if(s.floor === 1) g.firstFloor++;
+        const largeCode = categoryCode(s, 'large');
+        g.larges[largeCode] = (g.larges[largeCode] || 0) + 1;
+        if (!largeNames[largeCode]) largeNames[largeCode] = categoryName(s, 'large');
+    });
+    const dongData = Object.entries(dongGroups).map(([code, g]) => {
+        const sortedLarge = Object.entries(g.larges).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        return {
+            code, name: g.name, count: g.count, ratio: (g.count/filtered.length)*100,
+            franchiseCount: g.franchise, firstFloorCount: g.firstFloor,
+            topLarge: sortedLarge.length ? largeNames[sortedLarge[0][0]] : "-"
+        };
+    }).sort((a,b) => b.count - a.count);
 
     const sortedStores = [...filtered].sort((a, b) => {
-        const aMajor = isMajor(a.bizesNm);
-        const bMajor = isMajor(b.bizesNm);
+        const aMajor = isBrandStore(a);
+        const bMajor = isBrandStore(b);
         if (aMajor && !bMajor) return -1;
         if (!aMajor && bMajor) return 1;
         if (aMajor === bMajor) {
-            const aFran = isFranchiseStore(a);
-            const bFran = isFranchiseStore(b);
+            const aFran = isFranchise(a);
+            const bFran = isFranchise(b);
             if (aFran && !bFran) return -1;
             if (!aFran && bFran) return 1;
         }
-        const aFloor1 = (a.flrNo === '1' || a.flrNo === '1층' || a.flrNo === '지상1층') ? 1 : 0;
-        const bFloor1 = (b.flrNo === '1' || b.flrNo === '1층' || b.flrNo === '지상1층') ? 1 : 0;
+        const aFloor1 = a.floor === 1 ? 1 : 0;
+        const bFloor1 = b.floor === 1 ? 1 : 0;
         if(aFloor1 !== bFloor1) return bFloor1 - aFloor1;
-        const aHasBranch = (a.brchNm && a.brchNm.trim()) ? 1 : 0;
-        const bHasBranch = (b.brchNm && b.brchNm.trim()) ? 1 : 0;
+        const aHasBranch = a.brchNm ? 1 : 0;
+        const bHasBranch = b.brchNm ? 1 : 0;
         if (aHasBranch !== bHasBranch) return bHasBranch - aHasBranch;
         return (a.bizesNm || "").localeCompare(b.bizesNm || "");
     });
@@ -305,42 +540,71 @@ const App: React.FC = () => {
         pieData: globalPieData,
         barData: fullBarData.slice(0, 10),
         fullBarData,
+        smallData: countCategories(filtered, 'small'),
         buildingData,
-        floorData: [{ name: '1층 점포', value: fFloor }, { name: '그 외 층', value: filtered.length - fFloor }],
+        floorData: floorDistribution(filtered),
         franchiseRate: filtered.length ? ((franchise/filtered.length)*100).toFixed(1) : "0",
-        summaryTableData
+        summaryTableData,
+        dongData,
+        brandData: summarizeBrands(filtered),
+        buildings,
+        diversity: zoneDiversity(stores)
     });
     setTopStores(sortedStores.slice(0, 50));
   };
 
+  // 시군구 분석처럼 점포가 아주 많으면 밀집 구역 계산을 건너뜀
+  const clusteringEnabled = tradeZone?.adminLevel !== 'signguCd' && allRawStores.length <= CLUSTER_MAX_STORES;
+  const clusters = useMemo(() => clusteringEnabled ? clusterStores(allRawStores) : [], [allRawStores, clusteringEnabled]);
+  const selectedCluster = clusters.find(c => c.id === selectedClusterId) || null;
+
+  // 밀집 구역을 고르면 업종 필터 이전 단계에서 점포를 좁힘
+  const scopedStores = useMemo(() => {
+      if (!selectedCluster) return allRawStores;
+      const ids = new Set(selectedCluster.storeIds);
+      return allRawStores.filter(s => ids.has(s.bizesId));
+  }, [allRawStores, selectedCluster]);
+
   useEffect(() => {
-    if(allRawStores.length > 0) analyzeData(allRawStores, selectedLarge, selectedMid);
-  }, [selectedLarge, selectedMid, allRawStores]);
+    if(scopedStores.length > 0) analyzeData(scopedStores, categoryFilter);
+  }, [categoryFilter, scopedStores]);
+
+  const filteredStores = useMemo(() => scopedStores.filter(s => matchesCategory(s, categoryFilter)), [scopedStores, categoryFilter]);
+
+  // 분류 코드 → 표시 이름
+  const categoryNames = useMemo(() => categoryLabels(allRawStores), [allRawStores]);
+  const categoryFilterLabel = [selectedSmall, selectedMid, selectedLarge].map(code => code && categoryNames[code]).find(Boolean) || null;
+
+  // 상위 분류를 바꾸면 하위 선택은 풀고, 같은 항목을 다시 누르면 그 단계 선택을 해제
+  const handleSelectCategory = (level: CategoryLevel, code: string | undefined) => {
+      if (!code) return;
+      setCategoryFilter(prev => {
+          const next = prev[level] === code ? null : code;
+          if (level === 'large') return { large: next, mid: null, small: null };
+          if (level === 'mid') return { ...prev, mid: next, small: null };
+          return { ...prev, small: next };
+      });
+  };
 
   const activePieIndex = useMemo(() => {
      if(!storeStats || !selectedLarge) return -1;
-     return storeStats.pieData.findIndex(i => i.name === selectedLarge);
+     return storeStats.pieData.findIndex(i => i.code === selectedLarge);
   }, [storeStats, selectedLarge]);
 
+  const detailedAnalysisLevel = CATEGORY_LEVELS[detailedAnalysisPath.length];
   const summaryTableDisplayData = useMemo(() => {
     if(!storeStats) return [];
-    if(!detailedAnalysisFilter) return storeStats.summaryTableData;
-    const targetStores = allRawStores.filter(s => s.indsLclsNm === detailedAnalysisFilter);
-    const groups: Record<string, any> = {};
-    targetStores.forEach(s => {
-        const m = s.indsMclsNm || "기타";
-        if(!groups[m]) groups[m] = { name: m, count: 0, franchise: 0, firstFloor: 0 };
-        const g = groups[m];
-        g.count++;
-        const isFranchise = (s.brchNm && s.brchNm.trim() !== "") || (s.bizesNm.includes("점") && !s.bizesNm.includes("상점"));
-        if(isFranchise) g.franchise++;
-        if(["1", "1층", "지상1층"].includes(s.flrNo)) g.firstFloor++;
-    });
-    const totalInGroup = targetStores.length;
-    return Object.values(groups).map((g: any) => ({
-        name: g.name, count: g.count, ratio: totalInGroup ? (g.count / totalInGroup) * 100 : 0, franchiseCount: g.franchise, franchiseRatio: g.count ? (g.franchise/g.count)*100 : 0, firstFloorCount: g.firstFloor, firstFloorRatio: g.count ? (g.firstFloor/g.count)*100 : 0, topMid: "-"
-    })).sort((a: any, b: any) => b.count - a.count);
-  }, [storeStats, detailedAnalysisFilter, allRawStores]);
+    if(!detailedAnalysisPath.length) return storeStats.summaryTableData;
+    const [large, mid] = detailedAnalysisPath;
+    const targetStores = scopedStores.filter(s => matchesCategory(s, { large, mid: mid ?? null, small: null }));
+    return summarizeCategories(targetStores, detailedAnalysisLevel);
+  }, [storeStats, detailedAnalysisPath, detailedAnalysisLevel, scopedStores]);
+
+  const salesHistory = useMemo(() => {
+      return seoulSalesSources.length > 0 ? blendSalesHistory(seoulSalesSources, salesWeighting) : seoulSalesHistory;
+  }, [seoulSalesSources, salesWeighting, seoulSalesHistory]);
+  // 가장 최근 분기
+  const seoulSales = salesHistory.length > 0 ? salesHistory[salesHistory.length - 1] : null;
 
   // Derived Seoul Sales Data based on Filter
   const currentSeoulData = useMemo(() => {
@@ -361,11 +625,104 @@ const App: React.FC = () => {
           .slice(0, 10); // Show Top 10 only for readability
   }, [seoulSales, salesViewMode]);
 
+  // 개발 중 API 키나 한도 문제로 실제 API를 쓸 수 없을 때 녹화 데이터로 전환해 흐름을 계속 확인
+  // (운영 빌드에서는 실제 사용자가 녹화 데이터를 실데이터로 오인하지 않도록 제공하지 않음)
+  const switchToFixtureSource = () => {
+      setDataSource(createFixtureSource(readFixtureOverHttp()));
+      setError(null);
+  };
+  const canUseFixture = isFixtureFallbackEnabled() && getDataSource().name !== 'fixture';
+
+  // 선택한 두 스냅샷의 점포 변동
+  useEffect(() => {
+      if (!tradeZone || !churnRange || churnRange.from === churnRange.to) {
+          setStoreChurn(null);
+          return;
+      }
+      let cancelled = false;
+      const zoneKey = snapshotZoneKey(tradeZone);
+      Promise.all([loadSnapshot(zoneKey, churnRange.from), loadSnapshot(zoneKey, churnRange.to)]).then(([before, after]) => {
+          if (!cancelled) setStoreChurn(before && after ? diffSnapshots(before, after) : null);
+      });
+      return () => { cancelled = true; };
+  }, [tradeZone?.type, tradeZone?.trarNo, churnRange]);
+
+  const churnPointLayers = useMemo<PointLayer[]>(() => {
+      if (!storeChurn) return [];
+      const period = `${formatYm(storeChurn.from)} → ${formatYm(storeChurn.to)}`;
+      const toPoints = (stores: StoreChurn['opened']) => stores.map(s => ({ lat: s.lat, lon: s.lon, title: `${s.bizesNm}<br><span style="color:#666;">${s.indsMclsNm}</span>` }));
+      return [
+          ...(churnLayers.opened ? [{ id: 'opened', label: `신규 점포 (${period})`, color: CHURN_COLORS.opened, points: toPoints(storeChurn.opened) }] : []),
+          ...(churnLayers.closed ? [{ id: 'closed', label: `폐업 점포 (${period})`, color: CHURN_COLORS.closed, points: toPoints(storeChurn.closed) }] : [])
+      ];
+  }, [storeChurn, churnLayers]);
+
+  // 후보지 = 검색/드래그한 지점 (직접 그린 영역은 외접 사각형 중심)
+  const competitorSite = tradeZone?.searchLat && tradeZone?.searchLon ? { lat: tradeZone.searchLat, lon: tradeZone.searchLon } : null;
+  const competitorSiteKey = competitorSite ? `${competitorSite.lat.toFixed(5)},${competitorSite.lon.toFixed(5)}` : "";
+  const surroundingsLoaded = !!competitorSurroundings && competitorSurroundings.key === competitorSiteKey;
+  // 후보지 중심 반경 분석이 가장 바깥 링을 덮으면 구역 점포만으로 충분
+  const competitorComplete = surroundingsLoaded || (tradeZone?.type === 'radius' && (tradeZone.radius || 0) >= COMPETITOR_MAX_M);
+  const competitorPool = surroundingsLoaded ? competitorSurroundings!.stores : allRawStores;
+
+  const competitorMidOptions = useMemo(() => countCategories(competitorPool, 'mid'), [competitorPool]);
+
+  const competitors = useMemo(
+      () => competitorSite && competitorTarget ? findCompetitors(competitorPool, competitorSite, competitorTarget) : [],
+      [competitorPool, competitorSiteKey, competitorTarget]
+  );
+
+  const competitorRingSet = useMemo<RingSet | null>(
+      () => competitorSite && competitorTarget ? { ...competitorSite, radii: COMPETITOR_RINGS_M, label: "후보지" } : null,
+      [competitorSiteKey, competitorTarget]
+  );
+
+  const mapPointLayers = useMemo<PointLayer[]>(() => {
+      if (!competitorTarget) return churnPointLayers;
+      const nearest = competitors.find(c => c.franchise);
+      const toPoints = (list: typeof competitors) => list.map(c => ({
+          lat: c.store.lat, lon: c.store.lon,
+          title: `${c.store.bizesNm} ${c.store.brchNm}<br><span style="color:#666;">${Math.round(c.distance)}m · ${c.store.indsMclsNm}</span>`
+      }));
+      return [
+          ...churnPointLayers,
+          { id: 'competitor-independent', label: "경쟁 점포", color: COMPETITOR_COLORS.independent, points: toPoints(competitors.filter(c => !c.franchise)) },
+          { id: 'competitor-franchise', label: "경쟁 프랜차이즈", color: COMPETITOR_COLORS.franchise, points: toPoints(competitors.filter(c => c.franchise && c !== nearest)) },
+          ...(nearest ? [{ id: 'competitor-nearest', label: "가장 가까운 프랜차이즈", color: COMPETITOR_COLORS.nearest, radius: 8, points: toPoints([nearest]) }] : [])
+      ];
+  }, [churnPointLayers, competitors, competitorTarget]);
+
+  const handleLoadCompetitorSurroundings = async () => {
+      if (!tradeZone || !competitorSite) return;
+      const siteKey = competitorSiteKey;
+      const requestKey = `${snapshotZoneKey(tradeZone)}:${siteKey}`;
+      competitorRequestRef.current = requestKey;
+      setCompetitorLoading(true); setCompetitorError(null);
+      try {
+          const result = await fetchStoresInRadius(competitorSite.lat, competitorSite.lon, COMPETITOR_MAX_M, () => {});
+          if (competitorRequestRef.current !== requestKey) return;
+          setCompetitorSurroundings({ key: siteKey, stores: result.stores });
+          setCompetitorError(result.warning || null);
+      } catch (err) {
+          if (competitorRequestRef.current === requestKey) setCompetitorError(toApiError(err, 'data.go.kr'));
+      } finally {
+          if (competitorRequestRef.current === requestKey) setCompetitorLoading(false);
+      }
+  };
+
   const reset = () => {
+      analysisAbortRef.current?.abort();
+      analysisAbortRef.current = null;
+      storeCheckpointRef.current = null;
+      setLoading(false); setCanCancel(false); setFetchReport(null); setStoreWarning(null); setValidation(null); setError(null);
       setStep("input"); setAddress(""); setFoundZones([]); setTradeZone(null); 
-      setAllRawStores([]); setStoreStats(null); setSbizStats(null); setDataDate(null);
-      setSelectedBuildingIndex(null); setDetailedAnalysisFilter(null);
-      setSeoulSales(null); setSelectedSeoulIndustry(null);
+      setAllRawStores([]); setStoreStats(null); setSbizDongs([]); setCensusStats(null); setDataDate(null);
+      setStoreYm(""); setSnapshots([]); setChurnRange(null); setStoreChurn(null);
+      lqAbortRef.current?.abort(); lqAbortRef.current = null; setLqBaseStores(null); setLqLoading(false); setLqProgress(null); setLqError(null);
+      competitorRequestRef.current = null; setCompetitorTarget(null); setCompetitorSurroundings(null); setCompetitorLoading(false); setCompetitorError(null);
+      setSelectedBuildingKey(null); setDetailedAnalysisPath([]); setSelectedClusterId(null);
+      setSeoulSalesHistory([]); setSeoulSalesSources([]); setSelectedSeoulIndustry(null);
+      setDrawMode(null); setDraftArea(null); setCustomAreaName("");
   };
 
   return (
@@ -426,6 +783,18 @@ const App: React.FC = () => {
                    >
                        행정 구역 기준
                    </button>
+                   <button 
+                       onClick={() => setSearchType('radius')}
+                       className={`px-4 py-2 rounded-lg text-sm font-bold transition-all duration-200 ${searchType === 'radius' ? 'bg-white text-violet-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                   >
+                       지점 반경 기준
+                   </button>
+                   <button 
+                       onClick={() => setSearchType('custom')}
+                       className={`px-4 py-2 rounded-lg text-sm font-bold transition-all duration-200 ${searchType === 'custom' ? 'bg-white text-amber-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                   >
+                       직접 그리기
+                   </button>
                </div>
            </div>
 
@@ -434,12 +803,25 @@ const App: React.FC = () => {
            <div className="flex flex-col gap-2 mb-4">
               <div className="flex flex-col md:flex-row gap-2">
                   <input value={address} onChange={e => setAddress(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleGeocode()} className="w-full md:flex-1 p-3 md:p-4 border border-gray-300 rounded-xl text-base md:text-lg outline-none focus:ring-2 focus:ring-blue-500" placeholder="예: 테헤란로 000" />
-                  <button onClick={handleGeocode} disabled={loading} className={`w-full md:w-auto text-white py-3 md:py-0 px-8 rounded-xl font-bold hover:opacity-90 disabled:bg-gray-400 transition flex items-center justify-center gap-2 ${searchType === 'trade' ? 'bg-blue-600' : 'bg-green-600'}`}>
+                  <button onClick={handleGeocode} disabled={loading} className={`w-full md:w-auto text-white py-3 md:py-0 px-8 rounded-xl font-bold hover:opacity-90 disabled:bg-gray-400 transition flex items-center justify-center gap-2 ${SEARCH_TYPE_BG[searchType]}`}>
                      {loading ? <div className="loading-spinner" /> : <><Icons.Search className="w-5 h-5 md:w-6 md:h-6"/><span>검색</span></>}
                   </button>
               </div>
            </div>
-           {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+           {error && (
+               <ErrorNotice
+                   error={error}
+                   className="mt-4"
+                   onRetry={handleGeocode}
+                   onUseFixture={canUseFixture ? () => { switchToFixtureSource(); handleGeocode(); } : undefined}
+               />
+           )}
+           {searchType === 'custom' && (
+               <div className="mt-6 border-t pt-6">
+                   <h3 className="text-sm font-bold text-gray-700 mb-3 text-left">저장한 영역 ({customAreas.length}개)</h3>
+                   <CustomAreaList areas={customAreas} disabled={loading} onOpen={area => handleAnalyzeZone(customAreaToZone(area))} onDelete={handleDeleteCustomArea} />
+               </div>
+           )}
         </div>
 
         <GoogleAd slot="4992341640" className="max-w-6xl mx-auto mt-6" style={{ minHeight: '100px' }} />
@@ -454,7 +836,7 @@ const App: React.FC = () => {
                     공개된 상권 데이터를 기반으로, 
                     특정 지역(주소) 주변의 <strong>점포 현황, 업종 분포, 프랜차이즈 비율</strong> 등을 
                     분석하여 제공하는 무료 웹 서비스입니다. 
-                    {searchType === 'trade' ? '상가 밀집 구역(주요 상권)을 중심으로' : '행정 구역을 기준으로'} 데이터를 분석합니다.
+                    {searchType === 'trade' ? '상가 밀집 구역(주요 상권)을 중심으로' : searchType === 'admin' ? '행정 구역을 기준으로' : searchType === 'radius' ? '지정한 지점의 반경을 기준으로' : '지도에 직접 그린 영역을 기준으로'} 데이터를 분석합니다.
                 </p>
             </section>
             
@@ -466,7 +848,7 @@ const App: React.FC = () => {
                 <ul className="space-y-3 text-gray-600">
                     <li className="flex gap-3">
                         <span className="flex-shrink-0 w-6 h-6 bg-gray-200 rounded-full flex items-center justify-center font-bold text-xs text-gray-700">1</span>
-                        <span>분석 기준(주요 상권/행정 구역)을 선택하고, 주소를 입력하여 검색합니다.</span>
+                        <span>분석 기준(주요 상권/행정 구역/지점 반경/직접 그리기)을 선택하고, 주소를 입력하여 검색합니다.</span>
                     </li>
                     <li className="flex gap-3">
                         <span className="flex-shrink-0 w-6 h-6 bg-gray-200 rounded-full flex items-center justify-center font-bold text-xs text-gray-700">2</span>
@@ -519,15 +901,77 @@ const App: React.FC = () => {
       {step === 'verify_location' && (
         <div className="bg-white rounded-xl shadow-lg p-4 md:p-6 mb-8 border border-blue-100 animate-fade-in">
            <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><Icons.MapPin className="text-blue-500"/> 검색 위치 확인</h3>
-           <p className="text-sm text-gray-600 mb-4">위치가 정확한지 확인하고, 필요하면 <strong>마커를 드래그</strong>하여 조정해주세요.</p>
+           {searchType === 'custom' ? (
+               <p className="text-sm text-gray-600 mb-4">그리기 방식을 고른 뒤 <strong>지도를 누른 채로 끌어</strong> 분석할 영역을 그려주세요.</p>
+           ) : (
+               <p className="text-sm text-gray-600 mb-4">위치가 정확한지 확인하고, 필요하면 <strong>마커를 드래그</strong>하여 조정해주세요.</p>
+           )}
+           {searchType === 'custom' && (
+               <div className="flex items-center gap-2 mb-4 flex-wrap">
+                   <span className="text-sm font-bold text-gray-700 mr-1">그리기</span>
+                   {([['freehand', '✏️ 자유 그리기'], ['rectangle', '▭ 사각형']] as [DrawMode, string][]).map(([mode, label]) => (
+                       <button
+                           key={mode}
+                           onClick={() => setDrawMode(prev => prev === mode ? null : mode)}
+                           className={`px-3 py-1.5 text-sm font-bold rounded-lg border transition ${drawMode === mode ? 'bg-amber-600 text-white border-amber-600' : 'bg-white text-gray-600 border-gray-300 hover:border-amber-300'}`}
+                       >
+                           {label}
+                       </button>
+                   ))}
+                   {draftArea && (
+                       <button onClick={() => setDraftArea(null)} className="px-3 py-1.5 text-sm font-bold rounded-lg border border-gray-300 text-gray-500 hover:text-red-600 hover:border-red-300">
+                           지우기
+                       </button>
+                   )}
+               </div>
+           )}
            <div className="h-80 w-full rounded-lg overflow-hidden border border-gray-300 mb-4 relative z-0">
-              <TradeMap lat={searchCoords.lat} lon={searchCoords.lon} draggable={true} onDragEnd={(lat, lon) => setSearchCoords({lat, lon})} />
+              {searchType === 'custom' ? (
+                  <TradeMap
+                      lat={searchCoords.lat}
+                      lon={searchCoords.lon}
+                      polygonCoords={draftArea || undefined}
+                      drawMode={drawMode}
+                      onDrawComplete={geometry => { setDraftArea(geometry); setDrawMode(null); }}
+                  />
+              ) : (
+                  <TradeMap lat={searchCoords.lat} lon={searchCoords.lon} radius={searchType === 'radius' ? searchRadius : undefined} draggable={true} onDragEnd={(lat, lon) => setSearchCoords({lat, lon})} />
+              )}
            </div>
            <div className="text-sm text-gray-500 mb-4 bg-gray-50 p-3 rounded">검색 결과: <strong>{resolvedAddress}</strong></div>
-           <button onClick={handleSearchZones} disabled={loading} className={`w-full text-white px-4 py-3 md:px-6 md:py-4 rounded-lg font-bold hover:opacity-90 transition flex items-center justify-center gap-2 shadow-lg ${searchType === 'trade' ? 'bg-blue-600' : 'bg-green-600'}`}>
-                {loading ? '정보 조회 중...' : (searchType === 'trade' ? '📍 이 위치 주변 상권 분석하기' : '🏢 이 위치의 행정구역 분석하기')}
+           {searchType === 'radius' && (
+               <div className="flex items-center gap-2 mb-4 flex-wrap">
+                   <span className="text-sm font-bold text-gray-700 mr-1">분석 반경</span>
+                   {RADIUS_OPTIONS.map(r => (
+                       <button
+                           key={r}
+                           onClick={() => setSearchRadius(r)}
+                           className={`px-3 py-1.5 text-sm font-bold rounded-lg border transition ${searchRadius === r ? 'bg-violet-600 text-white border-violet-600' : 'bg-white text-gray-600 border-gray-300 hover:border-violet-300'}`}
+                       >
+                           {r >= 1000 ? `${r / 1000}km` : `${r}m`}
+                       </button>
+                   ))}
+               </div>
+           )}
+           {searchType === 'custom' && draftArea && (
+               <div className="flex flex-col md:flex-row gap-2 mb-4">
+                   <input value={customAreaName} onChange={e => setCustomAreaName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSaveCustomArea()} className="flex-1 p-2.5 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-amber-500" placeholder="영역 이름 (예: 역 앞 먹자골목)" />
+                   <button onClick={handleSaveCustomArea} className="px-4 py-2.5 text-sm font-bold rounded-lg border border-amber-600 text-amber-700 hover:bg-amber-50 transition">
+                       💾 영역 저장
+                   </button>
+               </div>
+           )}
+           <button onClick={searchType === 'radius' ? handleAnalyzeRadius : searchType === 'custom' ? handleAnalyzeCustom : handleSearchZones} disabled={loading || (searchType === 'custom' && !draftArea)} className={`w-full text-white px-4 py-3 md:px-6 md:py-4 rounded-lg font-bold hover:opacity-90 disabled:opacity-50 transition flex items-center justify-center gap-2 shadow-lg ${SEARCH_TYPE_BG[searchType]}`}>
+                {loading ? '정보 조회 중...' : (searchType === 'trade' ? '📍 이 위치 주변 상권 분석하기' : searchType === 'admin' ? '🏢 이 위치의 행정구역 분석하기' : searchType === 'radius' ? `🎯 이 지점 반경 ${searchRadius}m 분석하기` : '✏️ 그린 영역 분석하기')}
            </button>
-           {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+           {error && (
+               <ErrorNotice
+                   error={error}
+                   className="mt-4"
+                   onRetry={handleSearchZones}
+                   onUseFixture={canUseFixture ? () => { switchToFixtureSource(); handleSearchZones(); } : undefined}
+               />
+           )}
         </div>
       )}
 
@@ -538,14 +982,15 @@ const App: React.FC = () => {
                 <Icons.List className="text-blue-500"/> 
                 {searchType === 'trade' ? `주변 상권 선택 (${foundZones.length}개)` : '분석 대상 행정구역 선택'}
             </h3>
+            {error && <ErrorNotice error={error} className="mb-4" />}
             <div className="grid grid-cols-1 gap-4">
                 {foundZones.map((z, i) => (
                     <div key={i} className={`border rounded-xl p-4 transition-all duration-300 ${previewZone?.trarNo === z.trarNo ? 'border-blue-500 bg-blue-50 shadow-md' : 'hover:border-blue-300 bg-white hover:shadow-sm'}`}>
-                        <div onClick={() => setPreviewZone(prev => prev?.trarNo === z.trarNo ? null : z)} className="cursor-pointer flex justify-between items-center">
+                        <div onClick={() => togglePreviewZone(z)} className="cursor-pointer flex justify-between items-center">
                             <div>
                                 <div className="flex items-center gap-2 mb-1">
                                     <span className={`text-xs px-2 py-1 rounded font-medium ${searchType === 'trade' ? 'bg-blue-100 text-blue-700' : 'bg-green-100 text-green-700'}`}>
-                                        {searchType === 'trade' ? `상권번호 ${z.trarNo}` : '행정동'}
+                                        {searchType === 'trade' ? `상권번호 ${z.trarNo}` : z.adminLevel === 'signguCd' ? `시군구 전체 (${z.subAreas?.length ?? 0}개 동)` : '행정동'}
                                     </span>
                                     <h4 className="font-bold text-gray-800 text-lg">{z.mainTrarNm}</h4>
                                 </div>
@@ -559,6 +1004,10 @@ const App: React.FC = () => {
                                      <div className="h-64 w-full rounded-lg overflow-hidden border border-gray-300 mb-3 relative z-0">
                                         <TradeMap lat={z.searchLat!} lon={z.searchLon!} polygonCoords={z.parsedPolygon} tradeName={z.mainTrarNm}/>
                                      </div>
+                                 ) : z.parsedPolygon === undefined ? (
+                                     <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-3 text-center text-gray-500 text-sm flex items-center justify-center gap-2">
+                                         <div className="loading-spinner" /> 경계 데이터를 불러오는 중입니다...
+                                     </div>
                                  ) : (
                                      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-3 text-center text-gray-500 text-sm">
                                          * 해당 행정구역의 상세 경계 데이터를 불러오지 못했습니다. (데이터 없음)
@@ -576,6 +1025,14 @@ const App: React.FC = () => {
       )}
 
       {/* 4. Dashboard */}
+      {step === 'result' && error && tradeZone && (
+         <ErrorNotice
+             error={error}
+             className="mb-6"
+             onRetry={() => handleAnalyzeZone(tradeZone)}
+             onUseFixture={canUseFixture ? () => { switchToFixtureSource(); handleAnalyzeZone(tradeZone); } : undefined}
+         />
+      )}
       {step === 'result' && storeStats && tradeZone && (
          <div className="animate-fade-in">
              <div className="flex border-b border-gray-200 mb-6 overflow-x-auto gap-2">
@@ -587,16 +1044,31 @@ const App: React.FC = () => {
              <div className="space-y-6 animate-fade-in">
                  {/* Main Card */}
                  <div className="bg-white rounded-xl shadow-lg overflow-hidden">
-                    <div className={`bg-gradient-to-r p-4 md:p-6 text-white flex flex-col md:flex-row justify-between items-center ${tradeZone.type === 'admin' ? 'from-green-500 to-teal-600' : 'from-blue-500 to-indigo-600'}`}>
+                    <div className={`bg-gradient-to-r p-4 md:p-6 text-white flex flex-col md:flex-row justify-between items-center ${tradeZone.type === 'admin' ? 'from-green-500 to-teal-600' : tradeZone.type === 'radius' ? 'from-violet-500 to-purple-600' : tradeZone.type === 'custom' ? 'from-amber-500 to-orange-600' : 'from-blue-500 to-indigo-600'}`}>
                        <div>
                           <h2 className="text-3xl font-bold mb-1">{tradeZone.mainTrarNm}</h2>
                           <p className="opacity-90 text-sm flex items-center gap-1"><Icons.MapPin className="w-4 h-4"/> {tradeZone.ctprvnNm} {tradeZone.signguNm}</p>
+                          <div className="mt-2 flex items-center gap-2 text-xs">
+                              {fromCache && <span className="bg-white/20 px-2 py-0.5 rounded-full">저장된 데이터 사용 중</span>}
+                              <button onClick={() => handleAnalyzeZone(tradeZone, { refresh: true })} disabled={loading} className="bg-white/20 hover:bg-white/30 disabled:opacity-50 px-2 py-0.5 rounded-full transition">
+                                  ↻ 데이터 새로고침
+                              </button>
+                          </div>
                        </div>
                        <div className="text-right mt-4 md:mt-0">
                           <p className="text-sm opacity-75">
-                            {(selectedLarge || selectedMid) ? '필터링된 점포' : `총 점포수 ${dataDate ? `(${dataDate} 기준)` : ''}`}
+                            {(selectedLarge || selectedCluster) ? '필터링된 점포' : `총 점포수 ${dataDate ? `(${dataDate} 기준)` : ''}`}
                           </p>
                           <p className="text-4xl font-bold">{storeStats.totalStores.toLocaleString()}<span className="text-xl">개</span></p>
+                          {fetchReport && !fetchReport.complete && (
+                              <p className="text-xs opacity-90 mt-1">전체 {fetchReport.totalCount.toLocaleString()}개 중 일부만 수집됨</p>
+                          )}
+                          {validation && validation.accepted < validation.received && (
+                              <p className="text-xs opacity-75 mt-1" title="원본 데이터 중 분석에 사용할 수 없는 행">
+                                  {(validation.received - validation.accepted).toLocaleString()}건 제외 (
+                                  {Object.entries(validation.dropped).map(([reason, count]) => `${DROP_REASON_LABELS[reason as DropReason]} ${count}`).join(", ")})
+                              </p>
+                          )}
                        </div>
                     </div>
                     {/* Map is shown only if we have coordinates or polygon */}
@@ -606,23 +1078,65 @@ const App: React.FC = () => {
                            lon={tradeZone.searchLon!} 
                            polygonCoords={tradeZone.parsedPolygon} 
                            tradeName={tradeZone.mainTrarNm} 
+                           radius={tradeZone.radius}
                            markers={storeStats.buildingData}
                            selectedMarkerIndex={selectedBuildingIndex}
-                           onMarkerClick={(index) => setSelectedBuildingIndex(prev => prev === index ? null : index)}
+                           onMarkerClick={(index) => handleSelectBuilding(storeStats.buildings[index].key)}
+                           pointLayers={mapPointLayers}
+                           rings={competitorRingSet}
+                           clusters={clusters}
+                           selectedClusterId={selectedCluster?.id ?? null}
+                           onClusterClick={handleSelectCluster}
                         />
                     </div>
                  </div>
 
+                 {/* Partial Data Warning */}
+                 {storeWarning && (
+                    <ErrorNotice
+                        error={storeWarning}
+                        retryLabel="누락 페이지 다시 받기"
+                        onRetry={loading ? undefined : () => handleAnalyzeZone(tradeZone, { resume: true })}
+                    />
+                 )}
+
+                 {/* Store Clusters */}
+                 {clusteringEnabled && allRawStores.length > 0 && (
+                     <ClusterPanel
+                         clusters={clusters}
+                         totalStores={allRawStores.length}
+                         selectedId={selectedCluster?.id ?? null}
+                         onSelect={handleSelectCluster}
+                     />
+                 )}
+
+                 {/* Competitor Finder */}
+                 {competitorSite && allRawStores.length > 0 && (
+                     <CompetitorPanel
+                         siteLabel={tradeZone.type === 'custom' ? `${tradeZone.mainTrarNm} 중심` : resolvedAddress || tradeZone.mainTrarNm}
+                         target={competitorTarget}
+                         onTargetChange={setCompetitorTarget}
+                         midOptions={competitorMidOptions}
+                         brandOptions={BRANDS.map(b => b.brand)}
+                         competitors={competitors}
+                         rings={competitorRings(competitors)}
+                         complete={competitorComplete}
+                         loading={competitorLoading}
+                         error={competitorError}
+                         onLoadSurroundings={handleLoadCompetitorSurroundings}
+                     />
+                 )}
+
                  {/* Seoul Sales Analysis Section */}
                  {seoulSales && currentSeoulData && (
                     <div className="bg-white rounded-xl shadow-sm border p-4 md:p-6 animate-fade-in">
                         <div className="flex flex-col md:flex-row justify-between items-center mb-6 border-b pb-4">
                             <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
                                 <span className="bg-indigo-100 p-1.5 rounded-lg"><Icons.Wallet className="w-5 h-5 text-indigo-600"/></span>
-                                {selectedSeoulIndustry ? `추정 매출 분석 - ${selectedSeoulIndustry}` : '추정 매출 분석 (서울시 행정동 데이터)'}
+                                {selectedSeoulIndustry ? `추정 매출 분석 - ${selectedSeoulIndustry}` : seoulSalesSources.length > 0 ? `추정 매출 분석 (행정동 ${seoulSalesSources.length}곳 가중 합산)` : '추정 매출 분석 (서울시 행정동 데이터)'}
                             </h3>
                             <div className="flex items-center gap-2 mt-3 md:mt-0">
-                                <span className="text-sm text-gray-500 font-medium mr-2">{seoulSales.stdrYearQuarter} 분기 기준</span>
+                                <span className="text-sm text-gray-500 font-medium mr-2">{formatQuarter(seoulSales.stdrYearQuarter)} 기준</span>
                                 <div className="bg-gray-100 p-1 rounded-lg flex">
                                     <button 
                                         onClick={() => setSalesViewMode('amount')}
@@ -640,6 +1154,17 @@ const App: React.FC = () => {
                             </div>
                         </div>
 
+                        {/* 상권이 걸친 행정동별 기여 비중 */}
+                        {seoulSalesSources.length > 0 && (
+                            <SalesDongShares
+                                sources={seoulSalesSources}
+                                weighting={salesWeighting}
+                                onWeightingChange={setSalesWeighting}
+                                quarter={seoulSales.stdrYearQuarter}
+                                mode={salesViewMode}
+                            />
+                        )}
+
                         {/* 0. Industry Distribution (Pie Chart) - Newly Added */}
                         {seoulSales.byIndustry && seoulSales.byIndustry.length > 0 && (
                             <div className="mb-8 p-4 bg-gray-50 rounded-xl border border-gray-200">
@@ -721,6 +1246,9 @@ const App: React.FC = () => {
                             </p>
                         </div>
 
+                        {/* Quarterly Trend */}
+                        <SeoulSalesTrend history={salesHistory} industry={selectedSeoulIndustry} mode={salesViewMode} />
+
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                             {/* 1. Weekday vs Weekend */}
                             <div className="bg-white border rounded-xl p-4">
@@ -888,63 +1416,53 @@ const App: React.FC = () => {
                     </div>
                  )}
 
-                 {/* Sbiz Stats Section (Only for Admin Zone) */}
-                 {tradeZone.type === 'admin' && sbizStats && (
-                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 animate-fade-in">
-                        {/* 1. Population */}
-                        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
-                             <div className="bg-blue-100 p-2 rounded-full mb-2"><Icons.Users className="w-5 h-5 text-blue-600"/></div>
-                             <h4 className="text-sm text-gray-500 font-medium">일 평균 유동인구</h4>
-                             <p className="text-xl md:text-2xl font-bold text-gray-800 mt-1">{sbizStats.population?.total || "-"}</p>
-                             <span className="text-xs text-gray-400 mt-1">{sbizStats.population?.date || ""} 기준</span>
-                        </div>
-                        {/* 2. Max Revenue */}
-                        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
-                             <div className="bg-yellow-100 p-2 rounded-full mb-2"><Icons.Wallet className="w-5 h-5 text-yellow-600"/></div>
-                             <h4 className="text-sm text-gray-500 font-medium">매출 1위 업종</h4>
-                             <p className="text-lg md:text-xl font-bold text-gray-800 mt-1 break-keep leading-tight px-1">{sbizStats.maxSales?.type || "-"}</p>
-                             <div className="text-xs text-gray-400 mt-1 flex flex-col items-center">
-                                 <span>월 평균 매출 {sbizStats.maxSales?.amount.toLocaleString()}만원 ({sbizStats.maxSales?.percent}%)</span>
-                                 <span className="text-[10px] text-gray-300 mt-0.5">{sbizStats.maxSales?.date} 기준</span>
-                             </div>
-                        </div>
-                        {/* 3. Delivery */}
-                        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
-                             <div className="bg-green-100 p-2 rounded-full mb-2"><Icons.Truck className="w-5 h-5 text-green-600"/></div>
-                             <h4 className="text-sm text-gray-500 font-medium">배달 피크 요일</h4>
-                             <p className="text-xl md:text-2xl font-bold text-gray-800 mt-1">{sbizStats.delivery?.day ? `${sbizStats.delivery.day}요일` : "-"}</p>
-                             <div className="text-xs text-gray-400 mt-1 flex flex-col items-center">
-                                 <span>월 평균 {sbizStats.delivery?.count}건 ({Number(sbizStats.delivery?.percent).toFixed(1)}%)</span>
-                                 <span className="text-[10px] text-gray-300 mt-0.5">{sbizStats.delivery?.date} 기준</span>
-                             </div>
-                        </div>
-                        {/* 4. Age Rank */}
-                        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
-                             <div className="bg-purple-100 p-2 rounded-full mb-2"><Icons.Star className="w-5 h-5 text-purple-600 fill-purple-600"/></div>
-                             <h4 className="text-sm text-gray-500 font-medium">주 방문 연령층(일 평균)</h4>
-                             <div className="mt-2 flex flex-col gap-1 w-full px-2">
-                                 {sbizStats.ageRank?.map((rank, i) => (
-                                     <div key={i} className="flex justify-between items-center text-xs">
-                                         <span className={`${i === 0 ? 'font-bold text-purple-600' : 'text-gray-600'}`}>
-                                            {i+1}위 {rank.age}
-                                         </span>
-                                         <span className="text-gray-400">{rank.count.toLocaleString()}명</span>
-                                     </div>
-                                 ))}
-                                 {(!sbizStats.ageRank || sbizStats.ageRank.length === 0) && <span className="text-xs text-gray-400">-</span>}
-                             </div>
-                        </div>
-                     </div>
+                 {/* Sbiz Stats Section (행정동 단위, 상권은 걸친 동별) */}
+                 {sbizDongs.length > 0 && (
+                     <SbizPanel key={tradeZone.trarNo} dongs={sbizDongs} onRetry={handleRetrySbiz} />
+                 )}
+
+                 {/* Store Churn (기준월 스냅샷 비교) */}
+                 {storeYm && (
+                     <ChurnPanel
+                         snapshots={snapshots}
+                         from={churnRange?.from || null}
+                         to={churnRange?.to || null}
+                         onRangeChange={handleChurnRangeChange}
+                         churn={storeChurn}
+                         onSave={fetchReport?.complete ? handleSaveSnapshot : undefined}
+                         savedCurrent={snapshots.some(s => s.stdrYm === storeYm && s.origin === 'saved')}
+                         layers={churnLayers}
+                         onLayersChange={setChurnLayers}
+                     />
+                 )}
+
+                 {/* Location Quotient (상위 시군구 대비, 시군구 분석은 자기 자신이 기준이므로 제외) */}
+                 {tradeZone.adminLevel !== 'signguCd' && allRawStores.length > 0 && (
+                     <LocationQuotientPanel
+                         zoneStores={allRawStores}
+                         district={lqDistrict}
+                         baseStores={lqBaseStores}
+                         loading={lqLoading}
+                         progress={lqProgress}
+                         error={lqError}
+                         onLoad={handleLoadLqBaseline}
+                         largeFilter={selectedLarge}
+                     />
+                 )}
+
+                 {/* Census (SGIS, Admin Zone) */}
+                 {tradeZone.type === 'admin' && censusStats && (
+                     <CensusPanel census={censusStats} storeCount={storeStats.totalStores} filterLabel={categoryFilterLabel} />
                  )}
 
                  {/* Summary Cards */}
-                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                 <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
                      <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border">
                          <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><Icons.Building className="text-indigo-500"/> 상가 밀집 건물 Top 5</h3>
                          <ul className="space-y-2">
                             {storeStats.buildingData.map((b,i) => (
                                <li key={i} 
-                                   onClick={() => setSelectedBuildingIndex(selectedBuildingIndex === i ? null : i)}
+                                   onClick={() => handleSelectBuilding(storeStats.buildings[i].key)}
                                    className={`flex justify-between items-center text-sm border-b pb-2 last:border-0 cursor-pointer p-2 rounded transition-colors ${selectedBuildingIndex === i ? 'bg-blue-50 border-blue-200' : 'hover:bg-gray-50 border-transparent'}`}>
                                   <span className="truncate w-2/3 flex items-center gap-2">
                                      <span className={`inline-flex items-center justify-center w-5 h-5 rounded-full text-[10px] flex-shrink-0 text-white flex-shrink-0 ${selectedBuildingIndex === i ? 'bg-blue-500' : 'bg-red-500'}`}>{i+1}</span>
@@ -955,21 +1473,16 @@ const App: React.FC = () => {
                             ))}
                          </ul>
                      </div>
-                     <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border">
-                         <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><Icons.Layers className="text-orange-500"/> 1층 점포 비율</h3>
-                         <div className="h-40 w-full relative static-chart">
-                            <ResponsiveContainer width="100%" height="100%">
-                                <PieChart>
-                                    <Pie data={storeStats.floorData} cx="50%" cy="50%" innerRadius={40} outerRadius={60} dataKey="value">
-                                        <Cell fill="#f97316"/> <Cell fill="#e2e8f0"/>
-                                    </Pie>
-                                </PieChart>
-                            </ResponsiveContainer>
-                            <div className="absolute inset-0 flex items-center justify-center pointer-events-none pb-4">
-                                <span className="text-xl font-bold text-gray-700">{storeStats.totalStores > 0 ? ((storeStats.floorData[0].value/storeStats.totalStores)*100).toFixed(0) : 0}%</span>
-                            </div>
-                         </div>
-                     </div>
+                     <FloorDistribution
+                         distribution={storeStats.floorData}
+                         stores={filteredStores}
+                         groupLevel={selectedSmall ? null : selectedMid ? 'small' : selectedLarge ? 'mid' : 'large'}
+                     />
+                     <DiversityCard
+                         diversity={storeStats.diversity}
+                         district={districtDiversity}
+                         others={diversityHistory.filter(h => h.key !== snapshotZoneKey(tradeZone))}
+                     />
                      <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border flex flex-col justify-center items-center text-center">
                          <div className="w-full flex items-center gap-2 mb-2 px-2">
                             <Icons.Store className="text-green-500 h-5 w-5 flex-shrink-0" />
@@ -982,6 +1495,24 @@ const App: React.FC = () => {
                      </div>
                  </div>
 
+                 {/* Buildings (전체 건물 목록 + 선택한 건물의 층별 입점 구성) */}
+                 <div className={`grid grid-cols-1 gap-6 ${selectedBuilding ? 'lg:grid-cols-2' : ''}`}>
+                     <BuildingTable
+                         buildings={storeStats.buildings}
+                         selectedKey={selectedBuilding?.key ?? null}
+                         onSelect={handleSelectBuilding}
+                         filterLabel={categoryFilterLabel}
+                     />
+                     {selectedBuilding && (
+                         <BuildingDetail
+                             key={selectedBuilding.key}
+                             building={selectedBuilding}
+                             stores={selectedBuildingStores}
+                             onClose={() => setSelectedBuildingKey(null)}
+                         />
+                     )}
+                 </div>
+
                  {/* AD Placement 1: Between Summary and Charts */}
                  <GoogleAd slot="4992341640" />
 
@@ -1000,8 +1531,8 @@ const App: React.FC = () => {
                                <ResponsiveContainer width="100%" height="100%">
                                   <PieChart>
                                      {/* @ts-ignore */}
-                                     <Pie data={storeStats.pieData} activeIndex={activePieIndex} activeShape={renderActiveShape} dataKey="value" cx="50%" cy="50%" outerRadius={80} onClick={(d) => { setSelectedLarge(d.name === selectedLarge ? null : d.name); setSelectedMid(null); }} label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}>
-                                        {storeStats.pieData.map((e,i) => <Cell key={i} fill={COLORS[i % COLORS.length]} fillOpacity={selectedLarge && selectedLarge !== e.name ? 0.3 : 1} />)}
+                                     <Pie data={storeStats.pieData} activeIndex={activePieIndex} activeShape={renderActiveShape} dataKey="value" cx="50%" cy="50%" outerRadius={80} onClick={(d) => handleSelectCategory('large', d.payload.code)} label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}>
+                                        {storeStats.pieData.map((e,i) => <Cell key={i} fill={COLORS[i % COLORS.length]} fillOpacity={selectedLarge && selectedLarge !== e.code ? 0.3 : 1} />)}
                                      </Pie>
                                      <Tooltip/>
                                   </PieChart>
@@ -1014,7 +1545,7 @@ const App: React.FC = () => {
                                      </thead>
                                      <tbody className="divide-y">
                                         {storeStats.pieData.map((d,i) => (
-                                           <tr key={i} className={`cursor-pointer hover:bg-gray-50 ${selectedLarge===d.name?'bg-blue-50':''}`} onClick={()=>{setSelectedLarge(d.name===selectedLarge?null:d.name); setSelectedMid(null);}}>
+                                           <tr key={d.code} className={`cursor-pointer hover:bg-gray-50 ${selectedLarge===d.code?'bg-blue-50':''}`} onClick={()=>handleSelectCategory('large', d.code)}>
                                               <td className="px-3 py-2">{d.name}</td>
                                               <td className="px-3 py-2 text-right font-medium">{d.value.toLocaleString()}</td>
                                               <td className="px-3 py-2 text-right text-gray-500">{((d.value / storeStats.totalStores) * 100).toFixed(1)}%</td>
@@ -1042,8 +1573,8 @@ const App: React.FC = () => {
                                       <XAxis type="number" hide/>
                                       <YAxis dataKey="name" type="category" width={100} tick={{fontSize:12}}/>
                                       <Tooltip/>
-                                      <Bar dataKey="count" fill="#82ca9d" radius={[0,4,4,0]} onClick={(d) => setSelectedMid(d.name === selectedMid ? null : d.name)}>
-                                         {storeStats.barData.map((e,i) => <Cell key={i} fill={COLORS[i % COLORS.length]} fillOpacity={selectedMid && selectedMid !== e.name ? 0.3 : 1}/>)}
+                                      <Bar dataKey="count" fill="#82ca9d" radius={[0,4,4,0]} onClick={(d) => handleSelectCategory('mid', d.payload.code)}>
+                                         {storeStats.barData.map((e,i) => <Cell key={i} fill={COLORS[i % COLORS.length]} fillOpacity={selectedMid && selectedMid !== e.code ? 0.3 : 1}/>)}
                                       </Bar>
                                    </BarChart>
                                 </ResponsiveContainer>
@@ -1055,7 +1586,7 @@ const App: React.FC = () => {
                                       </thead>
                                       <tbody className="divide-y">
                                          {storeStats.fullBarData.map((d,i) => (
-                                            <tr key={i} className={`cursor-pointer hover:bg-gray-50 ${selectedMid===d.name?'bg-green-50':''}`} onClick={()=>setSelectedMid(d.name===selectedMid?null:d.name)}>
+                                            <tr key={d.code} className={`cursor-pointer hover:bg-gray-50 ${selectedMid===d.code?'bg-green-50':''}`} onClick={()=>handleSelectCategory('mid', d.code)}>
                                                <td className="px-3 py-2 text-gray-400 text-xs">{i+1}</td>
                                                <td className="px-3 py-2">{d.name}</td>
                                                <td className="px-3 py-2 text-right font-medium">{d.count.toLocaleString()}</td>
@@ -1074,6 +1605,44 @@ const App: React.FC = () => {
                      </div>
                  </div>
 
+                 {/* Small Category Drill-down (중분류를 고르면 그 아래 소분류) */}
+                 {selectedMid && (
+                     <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border animate-fade-in">
+                         <div className="flex justify-between items-center mb-4 border-l-4 border-purple-500 pl-3">
+                            <h3 className="text-lg font-bold text-gray-800">
+                                세부 업종 (소분류) <span className="text-sm font-medium text-gray-500">· {categoryNames[selectedMid] || selectedMid}</span>
+                            </h3>
+                            {selectedSmall && (
+                                <button onClick={() => handleSelectCategory('small', selectedSmall)} className="text-xs bg-white border border-gray-300 px-2 py-1 rounded text-gray-600 hover:text-purple-600 hover:border-purple-300 transition">
+                                    소분류 선택 해제
+                                </button>
+                            )}
+                         </div>
+                         <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                            <table className="w-full text-sm text-left">
+                               <thead className="bg-gray-50 text-gray-600 sticky top-0 font-medium">
+                                   <tr><th className="px-3 py-2">순위</th><th className="px-3 py-2">소분류명</th><th className="px-3 py-2">코드</th><th className="px-3 py-2 text-right">점포수</th><th className="px-3 py-2 text-right">그래프</th></tr>
+                               </thead>
+                               <tbody className="divide-y">
+                                  {storeStats.smallData.map((d,i) => (
+                                     <tr key={d.code} className={`cursor-pointer hover:bg-gray-50 ${selectedSmall===d.code?'bg-purple-50':''}`} onClick={()=>handleSelectCategory('small', d.code)}>
+                                        <td className="px-3 py-2 text-gray-400 text-xs">{i+1}</td>
+                                        <td className="px-3 py-2">{d.name}</td>
+                                        <td className="px-3 py-2 text-xs text-gray-400">{d.code}</td>
+                                        <td className="px-3 py-2 text-right font-medium">{d.value.toLocaleString()}</td>
+                                        <td className="px-3 py-2 text-right">
+                                             <div className="h-2 bg-gray-100 rounded-full w-20 ml-auto overflow-hidden">
+                                                 <div className="h-full rounded-full bg-purple-500" style={{width: `${(d.value / storeStats.smallData[0].value) * 100}%`}}></div>
+                                             </div>
+                                        </td>
+                                     </tr>
+                                  ))}
+                               </tbody>
+                            </table>
+                         </div>
+                     </div>
+                 )}
+
                  {/* AD Placement 2: Between Charts and Detailed Table */}
                  <GoogleAd slot="1816170509" />
 
@@ -1082,19 +1651,23 @@ const App: React.FC = () => {
                     <div className="p-4 md:p-6 border-b bg-gray-50 flex items-center justify-between">
                         <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                             <Icons.TrendingUp className="text-blue-600"/> 
-                            {detailedAnalysisFilter ? (
+                            {detailedAnalysisPath.length > 0 ? (
                                 <span className="flex items-center gap-2">
-                                    <span className="text-gray-500">{detailedAnalysisFilter}</span>
-                                    <Icons.ArrowRight className="w-4 h-4 text-gray-400"/>
+                                    {detailedAnalysisPath.map(code => (
+                                        <React.Fragment key={code}>
+                                            <span className="text-gray-500">{categoryNames[code] || code}</span>
+                                            <Icons.ArrowRight className="w-4 h-4 text-gray-400"/>
+                                        </React.Fragment>
+                                    ))}
                                     <span>세부 업종 분석</span>
                                 </span>
                             ) : (
                                 "업종별 종합 분석 (구성비 · 프랜차이즈 · 1층 비율)"
                             )}
                         </h3>
-                        {detailedAnalysisFilter ? (
-                             <button onClick={() => setDetailedAnalysisFilter(null)} className="text-sm bg-white border border-gray-300 px-3 py-1.5 rounded hover:bg-gray-50 flex items-center gap-1 transition text-gray-700 font-medium">
-                                <Icons.ArrowRight className="w-4 h-4 rotate-180" /> 대분류로 돌아가기
+                        {detailedAnalysisPath.length > 0 ? (
+                             <button onClick={() => setDetailedAnalysisPath(path => path.slice(0, -1))} className="text-sm bg-white border border-gray-300 px-3 py-1.5 rounded hover:bg-gray-50 flex items-center gap-1 transition text-gray-700 font-medium">
+                                <Icons.ArrowRight className="w-4 h-4 rotate-180" /> {CATEGORY_LEVEL_LABELS[CATEGORY_LEVELS[detailedAnalysisPath.length - 1]]}로 돌아가기
                              </button>
                         ) : (
                             <span className="text-xs text-gray-500">* 전체 상권 데이터 기준</span>
@@ -1104,28 +1677,28 @@ const App: React.FC = () => {
                         <table className="w-full text-sm text-left whitespace-nowrap">
                             <thead className="bg-gray-100 text-gray-700 font-semibold">
                                 <tr>
-                                    <th className="px-3 py-2 md:px-6 md:py-3">업종 ({detailedAnalysisFilter ? '중분류' : '대분류'})</th>
-                                    <th className="px-3 py-2 md:px-6 md:py-3 text-right">점포수 ({detailedAnalysisFilter ? '그룹 내 비중' : '구성비'})</th>
-                                    {!detailedAnalysisFilter && <th className="px-3 py-2 md:px-6 md:py-3">대표 세부업종</th>}
+                                    <th className="px-3 py-2 md:px-6 md:py-3">업종 ({CATEGORY_LEVEL_LABELS[detailedAnalysisLevel]})</th>
+                                    <th className="px-3 py-2 md:px-6 md:py-3 text-right">점포수 ({detailedAnalysisPath.length > 0 ? '그룹 내 비중' : '구성비'})</th>
+                                    {detailedAnalysisLevel !== 'small' && <th className="px-3 py-2 md:px-6 md:py-3">대표 세부업종</th>}
                                     <th className="px-3 py-2 md:px-6 md:py-3 text-center">프랜차이즈 비율</th>
                                     <th className="px-3 py-2 md:px-6 md:py-3 text-center">1층 점포 비율</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y">
-                                {summaryTableDisplayData.map((item, idx) => (
-                                    <tr key={idx} 
-                                        className={`hover:bg-gray-50 transition-colors ${!detailedAnalysisFilter ? 'cursor-pointer group' : ''}`}
-                                        onClick={() => !detailedAnalysisFilter && setDetailedAnalysisFilter(item.name)}
+                                {summaryTableDisplayData.map(item => (
+                                    <tr key={item.code} 
+                                        className={`hover:bg-gray-50 transition-colors ${detailedAnalysisLevel !== 'small' ? 'cursor-pointer group' : ''}`}
+                                        onClick={() => detailedAnalysisLevel !== 'small' && setDetailedAnalysisPath(path => [...path, item.code])}
                                     >
                                         <td className="px-3 py-2 md:px-6 md:py-3 font-medium text-gray-900 flex items-center gap-2">
                                             {item.name}
-                                            {!detailedAnalysisFilter && <Icons.Search className="w-3 h-3 text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity" />}
+                                            {detailedAnalysisLevel !== 'small' && <Icons.Search className="w-3 h-3 text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity" />}
                                         </td>
                                         <td className="px-3 py-2 md:px-6 md:py-3 text-right">
                                             <div className="font-bold">{item.count.toLocaleString()}개</div>
                                             <div className="text-xs text-gray-500">({item.ratio.toFixed(1)}%)</div>
                                         </td>
-                                        {!detailedAnalysisFilter && <td className="px-3 py-2 md:px-6 md:py-3 text-gray-600">{item.topMid}</td>}
+                                        {detailedAnalysisLevel !== 'small' && <td className="px-3 py-2 md:px-6 md:py-3 text-gray-600">{item.topChild}</td>}
                                         <td className="px-3 py-2 md:px-6 md:py-3">
                                             <div className="flex items-center justify-center gap-2">
                                                 <span className="w-12 text-right font-medium text-green-600">{item.franchiseRatio.toFixed(1)}%</span>
@@ -1149,6 +1722,18 @@ const App: React.FC = () => {
                     </div>
                  </div>
 
+                 {/* Dong Breakdown (District Mode) */}
+                 {tradeZone.adminLevel === 'signguCd' && (
+                    <DistrictDongTable
+                        dongData={storeStats.dongData}
+                        subAreas={tradeZone.subAreas}
+                        filterLabel={categoryFilterLabel}
+                    />
+                 )}
+
+                 {/* Brand Counts */}
+                 <BrandTable brands={storeStats.brandData} totalStores={storeStats.totalStores} filterLabel={categoryFilterLabel} />
+
                  {/* Store List */}
                  <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
                     <div className="p-4 md:p-6 border-b bg-gray-50"><h3 className="text-lg font-bold text-gray-800">📌 주요 프랜차이즈 및 유명 브랜드 (가나다순)</h3></div>
@@ -1160,12 +1745,14 @@ const App: React.FC = () => {
                                 <th className="px-2 py-2 md:px-6 md:py-3 min-w-[200px]">상호명</th>
                                 <th className="px-2 py-2 md:px-6 md:py-3 whitespace-nowrap min-w-[60px]">대분류</th>
                                 <th className="px-2 py-2 md:px-6 md:py-3 whitespace-nowrap min-w-[80px]">중분류</th>
+                                <th className="px-2 py-2 md:px-6 md:py-3 whitespace-nowrap min-w-[80px]">소분류</th>
                                 <th className="px-2 py-2 md:px-6 md:py-3 min-w-[150px]">주소</th>
                              </tr>
                           </thead>
                           <tbody className="divide-y">
                              {topStores.map((s,i) => {
-                                const isMajorStore = MAJOR_BRANDS.some(brand => s.bizesNm.includes(brand));
+                                const brand = matchBrand(s);
+                                const isMajorStore = !!brand && brand.confidence >= BRAND_MATCH_THRESHOLD;
                                 return (
                                     <tr key={i} className={`hover:bg-gray-50 ${isMajorStore ? 'bg-yellow-50' : ''}`}>
                                        <td className="px-2 py-2 md:px-6 md:py-3 font-bold text-gray-500">{i + 1}</td>
@@ -1173,19 +1760,21 @@ const App: React.FC = () => {
                                           <div className="flex items-center gap-2">
                                               {isMajorStore && <Icons.Star className="w-4 h-4 text-yellow-500 fill-yellow-500 flex-shrink-0" title="파워 브랜드" />}
                                               <span>{s.bizesNm}</span>
+                                              {isMajorStore && brand.entry.brand !== s.bizesNm && <span className="text-xs text-gray-400">{brand.entry.brand}</span>}
                                           </div>
                                           <div className="mt-1 flex gap-1">
                                               {s.brchNm && <span className="text-xs text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded">지점: {s.brchNm}</span>}
-                                              {["1","1층","지상1층"].includes(s.flrNo) && <span className="text-xs text-orange-600 bg-orange-100 px-1.5 py-0.5 rounded font-medium">1F</span>}
+                                              {s.floor !== null && <span className={`text-xs px-1.5 py-0.5 rounded font-medium ${s.floor === 1 ? 'text-orange-600 bg-orange-100' : 'text-gray-600 bg-gray-100'}`}>{floorLabel(s)}</span>}
                                           </div>
                                        </td>
                                        <td className="px-2 py-2 md:px-6 md:py-3"><span className="bg-gray-100 text-gray-800 px-2 py-1 rounded text-xs">{s.indsLclsNm}</span></td>
                                        <td className="px-2 py-2 md:px-6 md:py-3">{s.indsMclsNm}</td>
+                                       <td className="px-2 py-2 md:px-6 md:py-3" title={s.ksicCd ? `표준산업분류 ${s.ksicCd} ${s.ksicNm}` : undefined}>{s.indsSclsNm}</td>
                                        <td className="px-2 py-2 md:px-6 md:py-3 text-gray-500 truncate max-w-xs" title={s.rdnmAdr}>{s.rdnmAdr}</td>
                                     </tr>
                                 );
                              })}
-                             {topStores.length === 0 && <tr><td colSpan={5} className="px-6 py-8 text-center text-gray-400">프랜차이즈 데이터 없음</td></tr>}
+                             {topStores.length === 0 && <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-400">프랜차이즈 데이터 없음</td></tr>}
                           </tbody>
                        </table>
                     </div>
@@ -1202,6 +1791,11 @@ const App: React.FC = () => {
              <div className="bg-white p-6 rounded-xl shadow-xl flex items-center gap-4">
                  <div className="loading-spinner" />
                  <span className="text-gray-800 font-medium">{loadingMsg}</span>
+                 {canCancel && (
+                     <button onClick={() => analysisAbortRef.current?.abort()} className="ml-2 text-sm border border-gray-300 text-gray-600 px-3 py-1 rounded-lg hover:bg-gray-50 hover:text-red-600 transition">
+                         취소
+                     </button>
+                 )}
              </div>
           </div>
       )}
@@ -0,0 +1,215 @@
+/**
+ * 서버리스 API 프록시 공용 로직
+ * 모든 API 키는 서버 환경 변수에서만 읽고, 업스트림으로 보내기 직전에 주입합니다.
+ * 브라우저는 /api/* 경로를 인증 정보 없이 호출합니다.
+ *
+ * Vercel 함수(api/*)와 Vite 개발 서버(vite.config.ts) 양쪽에서 같은 핸들러를 사용합니다.
+ */
+
+export type ApiHandler = (request: Request) => Promise<Response>;
+
+// Upstream Endpoints
+const DATA_API_BASE_URL = "https://apis.data.go.kr/B553077/api/open/sdsc2";
+const SGIS_BASE_URL = "https://sgisapi.mods.go.kr/OpenAPI3";
+const SEOUL_BASE_URL = "http://openapi.seoul.go.kr:8088";
+const SBIZ_BASE_URL = "https://bigdata.sbiz.or.kr/sbiz/api/bizonSttus";
+const VWORLD_BASE_URL = "https://api.vworld.kr/req";
+
+// 클라이언트가 보낸 인증 파라미터는 무시하고 서버 값으로 덮어씁니다.
+const CREDENTIAL_PARAMS = ["serviceKey", "key", "accessToken", "consumer_key", "consumer_secret"];
+
+/**
+ * 서버 환경 변수 로드 헬퍼
+ * 기존 VITE_ 접두사 변수도 읽어 배포 환경 이전을 쉽게 합니다.
+ * (VITE_ 변수는 클라이언트 코드에서 참조하지 않으므로 번들에 포함되지 않습니다.)
+ */
+const readEnv = (key: string): string => {
+    return process.env[key] || process.env[`VITE_${key}`] || "";
+};
+
+/**
+ * 프록시 자체 오류 응답
+ * 클라이언트(services/errors.ts)는 error 값과 code(업스트림 오류 코드)로 오류 종류를 판별합니다.
+ */
+const jsonError = (status: number, error: string, message: string, code?: string | number) => {
+    return new Response(JSON.stringify({ error, message, code }), {
+        status,
+        headers: { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" }
+    });
+};
+
+const missingKey = (name: string) => jsonError(500, "missing_key", `서버에 ${name} API 키가 설정되지 않았습니다.`);
+
+/**
+ * /api/{prefix}/... 요청에서 업스트림 경로와 쿼리 파라미터를 분리
+ */
+const splitRequest = (request: Request, prefix: string) => {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(new RegExp(`^/api/${prefix}`), "") || "/";
+    const params = new URLSearchParams(url.search);
+    CREDENTIAL_PARAMS.forEach(p => params.delete(p));
+    return { path, params };
+};
+
+const withQuery = (base: string, params: URLSearchParams, extra = "") => {
+    const query = [params.toString(), extra].filter(Boolean).join("&");
+    return query ? `${base}?${query}` : base;
+};
+
+/**
+ * 업스트림 응답을 그대로 전달 (본문 인코딩은 fetch가 이미 해제하므로 Content-Type만 복사)
+ */
+const relay = (status: number, contentType: string | null, body: BodyInit | null) => {
+    const headers = new Headers({ "Cache-Control": "no-store" });
+    if (contentType) headers.set("Content-Type", contentType);
+    return new Response(body, { status, headers });
+};
+
+const forward = async (target: string, init?: RequestInit): Promise<Response> => {
+    try {
+        const upstream = await fetch(target, init);
+        return relay(upstream.status, upstream.headers.get("content-type"), upstream.body);
+    } catch (e: any) {
+        return jsonError(502, "upstream_unreachable", `업스트림 서버에 연결할 수 없습니다: ${e.message}`);
+    }
+};
+
+// --- 공공데이터포털 (소상공인 상가정보) ---
+
+/**
+ * 포털에서 발급한 키가 이미 인코딩된 형태(Encoding 키)일 수 있어 중복 인코딩을 피합니다.
+ */
+const getFormattedKey = (key: string) => {
+    return key.includes('%') ? key : encodeURIComponent(key);
+};
+
+export const handlePublic: ApiHandler = async (request) => {
+    const apiKey = readEnv("DATA_API_KEY");
+    if (!apiKey) return missingKey("공공데이터");
+
+    const { path, params } = splitRequest(request, "public");
+    return forward(withQuery(`${DATA_API_BASE_URL}${path}`, params, `serviceKey=${getFormattedKey(apiKey)}`));
+};
+
+// --- SGIS (통계지리정보서비스) ---
+
+// 토큰 발급 실패 (잘못된 서비스 ID/보안키 등)
+class SgisAuthError extends Error {
+    code?: string | number;
+    constructor(message: string, code?: string | number) {
+        super(message);
+        this.code = code;
+    }
+}
+
+let sgisAccessToken: string | null = null;
+let tokenExpiry: number = 0;
+
+const getSgisToken = async (forceRefresh = false): Promise<string | null> => {
+    if (!forceRefresh && sgisAccessToken && Date.now() < tokenExpiry - 300000) {
+        return sgisAccessToken;
+    }
+
+    const consumerKey = readEnv("SGIS_SERVICE_ID");
+    const consumerSecret = readEnv("SGIS_SECRET_KEY");
+    if (!consumerKey || !consumerSecret) return null;
+
+    const url = `${SGIS_BASE_URL}/auth/authentication.json?consumer_key=${encodeURIComponent(consumerKey)}&consumer_secret=${encodeURIComponent(consumerSecret)}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`SGIS 인증 서버 오류: HTTP status ${response.status}`);
+
+    const data = await response.json();
+    if (data.errCd === 0 && data.result) {
+        sgisAccessToken = data.result.accessToken as string;
+        const timeoutMs = parseInt(data.result.accessTimeout, 10) || 14400000;
+        tokenExpiry = Date.now() + timeoutMs;
+        return sgisAccessToken;
+    }
+    throw new SgisAuthError(`SGIS 인증 실패: ${data.errMsg}`, data.errCd);
+};
+
+// SGIS는 만료된 토큰에 대해 HTTP 200 + errCd -401을 반환합니다.
+const SGIS_TOKEN_EXPIRED = -401;
+
+export const handleSgis: ApiHandler = async (request) => {
+    const { path, params } = splitRequest(request, "sgis");
+    // 토큰 발급 엔드포인트는 외부에 노출하지 않습니다.
+    if (path.startsWith("/auth/")) return jsonError(404, "not_found", "지원하지 않는 경로입니다.");
+
+    const requestWithToken = async (forceRefresh: boolean) => {
+        const token = await getSgisToken(forceRefresh);
+        if (!token) return null;
+        const target = withQuery(`${SGIS_BASE_URL}${path}`, params, `accessToken=${encodeURIComponent(token)}`);
+        const upstream = await fetch(target);
+        return { upstream, text: await upstream.text() };
+    };
+
+    try {
+        let result = await requestWithToken(false);
+        if (!result) return missingKey("SGIS");
+
+        if (result.upstream.ok) {
+            try {
+                if (JSON.parse(result.text).errCd === SGIS_TOKEN_EXPIRED) {
+                    result = (await requestWithToken(true))!;
+                }
+            } catch (e) {
+                // JSON이 아닌 응답은 그대로 전달
+            }
+        }
+        return relay(result.upstream.status, result.upstream.headers.get("content-type"), result.text);
+    } catch (e: any) {
+        if (e instanceof SgisAuthError) return jsonError(401, "auth_failed", e.message, e.code);
+        return jsonError(502, "upstream_unreachable", e.message);
+    }
+};
+
+// --- 서울 열린데이터 광장 ---
+
+export const handleSeoul: ApiHandler = async (request) => {
+    const apiKey = readEnv("SEOUL_API_KEY");
+    if (!apiKey) return missingKey("서울 열린데이터");
+
+    // 서울시 Open API는 키를 경로 첫 구간에 둡니다: /{KEY}/json/{SERVICE}/{START}/{END}
+    const { path, params } = splitRequest(request, "seoul");
+    return forward(withQuery(`${SEOUL_BASE_URL}/${encodeURIComponent(apiKey)}${path}`, params));
+};
+
+// --- 소상공인 상권정보 (bizonSttus) ---
+
+export const handleSbiz: ApiHandler = async (request) => {
+    const { path, params } = splitRequest(request, "sbiz");
+    // Referer가 없으면 업스트림이 요청을 거부합니다.
+    return forward(withQuery(`${SBIZ_BASE_URL}${path}`, params), {
+        headers: { "Referer": "https://sg.sbiz.or.kr/" }
+    });
+};
+
+// --- V-World (주소 검색 / 역지오코딩) ---
+
+export const handleVworld: ApiHandler = async (request) => {
+    const apiKey = readEnv("VWORLD_KEY");
+    if (!apiKey) return missingKey("V-World");
+
+    const { path, params } = splitRequest(request, "vworld");
+    // V-World 키는 등록 도메인에 묶여 있어 서버 호출 시 domain 파라미터가 필요합니다.
+    const domain = readEnv("VWORLD_DOMAIN");
+    if (domain) params.set("domain", domain);
+    return forward(withQuery(`${VWORLD_BASE_URL}${path}`, params, `key=${encodeURIComponent(apiKey)}`));
+};
+
+const API_ROUTES: Array<[string, ApiHandler]> = [
+    ["/api/public/", handlePublic],
+    ["/api/sgis/", handleSgis],
+    ["/api/seoul/", handleSeoul],
+    ["/api/sbiz/", handleSbiz],
+    ["/api/vworld/", handleVworld]
+];
+
+/**
+ * 요청 경로에 해당하는 핸들러 조회 (Vite 개발 서버 미들웨어용)
+ */
+export const findApiHandler = (pathname: string): ApiHandler | null => {
+    const route = API_ROUTES.find(([prefix]) => pathname.startsWith(prefix));
+    return route ? route[1] : null;
+};
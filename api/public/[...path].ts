@@ -0,0 +1,4 @@
+import { handlePublic } from '../_lib/proxy';
+
+// /api/public/* → 공공데이터포털 (서버에서 인증 정보 주입)
+export const GET = handlePublic;
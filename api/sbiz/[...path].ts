@@ -0,0 +1,4 @@
+import { handleSbiz } from '../_lib/proxy';
+
+// /api/sbiz/* → 소상공인 상권정보 (서버에서 인증 정보 주입)
+export const GET = handleSbiz;
@@ -0,0 +1,4 @@
+import { handleSeoul } from '../_lib/proxy';
+
+// /api/seoul/* → 서울 열린데이터 광장 (서버에서 인증 정보 주입)
+export const GET = handleSeoul;
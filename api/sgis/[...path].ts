@@ -0,0 +1,4 @@
+import { handleSgis } from '../_lib/proxy';
+
+// /api/sgis/* → SGIS (서버에서 인증 정보 주입)
+export const GET = handleSgis;
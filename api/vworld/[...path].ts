@@ -0,0 +1,4 @@
+import { handleVworld } from '../_lib/proxy';
+
+// /api/vworld/* → V-World (서버에서 인증 정보 주입)
+export const GET = handleVworld;
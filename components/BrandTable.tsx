@@ -0,0 +1,62 @@
+import React from 'react';
+import * as Icons from './Icons';
+import { BrandSummary } from '../types';
+
+interface BrandTableProps {
+  brands: BrandSummary[];
+  totalStores: number;
+  filterLabel?: string | null;    // 업종 필터가 걸려 있으면 표시
+}
+
+/**
+ * 브랜드 사전으로 찾은 브랜드별 점포 수
+ */
+const BrandTable: React.FC<BrandTableProps> = ({ brands, totalStores, filterLabel }) => {
+  const brandStores = brands.reduce((sum, b) => sum + b.count, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+      <div className="p-4 md:p-6 border-b bg-gray-50 flex flex-col md:flex-row justify-between md:items-center gap-1">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <Icons.Star className="w-5 h-5 text-yellow-500 fill-yellow-500" />
+          브랜드별 점포 수
+        </h3>
+        <span className="text-xs text-gray-500">
+          {filterLabel ? `${filterLabel} ` : ''}점포 {totalStores.toLocaleString()}개 중 브랜드 {brandStores.toLocaleString()}개 ({brands.length}개 브랜드)
+        </span>
+      </div>
+      {brands.length === 0 ? (
+        <p className="text-sm text-gray-400 py-8 text-center">브랜드 사전과 일치하는 점포가 없습니다.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 custom-scrollbar">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead className="bg-gray-100 text-gray-700 sticky top-0">
+              <tr>
+                <th className="text-left px-4 py-2 font-semibold">브랜드</th>
+                <th className="text-left px-4 py-2 font-semibold">운영사</th>
+                <th className="text-left px-4 py-2 font-semibold">업종</th>
+                <th className="text-right px-4 py-2 font-semibold">점포 수</th>
+                <th className="text-right px-4 py-2 font-semibold">1층</th>
+                <th className="text-right px-4 py-2 font-semibold" title="상호와 브랜드 별칭의 일치 신뢰도 평균">일치 신뢰도</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {brands.map(b => (
+                <tr key={b.brand} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 font-medium text-gray-900">{b.brand}</td>
+                  <td className="px-4 py-2 text-gray-500">{b.parent || '-'}</td>
+                  <td className="px-4 py-2"><span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded text-xs">{b.category}</span></td>
+                  <td className="px-4 py-2 text-right font-bold text-gray-800">{b.count.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{b.firstFloorCount.toLocaleString()}</td>
+                  <td className={`px-4 py-2 text-right ${b.avgConfidence >= 0.85 ? 'text-green-600' : 'text-amber-600'}`}>{(b.avgConfidence * 100).toFixed(0)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandTable;
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import * as Icons from './Icons';
+import { BuildingSummary, Store } from '../types';
+import { floorStack } from '../services/buildings';
+import { floorLabel } from '../services/floors';
+import { isFranchise } from '../services/brands';
+
+interface BuildingDetailProps {
+  building: BuildingSummary;
+  stores: Store[];          // 이 건물의 전체 점포 (업종 필터와 무관)
+  onClose: () => void;
+}
+
+/**
+ * 건물 상세 - 층별 입점 구성(위층이 위)과 입점 점포 목록
+ */
+const BuildingDetail: React.FC<BuildingDetailProps> = ({ building, stores, onClose }) => {
+  const stack = useMemo(() => floorStack(stores), [stores]);
+  const sortedStores = useMemo(
+    () => [...stores].sort((a, b) => (b.floor ?? -99) - (a.floor ?? -99) || a.bizesNm.localeCompare(b.bizesNm)),
+    [stores]
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border overflow-hidden animate-fade-in">
+      <div className="p-4 md:p-6 border-b bg-indigo-50 flex justify-between items-start gap-2">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Icons.Building className="w-5 h-5 text-indigo-500" />
+            {building.name}
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">{building.address}</p>
+          <p className="text-xs text-gray-600 mt-1">
+            점포 {stores.length}개 · 프랜차이즈 {stores.filter(isFranchise).length}개 · {stack.filter(r => r.floor !== null).length}개 층 입점
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-lg leading-none p-1" title="닫기">✕</button>
+      </div>
+
+      <div className="p-4 md:p-6 space-y-1.5 border-b">
+        {stack.map(row => (
+          <div key={row.label} className="flex items-stretch gap-2 text-xs">
+            <span className={`w-14 flex-shrink-0 flex items-center justify-center rounded font-bold ${row.floor === 1 ? 'bg-orange-100 text-orange-700' : row.floor !== null && row.floor < 0 ? 'bg-slate-200 text-slate-700' : row.floor === null ? 'bg-gray-50 text-gray-400' : 'bg-indigo-100 text-indigo-700'}`}>
+              {row.label}
+            </span>
+            <div className="flex-1 flex flex-wrap gap-1 border rounded p-1.5 min-h-[32px]">
+              {row.stores.map(s => (
+                <span
+                  key={s.bizesId}
+                  title={`${s.indsMclsNm}${s.flrNo ? ` · ${s.flrNo}` : ''}`}
+                  className={`px-1.5 py-0.5 rounded ${isFranchise(s) ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  {s.bizesNm}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-72 custom-scrollbar">
+        <table className="w-full text-xs whitespace-nowrap">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-gray-400 border-b">
+              <th className="text-left px-4 py-2 font-medium">층</th>
+              <th className="text-left px-4 py-2 font-medium">상호</th>
+              <th className="text-left px-4 py-2 font-medium">업종</th>
+              <th className="text-center px-4 py-2 font-medium">프랜차이즈</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {sortedStores.map(s => (
+              <tr key={s.bizesId}>
+                <td className="px-4 py-2 text-gray-500">{floorLabel(s) || '-'}</td>
+                <td className="px-4 py-2 font-medium text-gray-800">{s.bizesNm}{s.brchNm && <span className="text-gray-500 font-normal"> {s.brchNm}</span>}</td>
+                <td className="px-4 py-2 text-gray-500">{s.indsLclsNm} &gt; {s.indsMclsNm}</td>
+                <td className="px-4 py-2 text-center">{isFranchise(s) ? <span className="text-red-600 font-bold">●</span> : <span className="text-gray-300">-</span>}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BuildingDetail;
@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as Icons from './Icons';
+import { BuildingSummary } from '../types';
+
+interface BuildingTableProps {
+  buildings: BuildingSummary[];
+  selectedKey: string | null;
+  onSelect: (key: string | null) => void;
+  filterLabel?: string | null;    // 업종 필터가 걸려 있으면 표시
+}
+
+type SortKey = 'count' | 'franchiseCount' | 'floorCount';
+
+const SORT_LABELS: Record<SortKey, string> = { count: "점포 수", franchiseCount: "프랜차이즈", floorCount: "입점 층 수" };
+
+// 시군구 단위면 건물이 수천 개라 한 번에 그리는 행 수를 제한 ("더 보기"로 추가)
+const PAGE_SIZE = 200;
+
+/**
+ * 구역 내 전체 건물 목록 - 행을 누르면 건물 상세(층별 입점 구성)를 엶
+ */
+const BuildingTable: React.FC<BuildingTableProps> = ({ buildings, selectedKey, onSelect, filterLabel }) => {
+  const [query, setQuery] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>('count');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const rows = useMemo(() => {
+    const q = query.trim();
+    const matched = q ? buildings.filter(b => b.name.includes(q) || b.address.includes(q)) : buildings;
+    return [...matched].sort((a, b) => b[sortKey] - a[sortKey] || b.count - a.count);
+  }, [buildings, query, sortKey]);
+
+  useEffect(() => setVisibleCount(PAGE_SIZE), [buildings, query, sortKey]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+      <div className="p-4 md:p-6 border-b bg-gray-50 flex flex-col md:flex-row justify-between md:items-center gap-2">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <Icons.Building className="w-5 h-5 text-indigo-500" />
+          건물별 입점 현황 ({buildings.length.toLocaleString()}개 건물)
+        </h3>
+        <div className="flex items-center gap-2">
+          {filterLabel && <span className="text-xs text-gray-500">{filterLabel} 기준</span>}
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="건물명/주소 검색"
+            className="text-xs border rounded-md px-2 py-1.5 w-36"
+          />
+        </div>
+      </div>
+      {buildings.length === 0 ? (
+        <p className="text-sm text-gray-400 py-8 text-center">건물명이 등록된 점포가 없습니다.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 custom-scrollbar">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead className="bg-gray-100 text-gray-700 sticky top-0">
+              <tr>
+                <th className="text-left px-4 py-2 font-semibold">건물</th>
+                <th className="text-left px-4 py-2 font-semibold">업종 구성</th>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+                  <th key={key} className="text-right px-4 py-2 font-semibold">
+                    <button onClick={() => setSortKey(key)} className={sortKey === key ? 'text-indigo-600' : 'hover:text-indigo-600'}>
+                      {SORT_LABELS[key]}{sortKey === key ? ' ▼' : ''}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.slice(0, visibleCount).map(b => (
+                <tr
+                  key={b.key}
+                  onClick={() => onSelect(b.key === selectedKey ? null : b.key)}
+                  className={`cursor-pointer ${b.key === selectedKey ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="px-4 py-2">
+                    <p className="font-medium text-gray-900">{b.name}</p>
+                    <p className="text-xs text-gray-400 truncate max-w-[220px]">{b.address}</p>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-600">
+                    {b.categoryMix.slice(0, 3).map(c => `${c.name} ${c.count}`).join(' · ')}
+                    {b.categoryMix.length > 3 && <span className="text-gray-400"> 외 {b.categoryMix.length - 3}</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right font-bold text-gray-800">{b.count}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{b.franchiseCount}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{b.floorCount || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+              className="w-full py-2 text-xs font-bold text-indigo-600 hover:bg-indigo-50 border-t transition"
+            >
+              더 보기 ({visibleCount.toLocaleString()} / {rows.length.toLocaleString()})
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BuildingTable;
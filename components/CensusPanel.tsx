@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
+import * as Icons from './Icons';
+import { CensusStats } from '../types';
+import { censusRatios } from '../services/census';
+
+interface CensusPanelProps {
+  census: CensusStats;
+  storeCount: number;             // 파생 지표에 쓰는 점포 수
+  filterLabel?: string | null;    // 업종 필터가 걸려 있으면 표시
+}
+
+/**
+ * SGIS 상주 인구·가구·사업체 통계와 점포 밀도 지표
+ */
+const CensusPanel: React.FC<CensusPanelProps> = ({ census, storeCount, filterLabel }) => {
+  const ratios = useMemo(() => censusRatios(census, storeCount), [census, storeCount]);
+  const headline = [
+    { label: "상주 인구", value: `${census.population.toLocaleString()}명`, sub: census.avgAge ? `평균 ${census.avgAge.toFixed(1)}세` : "" },
+    { label: "가구", value: `${census.households.toLocaleString()}가구`, sub: census.avgHouseholdSize ? `가구당 ${census.avgHouseholdSize.toFixed(2)}명` : "" },
+    { label: "사업체", value: `${census.companies.toLocaleString()}개`, sub: census.companyYear ? `${census.companyYear}년 기준` : "자료 없음" },
+    { label: "종사자", value: `${census.employees.toLocaleString()}명`, sub: census.companyYear ? `${census.companyYear}년 기준` : "자료 없음" }
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-4 md:p-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-1 mb-4">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <span className="bg-sky-100 p-1.5 rounded-lg"><Icons.Users className="w-5 h-5 text-sky-600"/></span>
+          상주 인구 · 가구 · 사업체
+        </h3>
+        <span className="text-xs text-gray-500">* 통계청 SGIS {census.year}년 기준</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {headline.map(item => (
+          <div key={item.label} className="bg-sky-50 rounded-lg p-3 text-center">
+            <p className="text-xs text-gray-500">{item.label}</p>
+            <p className="text-lg md:text-xl font-bold text-gray-800 mt-1">{item.value}</p>
+            <p className="text-[11px] text-gray-400 mt-0.5">{item.sub}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-bold text-gray-700 mb-2">
+            점포 밀도 지표 <span className="text-xs font-normal text-gray-400">({filterLabel ? `${filterLabel} ` : ''}점포 {storeCount.toLocaleString()}개 기준)</span>
+          </p>
+          <table className="w-full text-sm">
+            <tbody>
+              {ratios.map(r => (
+                <tr key={r.key} className="border-b last:border-0" title={r.hint}>
+                  <td className="py-2 text-gray-600">{r.label}</td>
+                  <td className="py-2 text-right font-bold text-gray-800">
+                    {r.value === null ? '-' : `${r.value.toLocaleString(undefined, { maximumFractionDigits: r.digits, minimumFractionDigits: r.digits })}${r.unit}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <p className="text-sm font-bold text-gray-700 mb-2">성 · 연령별 인구</p>
+          {census.ageGroups.length > 0 ? (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={census.ageGroups} layout="vertical" margin={{ top: 0, right: 10, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toLocaleString()} />
+                  <YAxis type="category" dataKey="age" tick={{ fontSize: 11 }} width={64} />
+                  <Tooltip formatter={(value: number) => `${value.toLocaleString()}명`} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="male" name="남성" fill="#3b82f6" />
+                  <Bar dataKey="female" name="여성" fill="#f43f5e" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400 py-10 text-center">성·연령별 인구를 불러오지 못했습니다.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CensusPanel;
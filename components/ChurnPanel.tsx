@@ -0,0 +1,179 @@
+import React from 'react';
+import * as Icons from './Icons';
+import { SnapshotMeta, StoreChurn } from '../types';
+import { formatYm } from '../services/snapshots';
+
+export interface ChurnLayerVisibility {
+  opened: boolean;
+  closed: boolean;
+}
+
+export const CHURN_COLORS = { opened: '#16a34a', closed: '#dc2626' };
+
+interface ChurnPanelProps {
+  snapshots: SnapshotMeta[];      // 최근 기준월부터
+  from: string | null;
+  to: string | null;
+  onRangeChange: (from: string, to: string) => void;
+  churn: StoreChurn | null;
+  onSave?: () => void;            // 현재 분석을 스냅샷으로 저장 (기준월을 모르면 undefined)
+  savedCurrent: boolean;          // 현재 기준월이 이미 직접 저장됨
+  layers: ChurnLayerVisibility;
+  onLayersChange: (layers: ChurnLayerVisibility) => void;
+}
+
+const LIST_LIMIT = 10;
+
+const signed = (n: number) => n > 0 ? `+${n.toLocaleString()}` : n.toLocaleString();
+
+/**
+ * 두 기준월 사이 개·폐업, 이전, 업종 변경과 업종별 순증감
+ */
+const ChurnPanel: React.FC<ChurnPanelProps> = ({ snapshots, from, to, onRangeChange, churn, onSave, savedCurrent, layers, onLayersChange }) => {
+  const summary = churn ? [
+    { label: "신규", value: churn.opened.length, className: "text-green-600" },
+    { label: "폐업", value: churn.closed.length, className: "text-red-600" },
+    { label: "이전", value: churn.moved.length, className: "text-blue-600" },
+    { label: "업종 변경", value: churn.recategorized.length, className: "text-amber-600" },
+    { label: "순증감", value: churn.opened.length - churn.closed.length, className: "text-gray-800", signed: true }
+  ] : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-4 md:p-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-4">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <span className="bg-emerald-100 p-1.5 rounded-lg"><Icons.TrendingUp className="w-5 h-5 text-emerald-600"/></span>
+          점포 변동 (개업 · 폐업)
+        </h3>
+        {onSave && (
+          <button
+            onClick={onSave}
+            disabled={savedCurrent}
+            className="text-xs font-bold px-3 py-1.5 rounded-lg border border-emerald-300 text-emerald-700 hover:bg-emerald-50 disabled:opacity-50 disabled:cursor-default transition"
+          >
+            {savedCurrent ? '현재 기준월 저장됨' : '현재 분석 스냅샷 저장'}
+          </button>
+        )}
+      </div>
+
+      {snapshots.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          비교하려면 기준월이 다른 스냅샷이 2개 이상 필요합니다. 분석할 때마다 기준월별 점포 목록이 자동으로 보관되므로,
+          데이터가 갱신된 뒤 다시 분석하면 {snapshots[0] ? `${formatYm(snapshots[0].stdrYm)} 스냅샷과` : '이전 스냅샷과'} 비교할 수 있습니다.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <select
+              value={from || ''}
+              onChange={e => onRangeChange(e.target.value, to || snapshots[0].stdrYm)}
+              className="border rounded-lg px-2 py-1.5 bg-white"
+            >
+              {snapshots.map(s => (
+                <option key={s.stdrYm} value={s.stdrYm}>{formatYm(s.stdrYm)} ({s.storeCount.toLocaleString()}개{s.origin === 'saved' ? ', 저장' : ''})</option>
+              ))}
+            </select>
+            <span className="text-gray-400">→</span>
+            <select
+              value={to || ''}
+              onChange={e => onRangeChange(from || snapshots[snapshots.length - 1].stdrYm, e.target.value)}
+              className="border rounded-lg px-2 py-1.5 bg-white"
+            >
+              {snapshots.map(s => (
+                <option key={s.stdrYm} value={s.stdrYm}>{formatYm(s.stdrYm)} ({s.storeCount.toLocaleString()}개{s.origin === 'saved' ? ', 저장' : ''})</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-3 md:ml-auto text-xs">
+              <span className="text-gray-500">지도 표시</span>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={layers.opened} onChange={e => onLayersChange({ ...layers, opened: e.target.checked })} />
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CHURN_COLORS.opened }}></span> 신규
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={layers.closed} onChange={e => onLayersChange({ ...layers, closed: e.target.checked })} />
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CHURN_COLORS.closed }}></span> 폐업
+              </label>
+            </div>
+          </div>
+
+          {!churn ? (
+            <p className="text-sm text-gray-400 py-6 text-center">
+              {from === to ? '서로 다른 기준월을 선택하세요.' : '스냅샷을 불러오지 못했습니다. 저장 공간이 부족해 삭제되었을 수 있습니다.'}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+                {summary.map(item => (
+                  <div key={item.label} className="bg-gray-50 rounded-lg p-3 text-center">
+                    <p className="text-xs text-gray-500">{item.label}</p>
+                    <p className={`text-xl font-bold mt-1 ${item.className}`}>{item.signed ? signed(item.value) : item.value.toLocaleString()}</p>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-sm font-bold text-gray-700 mb-2">업종별 순증감 <span className="text-xs font-normal text-gray-400">(업종 변경은 이전 업종 감소 · 새 업종 증가로 집계)</span></p>
+              {churn.byCategory.length === 0 ? (
+                <p className="text-xs text-gray-400 mb-6">변동이 없습니다.</p>
+              ) : (
+                <div className="overflow-x-auto max-h-80 overflow-y-auto mb-6 border rounded-lg">
+                  <table className="w-full text-xs whitespace-nowrap">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="text-gray-400 border-b">
+                        <th className="text-left px-3 py-2 font-medium">대분류</th>
+                        <th className="text-left px-3 py-2 font-medium">중분류</th>
+                        <th className="text-right px-3 py-2 font-medium">{formatYm(churn.from)}</th>
+                        <th className="text-right px-3 py-2 font-medium">{formatYm(churn.to)}</th>
+                        <th className="text-right px-3 py-2 font-medium">증가</th>
+                        <th className="text-right px-3 py-2 font-medium">감소</th>
+                        <th className="text-right px-3 py-2 font-medium">순증감</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {churn.byCategory.map(c => (
+                        <tr key={`${c.large}-${c.code}`} className="border-b last:border-0">
+                          <td className="px-3 py-2 text-gray-600">{c.large}</td>
+                          <td className="px-3 py-2 font-medium text-gray-800">{c.mid}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">{c.before.toLocaleString()}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">{c.after.toLocaleString()}</td>
+                          <td className="px-3 py-2 text-right text-green-600">{c.opened ? `+${c.opened}` : '-'}</td>
+                          <td className="px-3 py-2 text-right text-red-600">{c.closed ? `-${c.closed}` : '-'}</td>
+                          <td className={`px-3 py-2 text-right font-bold ${c.net > 0 ? 'text-green-600' : c.net < 0 ? 'text-red-600' : 'text-gray-500'}`}>{signed(c.net)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-xs">
+                <div>
+                  <p className="text-sm font-bold text-gray-700 mb-2">이전한 점포 ({churn.moved.length})</p>
+                  {churn.moved.slice(0, LIST_LIMIT).map(({ before, after, distance }) => (
+                    <div key={after.bizesId} className="py-1.5 border-b last:border-0">
+                      <span className="font-medium text-gray-800">{after.bizesNm}</span>
+                      <span className="text-gray-400 ml-1">{Math.round(distance).toLocaleString()}m</span>
+                      <p className="text-gray-500 truncate">{before.rdnmAdr} → {after.rdnmAdr}</p>
+                    </div>
+                  ))}
+                  {churn.moved.length > LIST_LIMIT && <p className="text-gray-400 mt-1">외 {churn.moved.length - LIST_LIMIT}개</p>}
+                </div>
+                <div>
+                  <p className="text-sm font-bold text-gray-700 mb-2">업종이 바뀐 점포 ({churn.recategorized.length})</p>
+                  {churn.recategorized.slice(0, LIST_LIMIT).map(({ before, after }) => (
+                    <div key={after.bizesId} className="py-1.5 border-b last:border-0">
+                      <span className="font-medium text-gray-800">{after.bizesNm}</span>
+                      <p className="text-gray-500">{before.indsMclsNm} → <span className="text-amber-600 font-medium">{after.indsMclsNm}</span></p>
+                    </div>
+                  ))}
+                  {churn.recategorized.length > LIST_LIMIT && <p className="text-gray-400 mt-1">외 {churn.recategorized.length - LIST_LIMIT}개</p>}
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChurnPanel;
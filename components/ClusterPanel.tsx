@@ -0,0 +1,68 @@
+import React from 'react';
+import * as Icons from './Icons';
+import { StoreCluster } from '../types';
+import { CLUSTER_EPS_M, CLUSTER_MIN_STORES, clusterColor } from '../services/clusters';
+
+interface ClusterPanelProps {
+  clusters: StoreCluster[];
+  totalStores: number;
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+}
+
+/**
+ * 점포 밀집 구역 목록 - 클릭하면 대시보드를 그 구역 점포로 좁힘 (지도 외곽선과 같은 색)
+ */
+const ClusterPanel: React.FC<ClusterPanelProps> = ({ clusters, totalStores, selectedId, onSelect }) => {
+  const clustered = clusters.reduce((sum, c) => sum + c.storeIds.length, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-4 md:p-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-1 mb-3">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <span className="bg-fuchsia-100 p-1.5 rounded-lg"><Icons.MapPin className="w-5 h-5 text-fuchsia-600"/></span>
+          점포 밀집 구역 ({clusters.length}곳)
+        </h3>
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span>전체 {totalStores.toLocaleString()}개 중 {clustered.toLocaleString()}개가 밀집 구역에 속함</span>
+          {selectedId !== null && (
+            <button onClick={() => onSelect(null)} className="bg-white border border-gray-300 px-2 py-1 rounded text-gray-600 hover:text-fuchsia-600 hover:border-fuchsia-300 transition">
+              전체 보기
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        * 반경 {CLUSTER_EPS_M}m 안에 점포가 {CLUSTER_MIN_STORES}개 이상 모인 곳을 이어 묶었습니다. 목록이나 지도의 구역을 누르면 아래 통계가 그 구역 점포로 바뀝니다.
+      </p>
+      {clusters.length === 0 ? (
+        <p className="text-sm text-gray-400 py-4 text-center">뚜렷하게 밀집된 구역이 없습니다.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 max-h-72 overflow-y-auto custom-scrollbar">
+          {clusters.map(c => {
+            const isSelected = c.id === selectedId;
+            return (
+              <button
+                key={c.id}
+                onClick={() => onSelect(isSelected ? null : c.id)}
+                className={`text-left border rounded-lg p-3 transition ${isSelected ? 'border-fuchsia-400 bg-fuchsia-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center gap-2 text-sm font-bold text-gray-800">
+                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: clusterColor(c.id) }}></span>
+                    밀집 구역 {c.id}
+                  </span>
+                  <span className="text-sm font-bold text-gray-700">{c.storeIds.length}개</span>
+                </div>
+                <p className="text-xs text-gray-600 truncate">{c.topCategories.map(t => `${t.name} ${t.count}`).join(' · ')}</p>
+                <p className="text-xs text-gray-400 mt-0.5">프랜차이즈 {c.franchiseRate.toFixed(0)}%</p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClusterPanel;
@@ -0,0 +1,147 @@
+import React from 'react';
+import * as Icons from './Icons';
+import ErrorNotice from './ErrorNotice';
+import { ChartData } from '../types';
+import { ApiError } from '../services/errors';
+import { floorLabel } from '../services/floors';
+import { Competitor, CompetitorRing, CompetitorTarget, COMPETITOR_MAX_M } from '../services/competitors';
+
+interface CompetitorPanelProps {
+  siteLabel: string;
+  target: CompetitorTarget | null;
+  onTargetChange: (target: CompetitorTarget | null) => void;
+  midOptions: ChartData[];   // 중분류 (countCategories 결과, 점포 많은 순)
+  brandOptions: string[];
+  competitors: Competitor[];
+  rings: CompetitorRing[];
+  complete: boolean;       // 후보지 반경 전체 점포로 계산했는지 (false면 분석 구역 안 점포만)
+  loading: boolean;
+  error: ApiError | null;
+  onLoadSurroundings: () => void;
+}
+
+export const COMPETITOR_COLORS = { franchise: '#dc2626', independent: '#2563eb', nearest: '#facc15' };
+
+const formatDistance = (m: number) => m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(2)}km`;
+
+/**
+ * 후보지 주변 경쟁 점포 (거리 링별 점포 수, 가장 가까운 프랜차이즈, 거리순 목록)
+ */
+const CompetitorPanel: React.FC<CompetitorPanelProps> = ({ siteLabel, target, onTargetChange, midOptions, brandOptions, competitors, rings, complete, loading, error, onLoadSurroundings }) => {
+  const nearestFranchise = competitors.find(c => c.franchise) || null;
+
+  const handleSelect = (value: string) => {
+    if (!value) return onTargetChange(null);
+    const [kind, ...rest] = value.split(':');
+    const key = rest.join(':');
+    if (kind === 'brand') return onTargetChange({ kind, name: key });
+    const mid = midOptions.find(o => o.code === key);
+    onTargetChange(mid ? { kind: 'mid', code: mid.code, name: mid.name } : null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-4 md:p-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-3">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <span className="bg-slate-100 p-1.5 rounded-lg"><Icons.Search className="w-5 h-5 text-slate-700"/></span>
+          경쟁 점포 찾기
+        </h3>
+        <select
+          value={!target ? '' : target.kind === 'mid' ? `mid:${target.code}` : `brand:${target.name}`}
+          onChange={e => handleSelect(e.target.value)}
+          className="text-sm border rounded-md px-2 py-1.5 bg-white md:w-64"
+        >
+          <option value="">업종 또는 브랜드 선택</option>
+          <optgroup label="업종 (중분류)">
+            {midOptions.map(o => <option key={o.code} value={`mid:${o.code}`}>{o.name} ({o.count})</option>)}
+          </optgroup>
+          <optgroup label="브랜드">
+            {brandOptions.map(name => <option key={name} value={`brand:${name}`}>{name}</option>)}
+          </optgroup>
+        </select>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        * 후보지: <span className="font-medium text-gray-700">{siteLabel}</span>. 직선거리 {COMPETITOR_MAX_M}m 안의 점포를 가까운 순으로 보여줍니다.
+      </p>
+
+      {error && <ErrorNotice error={error} onRetry={loading ? undefined : onLoadSurroundings} />}
+
+      {!complete && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4 text-xs text-amber-800">
+          <span>분석 구역 안의 점포만으로 계산했습니다. 구역 밖 {COMPETITOR_MAX_M}m 이내 점포는 빠져 있을 수 있습니다.</span>
+          <button
+            onClick={onLoadSurroundings}
+            disabled={loading}
+            className="bg-amber-600 hover:bg-amber-700 disabled:opacity-50 text-white font-bold px-3 py-1 rounded-md transition whitespace-nowrap self-start"
+          >
+            {loading ? '주변 점포 불러오는 중...' : `후보지 ${COMPETITOR_MAX_M}m 전체 불러오기`}
+          </button>
+        </div>
+      )}
+
+      {!target ? (
+        <p className="text-sm text-gray-400 py-6 text-center">열려는 업종이나 브랜드를 고르면 주변 경쟁 점포를 찾습니다.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {rings.map(r => (
+              <div key={r.radius} className="bg-gray-50 rounded-lg p-3 text-center">
+                <p className="text-xs text-gray-500 mb-1">{r.radius}m 이내</p>
+                <p className="text-2xl font-extrabold text-gray-800">{r.count}<span className="text-sm font-medium">개</span></p>
+                <p className="text-xs text-gray-400">프랜차이즈 {r.franchiseCount}</p>
+              </div>
+            ))}
+          </div>
+
+          {nearestFranchise && (
+            <div className="flex items-center gap-2 text-sm bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2 mb-4">
+              <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: COMPETITOR_COLORS.nearest }}></span>
+              <span className="text-gray-700">가장 가까운 프랜차이즈</span>
+              <span className="font-bold text-gray-900 truncate">{nearestFranchise.store.bizesNm} {nearestFranchise.store.brchNm}</span>
+              <span className="ml-auto font-bold text-red-600">{formatDistance(nearestFranchise.distance)}</span>
+            </div>
+          )}
+
+          {competitors.length === 0 ? (
+            <p className="text-sm text-gray-400 py-4 text-center">{COMPETITOR_MAX_M}m 안에 경쟁 점포가 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-80 border rounded-lg custom-scrollbar">
+              <table className="w-full text-xs whitespace-nowrap">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-gray-400 border-b">
+                    <th className="text-left px-3 py-2 font-medium">#</th>
+                    <th className="text-left px-3 py-2 font-medium">상호</th>
+                    <th className="text-left px-3 py-2 font-medium">업종</th>
+                    <th className="text-right px-3 py-2 font-medium">거리</th>
+                    <th className="text-right px-3 py-2 font-medium">층</th>
+                    <th className="text-center px-3 py-2 font-medium">프랜차이즈</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {competitors.map((c, i) => (
+                    <tr key={c.store.bizesId} className={`border-b last:border-0 ${c === nearestFranchise ? 'bg-yellow-50' : ''}`}>
+                      <td className="px-3 py-2 text-gray-400">{i + 1}</td>
+                      <td className="px-3 py-2 font-medium text-gray-800">
+                        {c.store.bizesNm}{c.store.brchNm && <span className="text-gray-500 font-normal"> {c.store.brchNm}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-gray-500">{c.store.indsMclsNm}</td>
+                      <td className="px-3 py-2 text-right font-bold text-gray-700">{formatDistance(c.distance)}</td>
+                      <td className="px-3 py-2 text-right text-gray-500">{floorLabel(c.store) || '-'}</td>
+                      <td className="px-3 py-2 text-center">
+                        {c.franchise
+                          ? <span className="bg-red-100 text-red-700 px-1.5 py-0.5 rounded">{c.brand || '프랜차이즈'}</span>
+                          : <span className="text-gray-300">-</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompetitorPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import * as Icons from './Icons';
+import { CustomArea } from '../types';
+import { geometryArea } from '../services/geometry';
+
+interface CustomAreaListProps {
+  areas: CustomArea[];
+  onOpen: (area: CustomArea) => void;
+  onDelete: (area: CustomArea) => void;
+  disabled?: boolean;
+}
+
+const formatArea = (m2: number) => m2 >= 1000000 ? `${(m2 / 1000000).toFixed(2)}㎢` : `${Math.round(m2).toLocaleString()}㎡`;
+
+/**
+ * 저장한 직접 그리기 영역 목록 (열면 바로 분석)
+ */
+const CustomAreaList: React.FC<CustomAreaListProps> = ({ areas, onOpen, onDelete, disabled }) => {
+  if (areas.length === 0) {
+    return <p className="text-sm text-gray-400 py-4 text-center">저장된 영역이 없습니다. 주소를 검색한 뒤 지도에 영역을 그려 저장해보세요.</p>;
+  }
+
+  return (
+    <ul className="divide-y border rounded-xl overflow-hidden text-left">
+      {areas.map(area => (
+        <li key={area.id} className="flex items-center justify-between gap-3 p-3 bg-white hover:bg-amber-50/50 transition">
+          <div className="min-w-0">
+            <p className="font-bold text-gray-800 truncate">{area.name}</p>
+            <p className="text-xs text-gray-500">
+              {formatArea(geometryArea(area.geometry))} · {new Date(area.createdAt).toLocaleDateString()} 저장
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button onClick={() => onOpen(area)} disabled={disabled} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-amber-600 text-white hover:opacity-90 disabled:bg-gray-400 flex items-center gap-1">
+              열기 <Icons.ArrowRight className="w-3 h-3"/>
+            </button>
+            <button onClick={() => onDelete(area)} className="px-3 py-1.5 text-xs font-bold rounded-lg border border-gray-300 text-gray-500 hover:text-red-600 hover:border-red-300">
+              삭제
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default CustomAreaList;
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import * as Icons from './Icons';
+import { AdminArea, DongSummary } from '../types';
+
+interface DistrictDongTableProps {
+  dongData: DongSummary[];
+  subAreas?: AdminArea[];         // 점포가 없는 동도 표에 표시
+  filterLabel?: string | null;    // 업종 필터가 걸려 있으면 표시
+}
+
+/**
+ * 시군구 분석: 관할 행정동별 점포 분포
+ */
+const DistrictDongTable: React.FC<DistrictDongTableProps> = ({ dongData, subAreas = [], filterLabel }) => {
+  const rows = useMemo(() => {
+    const known = new Set(dongData.map(d => d.code));
+    const empty = subAreas
+      .filter(area => !known.has(area.code))
+      .map(area => ({ code: area.code, name: area.name, count: 0, ratio: 0, franchiseCount: 0, firstFloorCount: 0, topLarge: "-" }));
+    return [...dongData, ...empty];
+  }, [dongData, subAreas]);
+
+  const maxCount = Math.max(...rows.map(r => r.count), 1);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+      <div className="p-4 md:p-6 border-b bg-gray-50 flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <Icons.MapPin className="text-green-600"/> 행정동별 점포 분포 ({rows.length}개 동)
+        </h3>
+        <span className="text-xs text-gray-500">* {filterLabel ? `${filterLabel} 기준` : '전체 업종 기준'}</span>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-sm text-left whitespace-nowrap">
+          <thead className="bg-gray-100 text-gray-700 font-semibold">
+            <tr>
+              <th className="px-3 py-2 md:px-6 md:py-3">행정동</th>
+              <th className="px-3 py-2 md:px-6 md:py-3 text-right">점포수 (구성비)</th>
+              <th className="px-3 py-2 md:px-6 md:py-3">분포</th>
+              <th className="px-3 py-2 md:px-6 md:py-3">주요 업종</th>
+              <th className="px-3 py-2 md:px-6 md:py-3 text-center">프랜차이즈 비율</th>
+              <th className="px-3 py-2 md:px-6 md:py-3 text-center">1층 점포 비율</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {rows.map(row => (
+              <tr key={row.code} className="hover:bg-gray-50 transition-colors">
+                <td className="px-3 py-2 md:px-6 md:py-3 font-medium text-gray-900">{row.name}</td>
+                <td className="px-3 py-2 md:px-6 md:py-3 text-right">
+                  <div className="font-bold">{row.count.toLocaleString()}개</div>
+                  <div className="text-xs text-gray-500">({row.ratio.toFixed(1)}%)</div>
+                </td>
+                <td className="px-3 py-2 md:px-6 md:py-3">
+                  <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-green-500 rounded-full" style={{ width: `${(row.count / maxCount) * 100}%` }}></div>
+                  </div>
+                </td>
+                <td className="px-3 py-2 md:px-6 md:py-3 text-gray-600">{row.topLarge}</td>
+                <td className="px-3 py-2 md:px-6 md:py-3 text-center text-green-600 font-medium">
+                  {row.count ? `${((row.franchiseCount / row.count) * 100).toFixed(1)}%` : "-"}
+                </td>
+                <td className="px-3 py-2 md:px-6 md:py-3 text-center text-orange-600 font-medium">
+                  {row.count ? `${((row.firstFloorCount / row.count) * 100).toFixed(1)}%` : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DistrictDongTable;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import * as Icons from './Icons';
+import { DiversityIndex, ZoneDiversity } from '../types';
+import { concentrationLevel, CONCENTRATION_LABELS, ConcentrationLevel } from '../services/diversity';
+
+export interface DiversityReference {
+  name: string;
+  diversity: ZoneDiversity;
+}
+
+interface DiversityCardProps {
+  diversity: ZoneDiversity;
+  district: DiversityReference | null;    // 상위 시군구 (입지계수용 점포를 불러온 경우만)
+  others: DiversityReference[];            // 이번에 분석한 다른 구역들
+}
+
+type Level = keyof ZoneDiversity;
+
+const LEVEL_STYLES: Record<ConcentrationLevel, string> = {
+  diverse: 'bg-green-100 text-green-700',
+  moderate: 'bg-amber-100 text-amber-700',
+  concentrated: 'bg-red-100 text-red-700'
+};
+
+const METRICS: Array<{ key: keyof DiversityIndex; label: string; title: string; format: (v: number) => string }> = [
+  { key: 'effective', label: "유효 업종 수", title: "exp(섀넌 지수). 이만큼의 업종이 똑같은 비중으로 섞인 것과 같은 다양성", format: v => v.toFixed(1) },
+  { key: 'shannon', label: "섀넌 지수", title: "업종이 많고 고르게 섞일수록 커짐", format: v => v.toFixed(2) },
+  { key: 'hhi', label: "HHI", title: "업종 비중(%) 제곱의 합. 한 업종에 몰릴수록 커짐 (최대 10,000)", format: v => Math.round(v).toLocaleString() }
+];
+
+const average = (refs: DiversityReference[], level: Level, key: keyof DiversityIndex) =>
+  refs.reduce((sum, r) => sum + r.diversity[level][key], 0) / refs.length;
+
+/**
+ * 업종 다양성/집중도 요약 카드 (시군구·다른 분석 구역과 비교)
+ */
+const DiversityCard: React.FC<DiversityCardProps> = ({ diversity, district, others }) => {
+  const [level, setLevel] = useState<Level>('large');
+  const current = diversity[level];
+  const concentration = concentrationLevel(current.hhi);
+
+  return (
+    <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border">
+      <div className="flex justify-between items-center gap-2 mb-3">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2 whitespace-nowrap"><Icons.PieChartIcon className="text-teal-500"/> 업종 다양성</h3>
+        <div className="bg-gray-100 p-1 rounded-lg flex">
+          {(['large', 'mid'] as Level[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setLevel(key)}
+              className={`px-2 py-0.5 text-xs font-bold rounded-md transition ${level === key ? 'bg-white text-teal-600 shadow-sm' : 'text-gray-500'}`}
+            >
+              {key === 'large' ? '대분류' : '중분류'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-end gap-2 mb-3">
+        <span className="text-4xl font-extrabold text-teal-600">{current.effective.toFixed(1)}</span>
+        <span className="text-xs text-gray-500 pb-1">/ {current.categories}개 업종</span>
+        <span className={`ml-auto text-xs font-bold px-2 py-0.5 rounded-full ${LEVEL_STYLES[concentration]}`}>{CONCENTRATION_LABELS[concentration]}</span>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400 border-b">
+            <th className="text-left py-1 font-medium"></th>
+            <th className="text-right py-1 font-medium">이 구역</th>
+            {district && <th className="text-right py-1 font-medium truncate max-w-[70px]">{district.name}</th>}
+            {others.length > 0 && <th className="text-right py-1 font-medium" title={others.map(o => o.name).join(', ')}>다른 구역 평균({others.length})</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {METRICS.map(m => (
+            <tr key={m.key} className="border-b last:border-0">
+              <td className="py-1.5 text-gray-600" title={m.title}>{m.label}</td>
+              <td className="py-1.5 text-right font-bold text-gray-800">{m.format(current[m.key])}</td>
+              {district && <td className="py-1.5 text-right text-gray-500">{m.format(district.diversity[level][m.key])}</td>}
+              {others.length > 0 && <td className="py-1.5 text-right text-gray-500">{m.format(average(others, level, m.key))}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {!district && others.length === 0 && (
+        <p className="text-xs text-gray-400 mt-2">시군구 점포를 불러오거나 다른 구역을 분석하면 비교값이 함께 표시됩니다.</p>
+      )}
+    </div>
+  );
+};
+
+export default DiversityCard;
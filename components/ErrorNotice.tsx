@@ -0,0 +1,67 @@
+import React from 'react';
+import { ApiError, ApiErrorKind, SOURCE_KEY_HINTS, SOURCE_LABELS } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: ApiError | string;
+  onRetry?: () => void;
+  retryLabel?: string;
+  onUseFixture?: () => void;   // 녹화 데이터 소스로 전환 후 다시 시도 (개발 빌드에서만 넘김)
+  className?: string;
+}
+
+const TITLES: Record<ApiErrorKind, string> = {
+  auth: "API 인증에 실패했습니다",
+  quota: "API 호출 한도를 초과했습니다",
+  upstream: "데이터 서버에 연결할 수 없습니다",
+  no_data: "조회된 데이터가 없습니다",
+  parse: "응답 데이터를 해석하지 못했습니다",
+  partial: "⚠️ 일부 데이터만 반영된 분석 결과입니다"
+};
+
+// 데이터 소스를 바꾸면 해결될 수 있는 오류
+const FALLBACK_KINDS: ApiErrorKind[] = ['auth', 'quota', 'upstream'];
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, retryLabel = "다시 시도", onUseFixture, className = "" }) => {
+  // 입력 검증 등 단순 메시지
+  if (typeof error === 'string') {
+    return <p className={`text-red-500 text-sm mt-2 ${className}`}>{error}</p>;
+  }
+
+  const isWarning = error.kind === 'partial' || error.kind === 'no_data';
+  const keyHint = SOURCE_KEY_HINTS[error.source];
+  const showFallback = onUseFixture && error.source !== 'fixture' && FALLBACK_KINDS.includes(error.kind);
+
+  return (
+    <div className={`rounded-xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-3 text-left animate-fade-in ${isWarning ? 'bg-amber-50 border border-amber-200 text-amber-800' : 'bg-red-50 border border-red-200 text-red-800'} ${className}`}>
+      <div className="text-sm">
+        <p className="font-bold mb-1">{TITLES[error.kind]}</p>
+        <p>{error.message}</p>
+        {error.kind === 'auth' && keyHint && (
+          <p className="mt-1">서버 환경 변수 <code className="bg-white/70 px-1 rounded">{keyHint}</code> 값이 올바른지 확인해주세요.</p>
+        )}
+        {error.kind === 'quota' && (
+          <p className="mt-1">호출 한도가 초기화된 뒤 다시 시도하거나, 이미 조회한 지역은 저장된 데이터로 확인할 수 있습니다.</p>
+        )}
+        <p className="text-xs opacity-70 mt-1">
+          {SOURCE_LABELS[error.source]}{error.code && ` · 오류 코드 ${error.code}`}
+        </p>
+      </div>
+      {(error.retryable && onRetry || showFallback) && (
+        <div className="flex flex-shrink-0 gap-2">
+          {error.retryable && onRetry && (
+            <button onClick={onRetry} className={`text-white px-4 py-2 rounded-lg text-sm font-bold transition ${isWarning ? 'bg-amber-500 hover:bg-amber-600' : 'bg-red-500 hover:bg-red-600'}`}>
+              {retryLabel}
+            </button>
+          )}
+          {showFallback && (
+            <button onClick={onUseFixture} className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-gray-50 transition">
+              녹화 데이터로 보기
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
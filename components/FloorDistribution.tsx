@@ -0,0 +1,65 @@
+import React, { useMemo, useState } from 'react';
+import * as Icons from './Icons';
+import { FloorBandCount, Store } from '../types';
+import { FLOOR_BANDS, floorDistribution } from '../services/floors';
+import { CategoryLevel, categoryCode, countCategories } from '../services/categories';
+
+interface FloorDistributionProps {
+  distribution: FloorBandCount[];   // 현재 필터의 전체 점포 분포
+  stores: Store[];                  // 현재 필터의 점포 (업종별 분포 계산용)
+  groupLevel: CategoryLevel | null;   // 업종 선택에 쓸 분류 단계 (소분류까지 걸려 있으면 null)
+}
+
+const BAND_COLORS = Object.fromEntries(FLOOR_BANDS.map(b => [b.band, b.color]));
+
+/**
+ * 층별 점포 분포 (위층이 위로 오도록 건물 단면처럼 표시), 업종을 골라 좁혀 볼 수 있음
+ */
+const FloorDistribution: React.FC<FloorDistributionProps> = ({ distribution, stores, groupLevel }) => {
+  const [category, setCategory] = useState<string | null>(null);
+
+  // 분류 코드로 묶고 이름은 표시에만 씀
+  const categories = useMemo(() => groupLevel ? countCategories(stores, groupLevel) : [], [stores, groupLevel]);
+
+  const active = categories.find(c => c.code === category) || null;
+  const rows = useMemo(() => {
+    if (!active || !groupLevel) return distribution;
+    return floorDistribution(stores.filter(s => categoryCode(s, groupLevel) === active.code));
+  }, [active, groupLevel, stores, distribution]);
+  const ground = rows.find(r => r.band === 'ground');
+
+  return (
+    <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border">
+      <div className="flex justify-between items-center gap-2 mb-3">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2 whitespace-nowrap"><Icons.Layers className="text-orange-500"/> 층별 분포</h3>
+        {categories.length > 1 && (
+          <select
+            value={active?.code || ''}
+            onChange={e => setCategory(e.target.value || null)}
+            className="text-xs border rounded-md px-1.5 py-1 bg-white max-w-[120px]"
+          >
+            <option value="">전체 업종</option>
+            {categories.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="space-y-1.5">
+        {rows.map(row => (
+          <div key={row.band} className="flex items-center gap-2 text-xs">
+            <span className={`w-14 text-right ${row.band === 'ground' ? 'font-bold text-orange-600' : 'text-gray-600'}`}>{row.label}</span>
+            <div className="flex-1 h-5 bg-gray-100 rounded overflow-hidden">
+              <div className="h-full rounded" style={{ width: `${row.ratio}%`, backgroundColor: BAND_COLORS[row.band] }}></div>
+            </div>
+            <span className="w-16 text-right text-gray-700">{row.count.toLocaleString()} <span className="text-gray-400">({row.ratio.toFixed(0)}%)</span></span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-3">
+        1층 점포 비율 <span className="font-bold text-orange-600">{ground ? ground.ratio.toFixed(1) : 0}%</span>
+        {active && <span> · {active.name}</span>}
+      </p>
+    </div>
+  );
+};
+
+export default FloorDistribution;
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import * as Icons from './Icons';
+import ErrorNotice from './ErrorNotice';
+import { AdminArea, Store } from '../types';
+import { ApiError } from '../services/errors';
+import { locationQuotients, LqLevel, LQ_OVER, LQ_UNDER } from '../services/locationQuotient';
+
+interface LocationQuotientPanelProps {
+  zoneStores: Store[];
+  district: AdminArea | null;     // 기준 시군구 (구역 점포가 가장 많이 속한 곳)
+  baseStores: Store[] | null;     // 기준 시군구 전체 점포 (아직 불러오지 않았으면 null)
+  loading: boolean;
+  progress?: string | null;       // 시군구 점포 수집 진행 상황 (페이지 단위)
+  error: ApiError | null;
+  onLoad: () => void;
+  largeFilter?: string | null;    // 대분류 필터(코드)가 걸려 있으면 중분류를 그 대분류로 한정
+}
+
+const SIGNAL_STYLES = {
+  over: 'bg-red-50',
+  under: 'bg-blue-50',
+  neutral: ''
+};
+
+/**
+ * 상위 시군구 대비 업종별 입지계수(LQ)
+ */
+const LocationQuotientPanel: React.FC<LocationQuotientPanelProps> = ({ zoneStores, district, baseStores, loading, progress, error, onLoad, largeFilter }) => {
+  const [level, setLevel] = useState<LqLevel>('large');
+
+  const rows = useMemo(() => {
+    if (!baseStores) return [];
+    const all = locationQuotients(zoneStores, baseStores, level);
+    return level === 'mid' && largeFilter ? all.filter(r => r.largeCode === largeFilter) : all;
+  }, [zoneStores, baseStores, level, largeFilter]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-4 md:p-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-3">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <span className="bg-rose-100 p-1.5 rounded-lg"><Icons.BarChart2 className="w-5 h-5 text-rose-600"/></span>
+          업종 특화도 (입지계수){district ? ` · ${district.name} 대비` : ''}
+        </h3>
+        {baseStores && (
+          <div className="bg-gray-100 p-1 rounded-lg flex self-start">
+            {(['large', 'mid'] as LqLevel[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setLevel(key)}
+                className={`px-3 py-1 text-xs font-bold rounded-md transition ${level === key ? 'bg-white text-rose-600 shadow-sm' : 'text-gray-500'}`}
+              >
+                {key === 'large' ? '대분류' : '중분류'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        * 입지계수 = 구역 내 업종 비중 ÷ 시군구 내 업종 비중. {LQ_OVER} 이상은 시군구 평균보다 몰린 업종(<span className="text-red-600 font-medium">과대</span>),
+        {' '}{LQ_UNDER} 이하는 적은 업종(<span className="text-blue-600 font-medium">과소</span>)입니다. 점포 3개 미만 업종은 강조하지 않습니다.
+      </p>
+
+      {error && <ErrorNotice error={error} onRetry={loading ? undefined : onLoad} />}
+
+      {!baseStores ? (
+        <div className="text-center py-6">
+          {district ? (
+            <button
+              onClick={onLoad}
+              disabled={loading}
+              className="bg-rose-600 hover:bg-rose-700 disabled:opacity-50 text-white text-sm font-bold px-4 py-2 rounded-lg transition"
+            >
+              {loading ? `${district.name} 점포를 불러오는 중...` : `${district.name} 전체 점포와 비교하기`}
+            </button>
+          ) : (
+            <p className="text-sm text-gray-400">점포의 시군구 정보를 찾을 수 없습니다.</p>
+          )}
+          <p className="text-xs text-gray-400 mt-2">
+            {loading && progress ? progress : "시군구 전체 점포를 받아야 하므로 처음에는 시간이 걸릴 수 있습니다."}
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto max-h-96 border rounded-lg custom-scrollbar">
+          <table className="w-full text-xs whitespace-nowrap">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-gray-400 border-b">
+                <th className="text-left px-3 py-2 font-medium">업종</th>
+                <th className="text-right px-3 py-2 font-medium">구역 점포 (비중)</th>
+                <th className="text-right px-3 py-2 font-medium">시군구 점포 (비중)</th>
+                <th className="text-right px-3 py-2 font-medium">입지계수</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.code} className={`border-b last:border-0 ${SIGNAL_STYLES[r.signal]}`}>
+                  <td className="px-3 py-2 font-medium text-gray-800">
+                    {r.name}
+                    {level === 'mid' && !largeFilter && <span className="text-gray-400 font-normal ml-1">{r.large}</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-600">{r.zoneCount.toLocaleString()} ({r.zoneShare.toFixed(1)}%)</td>
+                  <td className="px-3 py-2 text-right text-gray-600">{r.baseCount.toLocaleString()} ({r.baseShare.toFixed(1)}%)</td>
+                  <td className={`px-3 py-2 text-right font-bold ${r.signal === 'over' ? 'text-red-600' : r.signal === 'under' ? 'text-blue-600' : 'text-gray-700'}`}>
+                    {r.lq === null ? '-' : r.lq.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationQuotientPanel;
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
-import { ChartData } from '../types';
+import { ChartData, StoreCluster, ZoneGeometry } from '../types';
+import { clusterColor } from '../services/clusters';
 
 declare global {
   interface Window {
@@ -10,21 +11,61 @@ declare global {
 interface MapProps {
   lat: number;
   lon: number;
-  polygonCoords?: number[][][];
+  polygonCoords?: ZoneGeometry;   // 여러 폴리곤(구멍 포함)을 한 레이어로 그림
   tradeName?: string;
+  radius?: number;                 // 반경(m): 중심 마커 둘레에 원을 그림
   draggable?: boolean;
   onDragEnd?: (lat: number, lon: number) => void;
   markers?: ChartData[];
   selectedMarkerIndex?: number | null;
   onMarkerClick?: (index: number) => void;
+  drawMode?: DrawMode | null;     // 그리기 중에는 지도 끌기 대신 영역을 그림
+  onDrawComplete?: (geometry: ZoneGeometry) => void;
+  pointLayers?: PointLayer[];      // 점포 위치 등 작은 점으로 찍는 추가 레이어 (줌 유지)
+  clusters?: StoreCluster[];       // 점포 밀집 구역 외곽선 (클릭하면 onClusterClick)
+  selectedClusterId?: number | null;
+  onClusterClick?: (id: number) => void;
+  rings?: RingSet | null;          // 후보지 둘레 거리 링 (줌 유지)
 }
 
-const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, draggable, onDragEnd, markers = [], selectedMarkerIndex, onMarkerClick }) => {
+// 후보지 중심의 동심원 (예: 경쟁 점포 100/300/500m)
+export interface RingSet {
+  lat: number;
+  lon: number;
+  radii: number[];
+  label: string;
+}
+
+// 색으로 구분하는 점 레이어 (예: 신규/폐업 점포)
+export interface PointLayer {
+  id: string;
+  label: string;
+  color: string;
+  radius?: number;                 // 점 크기 (기본 5px)
+  points: Array<{ lat: number; lon: number; title: string }>;
+}
+
+// 'freehand' = 누른 채로 따라 그리는 자유 다각형, 'rectangle' = 대각선으로 끄는 사각형
+export type DrawMode = 'freehand' | 'rectangle';
+
+const DRAW_STYLE = { color: '#d97706', fillColor: '#f59e0b', fillOpacity: 0.1, weight: 2, dashArray: '6 4' };
+const FREEHAND_MIN_STEP_PX = 4;   // 이보다 가까운 점은 건너뛰어 꼭짓점 수를 줄임
+
+const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, radius, draggable, onDragEnd, markers = [], selectedMarkerIndex, onMarkerClick, drawMode, onDrawComplete, pointLayers, clusters, selectedClusterId, onClusterClick, rings }) => {
     const mapRef = useRef<HTMLDivElement>(null);
     const mapInstanceRef = useRef<any>(null);
     const polygonLayerRef = useRef<any>(null);
     const markerRef = useRef<any>(null);
+    const circleRef = useRef<any>(null);
+    const fittedRadiusRef = useRef<number | null>(null);
     const extraMarkersRef = useRef<any>(null);
+    const pointLayersRef = useRef<any>(null);
+    const clusterLayerRef = useRef<any>(null);
+    const ringLayerRef = useRef<any>(null);
+    const onDrawCompleteRef = useRef(onDrawComplete);
+    onDrawCompleteRef.current = onDrawComplete;
+    const onClusterClickRef = useRef(onClusterClick);
+    onClusterClickRef.current = onClusterClick;
 
     // 1. 지도 초기화 및 형상(Polygon/Main Marker) 관리 - 줌 레벨 변경 발생
     useEffect(() => {
@@ -39,7 +80,10 @@ const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, drag
             }).addTo(mapInstanceRef.current);
             
             // 마커 레이어 그룹 생성
+            clusterLayerRef.current = L.layerGroup().addTo(mapInstanceRef.current);
+            ringLayerRef.current = L.layerGroup().addTo(mapInstanceRef.current);
             extraMarkersRef.current = L.layerGroup().addTo(mapInstanceRef.current);
+            pointLayersRef.current = L.layerGroup().addTo(mapInstanceRef.current);
         } else {
             // draggable 모드가 아닐 때만 view 업데이트 (검색 시)
             // 상권 분석 모드(polygon 존재)일 때는 fitBounds가 아래에서 처리하므로 여기서 setView 안함
@@ -55,11 +99,16 @@ const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, drag
             markerRef.current.remove();
             markerRef.current = null;
         }
+        if (circleRef.current) {
+            circleRef.current.remove();
+            circleRef.current = null;
+        }
 
         // 폴리곤 처리
         if (polygonCoords && polygonCoords.length > 0) {
             if (polygonLayerRef.current) map.removeLayer(polygonLayerRef.current);
             try {
+                // Leaflet은 [폴리곤[링[점]]] 중첩 배열을 MultiPolygon으로, 둘째 링부터는 구멍으로 그립니다.
                 const polygon = L.polygon(polygonCoords, {
                     color: '#2563eb', fillColor: '#3b82f6', fillOpacity: 0.1, weight: 2
                 }).addTo(map);
@@ -78,10 +127,26 @@ const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, drag
                 polygonLayerRef.current = null;
             }
             
+            // 반경 원 (반경이 바뀌었을 때만 원 전체가 보이도록 맞춤, 드래그 중에는 줌 유지)
+            if (radius) {
+                const circle = L.circle([lat, lon], {
+                    radius, color: '#7c3aed', fillColor: '#8b5cf6', fillOpacity: 0.08, weight: 2
+                }).addTo(map);
+                circleRef.current = circle;
+                if (!draggable || fittedRadiusRef.current !== radius) {
+                    map.invalidateSize();
+                    map.fitBounds(circle.getBounds());
+                }
+            }
+            fittedRadiusRef.current = radius ?? null;
+
             // 메인 마커 추가
             const marker = L.marker([lat, lon], { draggable: !!draggable }).addTo(map);
             if (tradeName) marker.bindPopup(tradeName).openPopup();
             
+            if (draggable && radius) {
+                marker.on('drag', (event: any) => circleRef.current?.setLatLng(event.target.getLatLng()));
+            }
             if (draggable && onDragEnd) {
                 marker.on('dragend', function(event: any) {
                     const pos = event.target.getLatLng();
@@ -90,7 +155,7 @@ const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, drag
             }
             markerRef.current = marker;
         }
-    }, [lat, lon, polygonCoords, tradeName, draggable, onDragEnd]); 
+    }, [lat, lon, polygonCoords, tradeName, radius, draggable, onDragEnd]); 
     // 주의: markers나 selectedMarkerIndex는 이 useEffect의 의존성 배열에서 제외하여 줌 리셋 방지
 
     // 2. 추가 마커(빌딩 순위) 관리 - 줌 레벨 변경 없음 (Repaint Only)
@@ -146,6 +211,157 @@ const TradeMap: React.FC<MapProps> = ({ lat, lon, polygonCoords, tradeName, drag
         }
     }, [markers, selectedMarkerIndex, onMarkerClick]);
 
+    // 3. 영역 그리기 - 포인터 이벤트로 마우스/터치/펜 모두 지원, 그리는 동안 지도 끌기/줌과 브라우저 스크롤을 끔
+    useEffect(() => {
+        const L = window.L;
+        const map = mapInstanceRef.current;
+        if (!map || !L || !drawMode) return;
+
+        const container: HTMLElement = map.getContainer();
+        map.dragging.disable();
+        map.doubleClickZoom.disable();
+        map.touchZoom?.disable();
+        container.style.cursor = 'crosshair';
+        container.style.touchAction = 'none';
+
+        let start: any = null;
+        let points: any[] = [];
+        let preview: any = null;
+        let pointerId: number | null = null;
+
+        const clearPreview = () => {
+            if (preview) preview.remove();
+            preview = null;
+        };
+
+        const onPointerDown = (event: PointerEvent) => {
+            // 두 번째 손가락이나 마우스 오른쪽 버튼은 무시
+            if (!event.isPrimary || event.button !== 0) return;
+            pointerId = event.pointerId;
+            container.setPointerCapture?.(event.pointerId);
+            start = map.mouseEventToLatLng(event);
+            points = [start];
+        };
+
+        const onPointerMove = (event: PointerEvent) => {
+            if (!start || event.pointerId !== pointerId) return;
+            const latlng = map.mouseEventToLatLng(event);
+            clearPreview();
+            if (drawMode === 'rectangle') {
+                preview = L.rectangle(L.latLngBounds(start, latlng), DRAW_STYLE).addTo(map);
+                return;
+            }
+            const last = map.latLngToContainerPoint(points[points.length - 1]);
+            if (last.distanceTo(map.latLngToContainerPoint(latlng)) >= FREEHAND_MIN_STEP_PX) points.push(latlng);
+            preview = L.polyline(points, DRAW_STYLE).addTo(map);
+        };
+
+        const onPointerUp = (event: PointerEvent) => {
+            if (!start || event.pointerId !== pointerId) return;
+            clearPreview();
+            let ring: number[][];
+            if (drawMode === 'rectangle') {
+                const bounds = L.latLngBounds(start, map.mouseEventToLatLng(event));
+                const [south, west, north, east] = [bounds.getSouth(), bounds.getWest(), bounds.getNorth(), bounds.getEast()];
+                ring = south === north || west === east ? [] : [[south, west], [north, west], [north, east], [south, east]];
+            } else {
+                ring = points.map((p: any) => [p.lat, p.lng]);
+            }
+            start = null;
+            points = [];
+            pointerId = null;
+            // 클릭만 하거나 선만 그은 경우는 무시
+            if (ring.length >= 3) onDrawCompleteRef.current?.([[[...ring, ring[0]]]]);
+        };
+
+        // 터치가 스크롤 등으로 취소되면 그리던 것을 버림
+        const onPointerCancel = (event: PointerEvent) => {
+            if (event.pointerId !== pointerId) return;
+            clearPreview();
+            start = null;
+            points = [];
+            pointerId = null;
+        };
+
+        container.addEventListener('pointerdown', onPointerDown);
+        container.addEventListener('pointermove', onPointerMove);
+        container.addEventListener('pointerup', onPointerUp);
+        container.addEventListener('pointercancel', onPointerCancel);
+        return () => {
+            container.removeEventListener('pointerdown', onPointerDown);
+            container.removeEventListener('pointermove', onPointerMove);
+            container.removeEventListener('pointerup', onPointerUp);
+            container.removeEventListener('pointercancel', onPointerCancel);
+            clearPreview();
+            map.dragging.enable();
+            map.doubleClickZoom.enable();
+            map.touchZoom?.enable();
+            container.style.cursor = '';
+            container.style.touchAction = '';
+        };
+    }, [drawMode]);
+
+    // 4. 점 레이어 - 줌 레벨 변경 없음
+    useEffect(() => {
+        const L = window.L;
+        const layerGroup = pointLayersRef.current;
+        if (!layerGroup || !L) return;
+
+        layerGroup.clearLayers();
+        pointLayers?.forEach(layer => {
+            layer.points.forEach(point => {
+                L.circleMarker([point.lat, point.lon], {
+                    radius: layer.radius ?? 5, color: '#fff', weight: 1, fillColor: layer.color, fillOpacity: 0.9
+                })
+                    .bindPopup(`<b style="color:${layer.color};">${layer.label}</b><br>${point.title}`)
+                    .addTo(layerGroup);
+            });
+        });
+    }, [pointLayers]);
+
+    // 5. 밀집 구역 외곽선 - 줌 레벨 변경 없음, 선택된 구역만 진하게
+    useEffect(() => {
+        const L = window.L;
+        const layerGroup = clusterLayerRef.current;
+        if (!layerGroup || !L) return;
+
+        layerGroup.clearLayers();
+        clusters?.forEach(cluster => {
+            const color = clusterColor(cluster.id);
+            const isSelected = selectedClusterId === cluster.id;
+            const dimmed = selectedClusterId != null && !isSelected;
+            L.polygon(cluster.hull, {
+                color, fillColor: color, weight: isSelected ? 3 : 1.5,
+                fillOpacity: isSelected ? 0.25 : dimmed ? 0.03 : 0.12, opacity: dimmed ? 0.4 : 1
+            })
+                .bindTooltip(`밀집 구역 ${cluster.id} · 점포 ${cluster.storeIds.length}개`, { sticky: true })
+                .on('click', () => onClusterClickRef.current?.(cluster.id))
+                .addTo(layerGroup);
+        });
+    }, [clusters, selectedClusterId]);
+
+    // 6. 후보지 거리 링 - 줌 레벨 변경 없음
+    useEffect(() => {
+        const L = window.L;
+        const layerGroup = ringLayerRef.current;
+        if (!layerGroup || !L) return;
+
+        layerGroup.clearLayers();
+        if (!rings) return;
+        [...rings.radii].sort((a, b) => b - a).forEach(radius => {
+            L.circle([rings.lat, rings.lon], {
+                radius, color: '#0f172a', weight: 1.5, dashArray: '4 4', fill: false, interactive: false
+            }).addTo(layerGroup);
+            L.tooltip({ permanent: true, direction: 'top' })
+                .setLatLng([rings.lat + radius / 111_320, rings.lon])
+                .setContent(`${radius}m`)
+                .addTo(layerGroup);
+        });
+        L.circleMarker([rings.lat, rings.lon], { radius: 7, color: '#fff', weight: 2, fillColor: '#0f172a', fillOpacity: 1 })
+            .bindPopup(`<b>${rings.label}</b>`)
+            .addTo(layerGroup);
+    }, [rings]);
+
     return <div ref={mapRef} className="w-full h-full min-h-[100px]" />;
 };
 
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import * as Icons from './Icons';
+import { DongSalesSource } from '../types';
+import { dongContributions, SalesWeighting, WEIGHTING_LABELS } from '../services/salesBlend';
+import { formatQuarter, SalesViewMode } from '../services/salesTrend';
+
+interface SalesDongSharesProps {
+  sources: DongSalesSource[];
+  weighting: SalesWeighting;
+  onWeightingChange: (weighting: SalesWeighting) => void;
+  quarter: string;                // 비중을 계산할 분기 (STDR_YYQU_CD)
+  mode: SalesViewMode;
+}
+
+const formatM2 = (m2: number) => m2 >= 1000000 ? `${(m2 / 1000000).toFixed(2)}㎢` : `${Math.round(m2).toLocaleString()}㎡`;
+
+/**
+ * 여러 행정동에 걸친 상권: 매출을 더한 동과 동별 기여 비중
+ */
+const SalesDongShares: React.FC<SalesDongSharesProps> = ({ sources, weighting, onWeightingChange, quarter, mode }) => {
+  const rows = useMemo(() => dongContributions(sources, weighting, quarter, mode), [sources, weighting, quarter, mode]);
+  const substituted = rows.filter(row => row.basis !== weighting);
+
+  return (
+    <div className="mb-8 p-4 bg-gray-50 rounded-xl border border-gray-200">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-3">
+        <h4 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+          <Icons.MapPin className="w-4 h-4 text-indigo-500" />
+          상권이 걸친 행정동 {sources.length}곳의 매출을 합산 ({formatQuarter(quarter)} 기여 비중)
+        </h4>
+        <div className="bg-white border p-1 rounded-lg flex">
+          {(Object.keys(WEIGHTING_LABELS) as SalesWeighting[]).map(key => (
+            <button
+              key={key}
+              onClick={() => onWeightingChange(key)}
+              className={`px-2 py-1 text-xs font-bold rounded-md transition ${weighting === key ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500'}`}
+            >
+              {WEIGHTING_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        * {weighting === 'area'
+          ? '각 동 면적 중 상권과 겹치는 면적의 비율만큼 그 동의 매출을 상권 매출로 배분합니다.'
+          : '각 동 전체 점포 중 상권 안에 있는 점포의 비율만큼 그 동의 매출을 상권 매출로 배분합니다.'}
+        {substituted.length > 0 && (
+          <span className="text-amber-700">
+            {' '}{weighting === 'area' ? '경계를 불러오지 못한' : '점포 수를 알 수 없는'} 동 {substituted.length}곳은 다른 방식으로 대신 배분했습니다.
+          </span>
+        )}
+      </p>
+      <div className="bg-white rounded-lg border overflow-x-auto">
+        <table className="w-full text-xs whitespace-nowrap">
+          <thead>
+            <tr className="text-gray-400 border-b">
+              <th className="text-left px-3 py-2 font-medium">행정동</th>
+              <th className="text-right px-3 py-2 font-medium">{weighting === 'area' ? '겹치는 면적 / 동 면적' : '상권 내 점포 / 동 점포'}</th>
+              <th className="text-right px-3 py-2 font-medium">배분 비율</th>
+              <th className="text-right px-3 py-2 font-medium">배분 {mode === 'amount' ? '매출' : '건수'}</th>
+              <th className="px-3 py-2 font-medium">기여 비중</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ source, weight, basis, value, share }) => (
+              <tr key={source.code} className="border-b last:border-0">
+                <td className="px-3 py-2 font-medium text-gray-800">{source.name}</td>
+                <td className="px-3 py-2 text-right text-gray-600">
+                  {basis === 'area' && `${formatM2(source.overlapArea)} / ${formatM2(source.dongArea)}`}
+                  {basis === 'stores' && `${source.zoneStores.toLocaleString()} / ${source.dongStores.toLocaleString()}개`}
+                  {basis === null && '경계·점포 수 없음'}
+                  {basis !== null && basis !== weighting && (
+                    <span className="ml-1 text-amber-600">({weighting === 'area' ? '경계 없음' : '점포 수 없음'} → {WEIGHTING_LABELS[basis]})</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-700">{basis ? `${(weight * 100).toFixed(1)}%` : '-'}</td>
+                <td className="px-3 py-2 text-right text-gray-700">{share === null ? '-' : value.toLocaleString()}</td>
+                <td className="px-3 py-2">
+                  {basis === null ? (
+                    <span className="text-amber-600">배분 비율 계산 불가 (합산에서 빠짐)</span>
+                  ) : share === null ? (
+                    <span className="text-gray-400">매출 데이터 없음</span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${share}%` }}></div>
+                      </div>
+                      <span className="font-bold text-indigo-600">{share.toFixed(1)}%</span>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SalesDongShares;
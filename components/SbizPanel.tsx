@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import * as Icons from './Icons';
+import ErrorNotice from './ErrorNotice';
+import { SbizDongStats, SbizSeries } from '../types';
+
+interface SbizPanelProps {
+  dongs: SbizDongStats[];         // 행정동 분석이면 1개, 상권 분석이면 걸친 동 (점포가 많은 동부터)
+  onRetry: (code: string) => Promise<void>;   // 실패한 지표가 있는 동 다시 조회
+}
+
+// "202502" → "2025년 02월"
+const formatYm = (ym: string) => ym && ym.length >= 6 ? `${ym.slice(0, 4)}년 ${ym.slice(4, 6)}월` : ym || "-";
+
+const ChartCard: React.FC<{ title: string; series: SbizSeries<any>; children: React.ReactNode }> = ({ title, series, children }) => (
+  <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+    <div className="flex justify-between items-center mb-2">
+      <h4 className="text-sm font-bold text-gray-700">{title}</h4>
+      <span className="text-[11px] text-gray-400">{formatYm(series.crtrYm)} 기준</span>
+    </div>
+    <div className="h-48">
+      <ResponsiveContainer width="100%" height="100%">
+        {children as React.ReactElement}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+/**
+ * 소상공인 상권정보(bizonSttus) 지표: 요약 카드와 분포 차트
+ * 지표마다 기준월이 달라 카드/차트마다 따로 표시합니다.
+ */
+const SbizPanel: React.FC<SbizPanelProps> = ({ dongs, onRetry }) => {
+  const [selected, setSelected] = useState(0);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const current = dongs[Math.min(selected, dongs.length - 1)];
+  if (!current) return null;
+  const { stats } = current;
+
+  const handleRetry = (code: string) => {
+    setRetrying(code);
+    onRetry(code).finally(() => setRetrying(null));
+  };
+  const countTooltip = (value: number) => `${value.toLocaleString()}명`;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {dongs.length > 1 && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-bold text-gray-700 mr-1">행정동별 지표</span>
+          {dongs.map((dong, i) => (
+            <button
+              key={dong.code}
+              onClick={() => setSelected(i)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition ${current.code === dong.code ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:border-blue-300'}`}
+            >
+              {dong.name} <span className="opacity-75 font-normal">(구역 내 점포 {dong.zoneStores.toLocaleString()}개)</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {current.error && (
+        <ErrorNotice
+          error={current.error}
+          onRetry={retrying ? undefined : () => handleRetry(current.code)}
+        />
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* 1. Population */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
+          <div className="bg-blue-100 p-2 rounded-full mb-2"><Icons.Users className="w-5 h-5 text-blue-600"/></div>
+          <h4 className="text-sm text-gray-500 font-medium">일 평균 유동인구</h4>
+          <p className="text-xl md:text-2xl font-bold text-gray-800 mt-1">{stats.population ? `${stats.population.total.toLocaleString()}명` : "-"}</p>
+          <span className="text-xs text-gray-400 mt-1">{stats.population ? `${formatYm(stats.population.crtrYm)} 기준` : ""}</span>
+        </div>
+        {/* 2. Max Revenue */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
+          <div className="bg-yellow-100 p-2 rounded-full mb-2"><Icons.Wallet className="w-5 h-5 text-yellow-600"/></div>
+          <h4 className="text-sm text-gray-500 font-medium">매출 1위 업종</h4>
+          <p className="text-lg md:text-xl font-bold text-gray-800 mt-1 break-keep leading-tight px-1">{stats.maxSales?.type || "-"}</p>
+          {stats.maxSales && (
+            <div className="text-xs text-gray-400 mt-1 flex flex-col items-center">
+              <span>월 평균 매출 {stats.maxSales.amount.toLocaleString()}만원 ({stats.maxSales.percent}%)</span>
+              <span className="text-[10px] text-gray-300 mt-0.5">{formatYm(stats.maxSales.crtrYm)} 기준</span>
+            </div>
+          )}
+        </div>
+        {/* 3. Delivery */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col items-center text-center">
+          <div className="bg-green-100 p-2 rounded-full mb-2"><Icons.Truck className="w-5 h-5 text-green-600"/></div>
+          <h4 className="text-sm text-gray-500 font-medium">배달 피크 요일</h4>
+          <p className="text-xl md:text-2xl font-bold text-gray-800 mt-1">{stats.delivery?.day ? `${stats.delivery.day}요일` : "-"}</p>
+          {stats.delivery && (
+            <div className="text-xs text-gray-400 mt-1 flex flex-col items-center">
+              <span>월 평균 {stats.delivery.count.toLocaleString()}건 ({Number(stats.delivery.percent).toFixed(1)}%)</span>
+              <span className="text-[10px] text-gray-300 mt-0.5">{formatYm(stats.delivery.crtrYm)} 기준</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {stats.ageDistribution && (
+          <ChartCard title="방문 연령 분포 (일 평균)" series={stats.ageDistribution}>
+            <BarChart data={stats.ageDistribution.items} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="age" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} width={48} tickFormatter={(v: number) => v.toLocaleString()} />
+              <Tooltip formatter={countTooltip} />
+              <Bar dataKey="count" name="방문 인구" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartCard>
+        )}
+        {stats.timePopulation && (
+          <ChartCard title="시간대별 유동인구" series={stats.timePopulation}>
+            <BarChart data={stats.timePopulation.items} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="slot" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} width={48} tickFormatter={(v: number) => v.toLocaleString()} />
+              <Tooltip formatter={countTooltip} />
+              <Bar dataKey="count" name="유동인구" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartCard>
+        )}
+        {stats.dowPopulation && (
+          <ChartCard title="요일별 유동인구" series={stats.dowPopulation}>
+            <BarChart data={stats.dowPopulation.items} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="day" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} width={48} tickFormatter={(v: number) => v.toLocaleString()} />
+              <Tooltip formatter={countTooltip} />
+              <Bar dataKey="count" name="유동인구" fill="#10b981" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartCard>
+        )}
+        {stats.salesRank && (
+          <ChartCard title="업종별 월 평균 매출 (만원)" series={stats.salesRank}>
+            <BarChart data={stats.salesRank.items.slice(0, 8)} layout="vertical" margin={{ top: 0, right: 10, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toLocaleString()} />
+              <YAxis type="category" dataKey="type" tick={{ fontSize: 11 }} width={80} />
+              <Tooltip formatter={(value: number) => `${value.toLocaleString()}만원`} />
+              <Bar dataKey="amount" name="월 평균 매출" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ChartCard>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SbizPanel;
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid, ReferenceLine } from 'recharts';
+import * as Icons from './Icons';
+import { SeoulSalesData } from '../types';
+import { buildTrend, industryHistory, seasonalIndex, SalesViewMode, TrendGroup, TREND_GROUPS } from '../services/salesTrend';
+
+interface SeoulSalesTrendProps {
+  history: SeoulSalesData[];      // 오래된 분기 → 최근 분기
+  industry: string | null;        // 업종 필터 (null이면 전체 업종)
+  mode: SalesViewMode;
+}
+
+const LINE_COLORS = ['#6366f1', '#f43f5e', '#10b981', '#f59e0b', '#0ea5e9', '#8b5cf6'];
+
+const formatValue = (value: number) => {
+  if (Math.abs(value) >= 100000000) return `${(value / 100000000).toFixed(1)}억`;
+  if (Math.abs(value) >= 100000) return `${(value / 10000).toFixed(0)}만`;
+  return value.toLocaleString();
+};
+
+const GrowthBadge: React.FC<{ value: number | null }> = ({ value }) => {
+  if (value === null) return <span className="text-gray-300">-</span>;
+  const color = value > 0 ? 'text-red-500' : value < 0 ? 'text-blue-500' : 'text-gray-500';
+  return <span className={`font-bold ${color}`}>{value > 0 ? '▲' : value < 0 ? '▼' : ''}{Math.abs(value).toFixed(1)}%</span>;
+};
+
+/**
+ * 서울시 추정매출 분기별 추이
+ * 지표 묶음(전체/주중·주말/시간대/연령대)별로 추세선, 최근 분기의 QoQ·YoY 증감률, 분기 계절 지수를 보여줍니다.
+ */
+const SeoulSalesTrend: React.FC<SeoulSalesTrendProps> = ({ history, industry, mode }) => {
+  const [group, setGroup] = useState<TrendGroup>('total');
+  const metrics = TREND_GROUPS[group].metrics;
+
+  const points = useMemo(() => {
+    const series = industry ? industryHistory(history, industry) : history;
+    return buildTrend(series, metrics, mode);
+  }, [history, industry, metrics, mode]);
+
+  const seasonality = useMemo(() => {
+    const indices = metrics.map(metric => seasonalIndex(points, metric.key));
+    if (indices.some(index => index === null)) return null;
+    return [1, 2, 3, 4].map(q => {
+      const row: Record<string, number | string> = { label: `${q}분기` };
+      metrics.forEach((metric, i) => { row[metric.key] = Math.round(indices[i]![q - 1] * 10) / 10; });
+      return row;
+    });
+  }, [points, metrics]);
+
+  if (points.length < 2) {
+    return (
+      <div className="mb-6 p-4 bg-gray-50 rounded-xl border border-gray-200 text-xs text-gray-500">
+        분기별 추이를 보려면 2개 분기 이상의 매출 데이터가 필요합니다.
+      </div>
+    );
+  }
+
+  const latest = points[points.length - 1];
+  const chartData = points.map(point => ({ label: point.label, ...point.values }));
+
+  return (
+    <div className="mb-8 p-4 bg-gray-50 rounded-xl border border-gray-200">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-4">
+        <h4 className="font-bold text-gray-700 text-sm flex items-center gap-2">
+          <Icons.TrendingUp className="w-4 h-4 text-indigo-500" />
+          분기별 {mode === 'amount' ? '매출' : '건수'} 추이 ({points[0].label} ~ {latest.label})
+        </h4>
+        <div className="bg-white border p-1 rounded-lg flex">
+          {(Object.keys(TREND_GROUPS) as TrendGroup[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setGroup(key)}
+              className={`px-2 py-1 text-xs font-bold rounded-md transition ${group === key ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500'}`}
+            >
+              {TREND_GROUPS[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-64 bg-white rounded-lg border p-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatValue} tick={{ fontSize: 11 }} width={56} />
+            <Tooltip formatter={(value: number) => value.toLocaleString()} />
+            {metrics.length > 1 && <Legend wrapperStyle={{ fontSize: 11 }} />}
+            {metrics.map((metric, i) => (
+              <Line key={metric.key} type="monotone" dataKey={metric.key} name={metric.label} stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth={2} dot={{ r: 3 }} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        {/* 최근 분기 증감률 */}
+        <div className="bg-white rounded-lg border p-3">
+          <p className="text-xs font-bold text-gray-600 mb-2">{latest.label} 증감률</p>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 border-b">
+                <th className="text-left py-1 font-medium">구분</th>
+                <th className="text-right py-1 font-medium">{mode === 'amount' ? '매출' : '건수'}</th>
+                <th className="text-right py-1 font-medium">전분기 대비</th>
+                <th className="text-right py-1 font-medium">전년 동기 대비</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(metric => (
+                <tr key={metric.key} className="border-b last:border-0">
+                  <td className="py-1 text-gray-700">{metric.label}</td>
+                  <td className="py-1 text-right text-gray-700">{formatValue(latest.values[metric.key])}</td>
+                  <td className="py-1 text-right"><GrowthBadge value={latest.qoq[metric.key]} /></td>
+                  <td className="py-1 text-right"><GrowthBadge value={latest.yoy[metric.key]} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* 계절성 */}
+        <div className="bg-white rounded-lg border p-3">
+          <p className="text-xs font-bold text-gray-600 mb-2">분기 계절 지수 (평균 = 100)</p>
+          {seasonality ? (
+            <div className="h-36">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={seasonality} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis domain={['dataMin - 5', 'dataMax + 5']} tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toFixed(0)} />
+                  <Tooltip />
+                  <ReferenceLine y={100} stroke="#9ca3af" strokeDasharray="3 3" />
+                  {metrics.map((metric, i) => (
+                    <Bar key={metric.key} dataKey={metric.key} name={metric.label} fill={LINE_COLORS[i % LINE_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400 py-6 text-center">계절성은 연속된 분기 데이터가 2년 가까이 쌓여야 계산됩니다.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeoulSalesTrend;
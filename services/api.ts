@@ -1,4 +1,11 @@
-import { Zone, Store, SbizStats, SeoulSalesData } from '../types';
+import { Zone, ZoneGeometry, Store, DongSalesSource, SbizStats, SbizSeries, SbizDongStats, CensusStats, SeoulSalesData, StoreFetchOptions, StoreFetchResult, FetchCompleteness } from '../types';
+import { fetchAllPages, PageResponse } from './paging';
+import { cacheGet, cacheSet, DAY_MS } from './cache';
+import { getDataSource, StoreListQuery, AdminAreaLevel, SgisStatsEndpoint, SbizEndpoint, RequestOptions } from './sources';
+import { extractHeader, extractItems, extractTotalCount, normalizeStores, normalizeZones, RawRecord } from './normalize';
+import { ApiError, fromDataPortalCode, fromSgisErrCd, fromVworldError, isApiError, toApiError } from './errors';
+import { lookupSeoulSalesHistory } from './seoulSales';
+import { dissolve, fromGeoJSON, geometryArea, geometryBounds, intersectionArea, pointInGeometry } from './geometry';
 
 // Declare proj4 global
 declare const proj4: any;
@@ -8,44 +15,27 @@ const PROJ_WGS84 = 'EPSG:4326';
 // SGIS uses UTM-K (GRS80)
 const PROJ_5179 = "+proj=tmerc +lat_0=38 +lon_0=127.5 +k=0.9996 +x_0=1000000 +y_0=2000000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs";
 
-/**
- * 환경 변수 로드 헬퍼
- */
-const getEnvVar = (key: string): string => {
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env) {
-        // @ts-ignore
-        return import.meta.env[key] || "";
-    }
-    return "";
-};
-
-// Load Keys from Environment
-const DATA_API_KEY = getEnvVar("VITE_DATA_API_KEY");
-const VWORLD_KEY = getEnvVar("VITE_VWORLD_KEY");
-const SGIS_ID = getEnvVar("VITE_SGIS_SERVICE_ID");
-const SGIS_SECRET = getEnvVar("VITE_SGIS_SECRET_KEY");
+// 실제 네트워크 호출은 데이터 소스(services/sources)가 담당하고,
+// 이 모듈은 응답 해석과 캐시, 페이지 수집을 담당합니다.
 
-// API Endpoints (Using Local Proxy via vite.config.ts or vercel.json)
-// V-World supports JSONP/CORS natively, so we keep it direct.
-const VWORLD_BASE_URL = "https://api.vworld.kr/req/search";
+// --- Cache ---
+// 메모리 캐시(현재 세션) → IndexedDB 캐시(services/cache.ts) 순으로 조회
+const polygonCache = new Map<string, ZoneGeometry>();
 
-// Proxied Endpoints
-const BASE_URL = "/api/public";
-const SGIS_BASE_URL = "/api/sgis";
-const SBIZ_BASE_URL_PROXY = "/api/sbiz";
+const STORE_CACHE_TTL = 30 * DAY_MS;    // 키에 데이터 기준월(stdrYm)이 포함되므로 길게 유지
+const POLYGON_CACHE_TTL = 90 * DAY_MS;
+const SBIZ_CACHE_TTL = 7 * DAY_MS;
+const CENSUS_CACHE_TTL = 90 * DAY_MS;   // 연 1회 공표
 
-// --- Cache ---
-const polygonCache = new Map<string, number[][][]>();
+// 소스별로 캐시를 분리 (녹화 응답이 실제 데이터 캐시에 섞이지 않도록)
+const sourceCacheKey = (key: string) => `${getDataSource().name}:${key}`;
 
 // --- Helpers ---
 
-const getFormattedKey = (key: string) => {
-    if (!key) return "";
-    return key.includes('%') ? key : encodeURIComponent(key);
-};
-
-const parseXmlError = (text: string) => {
+/**
+ * 공공데이터포털 XML 오류 응답(OpenAPI_ServiceResponse) 해석
+ */
+const parseXmlError = (text: string): ApiError => {
     try {
         const parser = new DOMParser();
         const xml = parser.parseFromString(text, "text/xml");
@@ -53,109 +43,44 @@ const parseXmlError = (text: string) => {
         const errMsg = xml.getElementsByTagName("errMsg")[0]?.textContent;
         const returnReasonCode = xml.getElementsByTagName("returnReasonCode")[0]?.textContent;
         
-        if (authMsg) return `API 인증 오류: ${authMsg} (코드: ${returnReasonCode})`;
-        if (errMsg) return `API 오류: ${errMsg}`;
-        return "API에서 알 수 없는 오류(XML)가 반환되었습니다.";
+        if (authMsg) return fromDataPortalCode(returnReasonCode, `API 인증 오류: ${authMsg}`);
+        if (errMsg) return fromDataPortalCode(returnReasonCode, `API 오류: ${errMsg}`);
+        return new ApiError('parse', "API에서 알 수 없는 오류(XML)가 반환되었습니다.", { source: 'data.go.kr' });
     } catch (e) {
-        return "API 응답을 처리하는 중 오류가 발생했습니다.";
+        return new ApiError('parse', "API 응답을 처리하는 중 오류가 발생했습니다.", { source: 'data.go.kr', cause: e });
     }
 };
 
-// --- Network Helpers ---
-
-const fetchJsonp = (url: string, callbackParam = 'callback'): Promise<any> => {
-    return new Promise((resolve, reject) => {
-        const script = document.createElement('script');
-        const callbackName = `jsonp_callback_${Math.round(100000 * Math.random())}`;
-        // @ts-ignore
-        window[callbackName] = (data: any) => {
-            // @ts-ignore
-            delete window[callbackName];
-            document.body.removeChild(script);
-            resolve(data);
-        };
-        script.src = `${url}&${callbackParam}=${callbackName}`;
-        script.onerror = () => {
-            // @ts-ignore
-            delete window[callbackName];
-            document.body.removeChild(script);
-            reject(new Error('JSONP Request Failed'));
-        };
-        document.body.appendChild(script);
-    });
-};
+// JSON 응답 헤더의 resultCode ("00": 정상, "03": 데이터 없음)
+const DATA_PORTAL_OK = "00";
+const DATA_PORTAL_NO_DATA = "03";
 
-/**
- * Standard Fetch Wrapper
- * No longer requires external proxies. Vercel/Vite handles CORS.
- */
-const fetchStandard = async (url: string): Promise<string> => {
-    try {
-        const response = await fetch(url);
-        if (!response.ok) {
-            // Check if it's a 403/500 from the target API
-            throw new Error(`HTTP status ${response.status}`);
-        }
-        return await response.text();
-    } catch (e: any) {
-        console.warn(`Fetch failed for ${url}:`, e);
-        throw new Error(`데이터 요청 실패: ${e.message}`);
-    }
+const checkDataPortalHeader = (json: any) => {
+    const header = extractHeader(json);
+    const resultCode = header.resultCode ? String(header.resultCode) : "";
+    if (!resultCode || resultCode === DATA_PORTAL_OK || resultCode === DATA_PORTAL_NO_DATA) return;
+    throw fromDataPortalCode(String(Number(resultCode)), `API 오류: ${header.resultMsg || resultCode}`);
 };
 
-// --- SGIS Helpers ---
-
-let sgisAccessToken: string | null = null;
-let tokenExpiry: number = 0;
-
-const getSgisToken = async (): Promise<string> => {
-    if (sgisAccessToken && Date.now() < tokenExpiry - 300000) {
-        return sgisAccessToken;
-    }
-
-    if (!SGIS_ID || !SGIS_SECRET) {
-        throw new Error("SGIS API 키가 설정되지 않았습니다.");
-    }
-
-    const url = `${SGIS_BASE_URL}/auth/authentication.json?consumer_key=${SGIS_ID}&consumer_secret=${SGIS_SECRET}`;
-    
-    let responseText;
-    try {
-        responseText = await fetchStandard(url);
-    } catch (e: any) {
-        throw new Error(`SGIS 인증 실패: ${e.message}`);
-    }
-
-    const data = JSON.parse(responseText);
-    if (data.errCd === 0 && data.result) {
-        sgisAccessToken = data.result.accessToken;
-        const timeoutMs = parseInt(data.result.accessTimeout, 10) || 14400000;
-        tokenExpiry = Date.now() + timeoutMs;
-        return sgisAccessToken as string;
-    } else {
-        throw new Error(`SGIS Auth Error: ${data.errMsg}`);
-    }
-};
+// 인증/한도 오류를 다른 오류보다 우선해서 보여주기 위한 순위
+const ERROR_PRIORITY = ['auth', 'quota', 'upstream', 'parse', 'partial', 'no_data'];
+const mostSevere = (errors: ApiError[]) => [...errors].sort((a, b) => ERROR_PRIORITY.indexOf(a.kind) - ERROR_PRIORITY.indexOf(b.kind))[0];
 
 // --- API Functions ---
 
 export const searchAddress = async (address: string): Promise<any> => {
-    if (!VWORLD_KEY) throw new Error("V-World API Key가 누락되었습니다.");
-    let errorDetails: string[] = [];
+    const failures: ApiError[] = [];
     
-    // V-World uses JSONP, so it doesn't need proxy
     const runSearch = async (searchType: string, category?: string) => {
-        let baseUrl = `${VWORLD_BASE_URL}?service=search&request=search&version=2.0&crs=EPSG:4326&size=10&page=1&query=${encodeURIComponent(address)}&type=${searchType}&format=json&errorformat=json&key=${VWORLD_KEY}`;
-        if (category) baseUrl += `&category=${category}`;
         try {
-            const data = await fetchJsonp(baseUrl);
+            const data = JSON.parse(await getDataSource().searchAddress(address, searchType, category));
             if (data.response.status === "OK" && data.response.result?.items?.length > 0) return data.response.result.items[0];
             else {
-                if (data.response.status !== "NOT_FOUND") errorDetails.push(`[${searchType}] ${data.response.error?.text || data.response.status}`);
+                if (data.response.status !== "NOT_FOUND") failures.push(fromVworldError(data.response.error?.code, `[${searchType}] ${data.response.error?.text || data.response.status}`));
                 return null;
             }
         } catch (e: any) {
-            errorDetails.push(`[${searchType}] Network Error: ${e.message}`);
+            failures.push(toApiError(e, 'vworld', e instanceof SyntaxError ? 'parse' : 'upstream'));
             return null;
         }
     };
@@ -165,142 +90,150 @@ export const searchAddress = async (address: string): Promise<any> => {
     if (!item) item = await runSearch("PLACE");
     if (item) return item;
     
-    throw new Error(`검색 결과가 없습니다.`);
+    // 결과가 없는 것과 검색 자체가 실패한 것을 구분
+    if (failures.length > 0) throw mostSevere(failures);
+    throw new ApiError('no_data', "검색 결과가 없습니다.", { source: 'vworld' });
 };
 
 export const searchZones = async (lat: number, lon: number): Promise<Zone[]> => {
-    if (!DATA_API_KEY) throw new Error("공공데이터 API Key가 누락되었습니다.");
     const SEARCH_RADIUS = 500;
     
-    const serviceKey = getFormattedKey(DATA_API_KEY);
-    const zoneUrl = `${BASE_URL}/storeZoneInRadius?radius=${SEARCH_RADIUS}&cx=${lon}&cy=${lat}&serviceKey=${serviceKey}&type=json`;
-    
-    const zoneText = await fetchStandard(zoneUrl);
+    const zoneText = await getDataSource().searchZones(lat, lon, SEARCH_RADIUS);
     
     if (zoneText.trim().startsWith('<')) {
-        throw new Error(parseXmlError(zoneText));
+        throw parseXmlError(zoneText);
     }
 
-    let zones: Zone[] = [];
+    let zoneJson: any;
     try {
-        const zoneJson = JSON.parse(zoneText);
-        if (zoneJson.body && zoneJson.body.items) {
-            zones = Array.isArray(zoneJson.body.items) ? zoneJson.body.items : [zoneJson.body.items];
-            zones = zones.map((item: any) => ({ ...item, type: 'trade' }));
-        }
+        zoneJson = JSON.parse(zoneText);
     } catch (e) {
-        throw new Error("상권 데이터 파싱 실패");
+        throw new ApiError('parse', "상권 데이터 파싱 실패", { source: 'data.go.kr', cause: e });
     }
+    checkDataPortalHeader(zoneJson);
+
+    const { zones, report } = normalizeZones(extractItems(zoneJson));
+    if (report.accepted < report.received) console.warn("Dropped malformed zones:", report.dropped);
     
-    if (zones.length === 0) throw new Error("주변 상권 정보가 없습니다.");
+    if (zones.length === 0) throw new ApiError('no_data', "주변 상권 정보가 없습니다.", { source: 'data.go.kr' });
     return zones;
 };
 
-export const fetchStores = async (zoneNo: string, onProgress: (msg: string) => void): Promise<{ stores: Store[], stdrYm: string }> => {
-    if (!DATA_API_KEY) throw new Error("API Key Missing");
-    const PAGE_SIZE = 500;
-    let allStores: Store[] = [];
-    let totalCount = 0;
-    let stdrYm = "";
-    
-    const serviceKey = getFormattedKey(DATA_API_KEY);
-    const firstUrl = `${BASE_URL}/storeListInArea?key=${zoneNo}&numOfRows=${PAGE_SIZE}&pageNo=1&serviceKey=${serviceKey}&type=json`;
-    
-    const firstText = await fetchStandard(firstUrl);
-    
-    if (firstText.trim().startsWith('<')) {
-        throw new Error(parseXmlError(firstText));
+const STORE_PAGE_SIZE = 500;
+
+// 캐시에 저장하는 결과 형식이 바뀌면 올려서 이전 항목을 무시
+const STORE_CACHE_VERSION = 3;
+
+const parseStorePage = (text: string): PageResponse<RawRecord> => {
+    if (text.trim().startsWith('<')) {
+        throw parseXmlError(text);
     }
 
+    let listJson: any;
     try {
-        const listJson = JSON.parse(firstText);
-        if (listJson.header?.stdrYm) stdrYm = String(listJson.header.stdrYm);
-        else if (listJson.response?.header?.stdrYm) stdrYm = String(listJson.response.header.stdrYm);
-        let items = listJson.body?.items || listJson.response?.body?.items;
-        if (items) {
-            allStores = Array.isArray(items) ? items : [items];
-            totalCount = listJson.body?.totalCount || listJson.response?.body?.totalCount || allStores.length;
-        }
-    } catch (e) {}
+        listJson = JSON.parse(text);
+    } catch (e) {
+        // 잘린 응답일 수 있으므로 재시도 대상
+        throw new ApiError('parse', "상가 목록 데이터 파싱 실패", { source: 'data.go.kr', retryable: true, cause: e });
+    }
+    checkDataPortalHeader(listJson);
 
-    const totalPages = Math.ceil(totalCount / PAGE_SIZE);
-    
-    if (totalPages > 1) {
-        const BATCH_SIZE = 3;
-        let consecutiveErrors = 0;
-
-        for (let i = 2; i <= totalPages; i += BATCH_SIZE) {
-            const endPage = Math.min(i + BATCH_SIZE - 1, totalPages);
-            onProgress(`${i}~${endPage} / ${totalPages} 페이지 데이터 수집 중...`);
-
-            const promises = [];
-            for (let page = i; page <= endPage; page++) {
-                const nextUrl = `${BASE_URL}/storeListInArea?key=${zoneNo}&numOfRows=${PAGE_SIZE}&pageNo=${page}&serviceKey=${serviceKey}&type=json`;
-                promises.push(
-                    fetchStandard(nextUrl)
-                        .then(text => {
-                            if (text.trim().startsWith('<')) return null;
-                            const json = JSON.parse(text);
-                            return json.body?.items || json.response?.body?.items;
-                        })
-                        .then(items => {
-                            if (items) return Array.isArray(items) ? items : [items];
-                            return null;
-                        })
-                        .catch(() => null)
-                );
-            }
+    // 정규화는 전체 페이지를 모은 뒤 한 번에 수행 (페이지 간 중복 제거를 위해)
+    const items = extractItems(listJson);
+    const stdrYm = String(extractHeader(listJson).stdrYm || "");
+    const totalCount = extractTotalCount(listJson) || items.length;
+    return { items, totalCount, stdrYm };
+};
 
-            const results = await Promise.all(promises);
-            const validResults = results.filter(r => r !== null);
+/**
+ * 상가 목록 API(storeListInArea, storeListInDong 등) 공용 페이지 수집
+ * 첫 페이지 이후 빈 페이지는 일시적 오류로 보고 재시도 대상이 됩니다.
+ *
+ * 캐시 키는 "구역 키 + 데이터 기준월"이므로, 1건짜리 요청으로 현재 기준월을 먼저 확인한 뒤
+ * 같은 기준월의 완전한 수집 결과가 있으면 그대로 사용합니다.
+ */
+const fetchStorePages = async (query: StoreListQuery, cacheKey: string, onProgress: (msg: string) => void, options: StoreFetchOptions): Promise<StoreFetchResult> => {
+    const source = getDataSource();
+    if (!options.checkpoint && !options.refresh) {
+        const probe = parseStorePage(await source.listStores(query, 1, 1, { signal: options.signal, priority: 'high' }));
+        const cached = await cacheGet<Omit<StoreFetchResult, 'checkpoint' | 'fromCache'>>(sourceCacheKey(`stores:v${STORE_CACHE_VERSION}:${cacheKey}:${probe.stdrYm}`));
+        if (cached) return { ...cached, checkpoint: null, fromCache: true };
+    }
 
-            if (validResults.length === 0) {
-                consecutiveErrors++;
-            } else {
-                consecutiveErrors = 0;
-                validResults.forEach(items => {
-                    allStores = [...allStores, ...items];
-                });
-            }
-            
-            if (consecutiveErrors >= 2) break;
-            await new Promise(r => setTimeout(r, 50));
-        }
+    const result = await fetchAllPages<RawRecord>(async (pageNo, signal) => {
+        const page = parseStorePage(await source.listStores(query, pageNo, STORE_PAGE_SIZE, { signal, priority: 'high' }));
+        if (pageNo > 1 && page.items.length === 0) throw new ApiError('upstream', `${pageNo} 페이지 응답이 비어 있습니다.`, { source: 'data.go.kr' });
+        return page;
+    }, {
+        pageSize: STORE_PAGE_SIZE,
+        signal: options.signal,
+        checkpoint: options.checkpoint,
+        onProgress
+    });
+
+    const { stores, report: validation } = normalizeStores(result.items);
+    if (validation.accepted < validation.received) console.warn("Dropped malformed stores:", validation.dropped);
+
+    // 누락 없이 수집된 결과만 저장 (부분 데이터가 캐시로 굳지 않도록)
+    if (result.report.complete) {
+        await cacheSet(sourceCacheKey(`stores:v${STORE_CACHE_VERSION}:${cacheKey}:${result.stdrYm}`), { stores, stdrYm: result.stdrYm, report: result.report, validation }, STORE_CACHE_TTL);
     }
-    return { stores: allStores, stdrYm };
+    return {
+        stores,
+        stdrYm: result.stdrYm,
+        report: result.report,
+        validation,
+        checkpoint: result.checkpoint,
+        fromCache: false,
+        warning: result.report.complete ? undefined : partialDataError(result.report, result.lastError)
+    };
 };
 
-const fetchBaroApi = async (resId: string, catId: string, extraParams: string = "") => {
-    const serviceKey = getFormattedKey(DATA_API_KEY);
-    const url = `${BASE_URL}/baroApi?resId=${resId}&catId=${catId}&type=json&serviceKey=${serviceKey}${extraParams}`;
-    const text = await fetchStandard(url);
-    if (text.trim().startsWith('<')) return [];
+const partialDataError = (report: FetchCompleteness, lastError: unknown): ApiError => {
+    const cause = isApiError(lastError) ? lastError : undefined;
+    return new ApiError('partial',
+        `전체 ${report.pagesExpected}페이지 중 ${report.missingPages.length}페이지를 불러오지 못해 ` +
+        `점포 ${report.collectedCount.toLocaleString()}개 / ${report.totalCount.toLocaleString()}개 기준으로 집계되었습니다. ` +
+        `점포 수와 비율이 실제보다 낮게 표시될 수 있습니다.`,
+        { source: cause?.source || 'data.go.kr', code: cause?.code, retryable: cause?.retryable ?? true, cause: lastError });
+};
+
+export const fetchStores = async (zoneNo: string, onProgress: (msg: string) => void, options: StoreFetchOptions = {}): Promise<StoreFetchResult> => {
+    return fetchStorePages({ kind: 'area', key: zoneNo }, `area:${zoneNo}`, onProgress, options);
+};
+
+const fetchBaroApi = async (level: AdminAreaLevel, parentCode?: string) => {
+    const text = await getDataSource().listAdminAreas(level, parentCode);
+    if (text.trim().startsWith('<')) throw parseXmlError(text);
+
+    let json: any;
     try {
-        const json = JSON.parse(text);
-        if (json.body?.items) return Array.isArray(json.body.items) ? json.body.items : [json.body.items];
-        if (json.items) return Array.isArray(json.items) ? json.items : [json.items];
-        return [];
-    } catch (e) { return []; }
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new ApiError('parse', "행정구역 목록 파싱 실패", { source: 'data.go.kr', cause: e });
+    }
+    checkDataPortalHeader(json);
+    return extractItems(json) as any[];
 };
 
+const noAdminArea = (message: string) => new ApiError('no_data', message, { source: 'data.go.kr' });
+
 export const searchAdminDistrict = async (sido: string, sigungu: string, dong: string): Promise<Zone[]> => {
-    if (!DATA_API_KEY) throw new Error("API Key Missing");
-    
-    if (!sido) throw new Error("시/도 정보를 찾을 수 없습니다.");
+    if (!sido) throw noAdminArea("시/도 정보를 찾을 수 없습니다.");
 
-    const sidos = await fetchBaroApi('dong', 'mega');
+    const sidos = await fetchBaroApi('mega');
     const targetSido = sidos.find((s: any) => s.ctprvnNm.includes(sido) || sido.includes(s.ctprvnNm));
     
-    if (!targetSido) throw new Error(`행정구역(시도)을 찾을 수 없습니다: ${sido}`);
+    if (!targetSido) throw noAdminArea(`행정구역(시도)을 찾을 수 없습니다: ${sido}`);
     
     let adminZones: Zone[] = [];
 
     if (sigungu) {
-        const sigungus = await fetchBaroApi('dong', 'cty', `&ctprvnCd=${targetSido.ctprvnCd}`);
+        const sigungus = await fetchBaroApi('cty', targetSido.ctprvnCd);
         const targetSigungu = sigungus.find((s: any) => s.signguNm.includes(sigungu) || sigungu.includes(s.signguNm));
         
         if (targetSigungu) {
-            const dongs = await fetchBaroApi('dong', 'admi', `&signguCd=${targetSigungu.signguCd}`);
+            const dongs = await fetchBaroApi('admi', targetSigungu.signguCd);
             let filteredDongs = dongs;
             
             if (dong) {
@@ -315,205 +248,218 @@ export const searchAdminDistrict = async (sido: string, sigungu: string, dong: s
                 }
             }
 
+            // 시군구 전체 분석 (경계는 관할 행정동을 합쳐 그림)
+            const district: Zone = {
+                trarNo: targetSigungu.signguCd,
+                mainTrarNm: `${targetSido.ctprvnNm} ${targetSigungu.signguNm}`,
+                ctprvnNm: targetSido.ctprvnNm,
+                signguNm: targetSigungu.signguNm,
+                trarArea: 0,
+                coords: "",
+                type: 'admin',
+                adminCode: targetSigungu.signguCd,
+                adminLevel: 'signguCd',
+                subAreas: dongs.map((d: any) => ({ code: d.adongCd, name: d.adongNm }))
+            };
+
             adminZones = filteredDongs.map((d: any) => ({
                 trarNo: d.adongCd,
                 mainTrarNm: `${targetSido.ctprvnNm} ${targetSigungu.signguNm} ${d.adongNm}`,
                 ctprvnNm: targetSido.ctprvnNm,
                 signguNm: targetSigungu.signguNm,
-                trarArea: "0",
+                trarArea: 0,
                 coords: "",
                 type: 'admin',
                 adminCode: d.adongCd,
                 adminLevel: 'adongCd'
             }));
+            if (dongs.length > 0) adminZones.push(district);
         } else {
-             throw new Error(`행정구역(시군구)을 찾을 수 없습니다: ${sigungu}`);
+             throw noAdminArea(`행정구역(시군구)을 찾을 수 없습니다: ${sigungu}`);
         }
     } else {
-        throw new Error("시군구 단위까지 정보가 필요합니다.");
+        throw noAdminArea("시군구 단위까지 정보가 필요합니다.");
     }
 
-    if (adminZones.length === 0) throw new Error("해당 조건에 맞는 행정동을 찾을 수 없습니다.");
+    if (adminZones.length === 0) throw noAdminArea("해당 조건에 맞는 행정동을 찾을 수 없습니다.");
     return adminZones;
 };
 
-export const fetchLocalAdminPolygon = async (zone: Zone): Promise<number[][][]> => {
+/**
+ * 행정구역명 → SGIS 주소 검색 첫 결과 (adm_cd, sido_cd, sgg_cd 등), 결과가 없으면 null
+ */
+const geocodeSgis = async (name: string, options: RequestOptions): Promise<any | null> => {
+    const geoData = JSON.parse(await getDataSource().geocodeAdminArea(name, options));
+    if (geoData.errCd === 0 && geoData.result?.resultdata?.length > 0) return geoData.result.resultdata[0];
+    if (geoData.errCd !== 0 && geoData.errCd !== undefined) {
+        throw fromSgisErrCd(geoData.errCd, `SGIS 오류: ${geoData.errMsg || geoData.errCd}`);
+    }
+    return null;
+};
+
+/**
+ * 행정동 경계 조회 (SGIS)
+ * 목록의 모든 동을 미리 받을 때는 priority: 'low', 화면에 펼친 동은 'high'로 요청합니다.
+ * 시군구는 관할 행정동 경계를 받아 합칩니다. (fetchDistrictPolygon)
+ */
+export const fetchLocalAdminPolygon = async (zone: Zone, options: RequestOptions = {}): Promise<ZoneGeometry> => {
+    if (zone.adminLevel === 'signguCd') return fetchDistrictPolygon(zone, options);
     if (polygonCache.has(zone.mainTrarNm)) {
         return polygonCache.get(zone.mainTrarNm)!;
     }
+    const cacheKey = sourceCacheKey(`polygon:v2:${zone.mainTrarNm}`);
+    const cached = await cacheGet<ZoneGeometry>(cacheKey);
+    if (cached) {
+        polygonCache.set(zone.mainTrarNm, cached);
+        return cached;
+    }
 
     try {
-        const token = await getSgisToken();
-        
-        const geoUrl = `${SGIS_BASE_URL}/addr/geocode.json?accessToken=${token}&address=${encodeURIComponent(zone.mainTrarNm)}`;
-        
-        let geoResStr = await fetchStandard(geoUrl);
-        const geoData = JSON.parse(geoResStr);
-        
-        let admCd = "";
-        if (geoData.errCd === 0 && geoData.result?.resultdata?.length > 0) {
-            admCd = geoData.result.resultdata[0].adm_cd;
-        } else {
-            return [];
-        }
+        const source = getDataSource();
+        const place = await geocodeSgis(zone.mainTrarNm, options);
+        if (!place) return [];
+        const admCd = place.adm_cd;
 
         const currentYear = new Date().getFullYear().toString();
-        let boundUrl = `${SGIS_BASE_URL}/boundary/hadmarea.geojson?accessToken=${token}&adm_cd=${admCd}&year=${currentYear}&low_search=0`;
-        
-        let boundResStr = await fetchStandard(boundUrl);
-        let boundData = JSON.parse(boundResStr);
+        let boundData = JSON.parse(await source.fetchAdminBoundary(admCd, currentYear, options));
 
         if (!boundData.features || boundData.features.length === 0) {
              const prevYear = (new Date().getFullYear() - 1).toString();
-             boundUrl = `${SGIS_BASE_URL}/boundary/hadmarea.geojson?accessToken=${token}&adm_cd=${admCd}&year=${prevYear}&low_search=0`;
-             boundResStr = await fetchStandard(boundUrl);
-             boundData = JSON.parse(boundResStr);
+             boundData = JSON.parse(await source.fetchAdminBoundary(admCd, prevYear, options));
         }
 
-        if (boundData.features && boundData.features.length > 0) {
-            const geometry = boundData.features[0].geometry;
-            let coords = [];
-            
-            if (geometry.type === "Polygon") {
-                coords = geometry.coordinates;
-            } else if (geometry.type === "MultiPolygon") {
-                let maxLen = 0;
-                geometry.coordinates.forEach((poly: any[]) => {
-                    if (poly[0].length > maxLen) {
-                        maxLen = poly[0].length;
-                        coords = poly;
-                    }
-                });
-            }
-
-            if (coords.length > 0) {
-                const ring = coords[0];
-                const result = [ring.map((p: number[]) => {
-                    if (typeof proj4 !== 'undefined') {
-                        const [lon, lat] = proj4(PROJ_5179, PROJ_WGS84, p);
-                        return [lat, lon];
-                    }
-                    return [p[1], p[0]];
-                })];
-
-                polygonCache.set(zone.mainTrarNm, result);
-                return result;
+        // 섬/월경지가 있는 동은 MultiPolygon, 다른 동을 둘러싼 동은 구멍이 있는 Polygon으로 옵니다.
+        const result = fromGeoJSON(boundData, p => {
+            if (typeof proj4 !== 'undefined') {
+                const [lon, lat] = proj4(PROJ_5179, PROJ_WGS84, p);
+                return [lat, lon];
             }
+            return [p[1], p[0]];
+        });
+        if (result.length > 0) {
+            polygonCache.set(zone.mainTrarNm, result);
+            await cacheSet(cacheKey, result, POLYGON_CACHE_TTL);
+            return result;
         }
     } catch (e: any) {
+        // 경계가 없어도 분석은 가능하므로, 키/한도 문제처럼 사용자가 조치해야 하는 오류만 전달
+        if (isApiError(e) && (e.kind === 'auth' || e.kind === 'quota')) throw e;
         console.warn(`[SGIS] Error: ${e.message}`);
     }
     return [];
 };
 
-export const fetchStoresInAdmin = async (adminCode: string, divId: string, onProgress: (msg: string) => void): Promise<{ stores: Store[], stdrYm: string }> => {
-    if (!DATA_API_KEY) throw new Error("API Key Missing");
-    const PAGE_SIZE = 500;
-    let allStores: Store[] = [];
-    let totalCount = 0;
-    let stdrYm = "";
-    
-    const serviceKey = getFormattedKey(DATA_API_KEY);
-    const firstUrl = `${BASE_URL}/storeListInDong?divId=${divId}&key=${adminCode}&numOfRows=${PAGE_SIZE}&pageNo=1&serviceKey=${serviceKey}&type=json`;
-    
-    const firstText = await fetchStandard(firstUrl);
-    
-    if (firstText.trim().startsWith('<')) {
-        throw new Error(parseXmlError(firstText));
-    }
+/**
+ * 시군구 경계: 관할 행정동 경계를 내부 경계선 없이 합친 형상
+ * 행정동 경계는 각각 캐시되므로 목록에서 동을 펼쳐 본 뒤에는 추가 요청이 없습니다.
+ */
+const fetchDistrictPolygon = async (zone: Zone, options: RequestOptions): Promise<ZoneGeometry> => {
+    if (polygonCache.has(zone.mainTrarNm)) return polygonCache.get(zone.mainTrarNm)!;
+
+    const parts = await Promise.all((zone.subAreas || []).map(area => fetchLocalAdminPolygon({
+        ...zone,
+        trarNo: area.code,
+        mainTrarNm: `${zone.mainTrarNm} ${area.name}`,
+        adminCode: area.code,
+        adminLevel: 'adongCd',
+        subAreas: undefined
+    }, options)));
+
+    const loaded = parts.filter(part => part.length > 0);
+    const result = loaded.length > 0 ? dissolve(loaded) : [];
+    // 일부 동의 경계를 받지 못했으면 다음에 다시 합치도록 저장하지 않음
+    if (loaded.length === parts.length) polygonCache.set(zone.mainTrarNm, result);
+    return result;
+};
 
-    try {
-        const listJson = JSON.parse(firstText);
-        if (listJson.header?.stdrYm) stdrYm = String(listJson.header.stdrYm);
-        else if (listJson.response?.header?.stdrYm) stdrYm = String(listJson.response.header.stdrYm);
-        let items = listJson.body?.items || listJson.response?.body?.items;
-        if (items) {
-            allStores = Array.isArray(items) ? items : [items];
-            totalCount = listJson.body?.totalCount || listJson.response?.body?.totalCount || allStores.length;
-        }
-    } catch (e) {}
+/**
+ * 지점 반경 내 상가업소 (storeListInRadius)
+ * 좌표는 약 1m 단위로 반올림해 캐시 키로 사용합니다.
+ */
+export const fetchStoresInRadius = async (lat: number, lon: number, radius: number, onProgress: (msg: string) => void, options: StoreFetchOptions = {}): Promise<StoreFetchResult> => {
+    return fetchStorePages({ kind: 'radius', lat, lon, radius }, `radius:${lat.toFixed(5)}:${lon.toFixed(5)}:${radius}`, onProgress, options);
+};
 
-    const totalPages = Math.ceil(totalCount / PAGE_SIZE);
-    
-    if (totalPages > 1) {
-        const BATCH_SIZE = 3;
-        let consecutiveErrors = 0;
-
-        for (let i = 2; i <= totalPages; i += BATCH_SIZE) {
-            const endPage = Math.min(i + BATCH_SIZE - 1, totalPages);
-            onProgress(`${i}~${endPage} / ${totalPages} 페이지 데이터 수집 중...`);
-
-            const promises = [];
-            for (let page = i; page <= endPage; page++) {
-                const nextUrl = `${BASE_URL}/storeListInDong?divId=${divId}&key=${adminCode}&numOfRows=${PAGE_SIZE}&pageNo=${page}&serviceKey=${serviceKey}&type=json`;
-                promises.push(
-                    fetchStandard(nextUrl)
-                        .then(text => {
-                             if (text.trim().startsWith('<')) return null;
-                             const json = JSON.parse(text);
-                             return json.body?.items || json.response?.body?.items;
-                        })
-                        .then(items => {
-                             if(items) return Array.isArray(items) ? items : [items];
-                             return null;
-                        })
-                        .catch(() => null)
-                );
-            }
+/**
+ * 직접 그린 영역의 점포: 외접 사각형(storeListInRectangle)으로 받은 뒤 형상 안의 점포만 남김
+ * 캐시는 사각형 단위로 저장되므로, 같은 범위를 다시 그리면 잘라내기만 다시 수행합니다.
+ */
+export const fetchStoresInShape = async (geometry: ZoneGeometry, onProgress: (msg: string) => void, options: StoreFetchOptions = {}): Promise<StoreFetchResult> => {
+    const bounds = geometryBounds(geometry);
+    if (!bounds) throw new ApiError('no_data', "분석할 영역이 비어 있습니다.", { source: 'data.go.kr' });
+    const { minLat, minLon, maxLat, maxLon } = bounds;
+    const result = await fetchStorePages({ kind: 'rect', minLat, minLon, maxLat, maxLon },
+        `rect:${[minLat, minLon, maxLat, maxLon].map(v => v.toFixed(5)).join(':')}`, onProgress, options);
+    return { ...result, stores: result.stores.filter(store => pointInGeometry(store.lat, store.lon, geometry)) };
+};
 
-            const results = await Promise.all(promises);
-            const validResults = results.filter(r => r !== null);
+export const fetchStoresInAdmin = async (adminCode: string, divId: string, onProgress: (msg: string) => void, options: StoreFetchOptions = {}): Promise<StoreFetchResult> => {
+    return fetchStorePages({ kind: 'dong', divId, key: adminCode }, `${divId}:${adminCode}`, onProgress, options);
+};
 
-            if (validResults.length === 0) {
-                consecutiveErrors++;
-            } else {
-                consecutiveErrors = 0;
-                validResults.forEach(items => {
-                    allStores = [...allStores, ...items];
-                });
-            }
-            
-            if (consecutiveErrors >= 2) break;
-            await new Promise(r => setTimeout(r, 50));
-        }
-    }
-    return { stores: allStores, stdrYm };
+const EMPTY_SBIZ: SbizStats = {
+    population: null, maxSales: null, delivery: null,
+    ageDistribution: null, timePopulation: null, dowPopulation: null, salesRank: null
 };
 
-export const fetchSbizData = async (dongCd: string): Promise<SbizStats> => {
-    // Sbiz also proxied
-    const endpoints = {
-        maxSales: `${SBIZ_BASE_URL_PROXY}/MaxSlsBiz/search.json?dongCd=${dongCd}`,
-        delivery: `${SBIZ_BASE_URL_PROXY}/DlvyDay/search.json?dongCd=${dongCd}`,
-        ageRank: `${SBIZ_BASE_URL_PROXY}/VstAgeRnk/search.json?dongCd=${dongCd}`,
-        population: `${SBIZ_BASE_URL_PROXY}/cfrDynppl/search.json?dongCd=${dongCd}`
-    };
+// 응답 구조가 바뀌면 올려서 이전 캐시를 무시
+const SBIZ_CACHE_VERSION = 2;
+
+// "M10" → "10대"
+const formatSbizAge = (ageCode: string) => {
+    if (!ageCode) return "정보없음";
+    const ageNum = ageCode.replace(/[^0-9]/g, '');
+    return ageNum ? `${ageNum}대` : ageCode;
+};
+
+// 목록형 응답 → 항목 배열 + 기준월 (첫 항목의 crtrYm)
+const toSbizSeries = <T,>(res: any, mapItem: (item: any) => T): SbizSeries<T> | null => {
+    if (!res || !Array.isArray(res.data) || res.data.length === 0) return null;
+    return { items: res.data.map(mapItem), crtrYm: String(res.data[0].crtrYm || "") };
+};
+
+const SBIZ_ENDPOINT_COUNT = 7;
+
+/**
+ * 행정동 하나의 Sbiz 지표 (엔드포인트 7개)
+ * 실패한 엔드포인트의 지표는 null로 두고 error에 알립니다. "데이터 없음"과 구분되도록,
+ * 하나라도 실패한 결과는 캐시하지 않아 다음 조회(다시 시도)에서 다시 받습니다.
+ */
+export const fetchSbizData = async (dongCd: string, options: { refresh?: boolean } = {}): Promise<Pick<SbizDongStats, 'stats' | 'error'>> => {
+    // Sbiz는 월 단위로 갱신되므로 조회 월을 키에 포함
+    const month = new Date().toISOString().slice(0, 7).replace('-', '');
+    const cacheKey = sourceCacheKey(`sbiz:v${SBIZ_CACHE_VERSION}:${dongCd}:${month}`);
+    if (!options.refresh) {
+        const cached = await cacheGet<SbizStats>(cacheKey);
+        if (cached) return { stats: cached, error: null };
+    }
+
+    const source = getDataSource();
+    const failures: ApiError[] = [];
+    const fetchEndpoint = (endpoint: SbizEndpoint) => source.fetchSbiz(endpoint, dongCd)
+        .then(t => JSON.parse(t))
+        .catch(e => {
+            failures.push(toApiError(e, 'sbiz', e instanceof SyntaxError ? 'parse' : 'upstream'));
+            return null;
+        });
 
     try {
-        const [maxSalesRes, deliveryRes, ageRankRes, populationRes] = await Promise.all([
-            fetchStandard(endpoints.maxSales).then(t => JSON.parse(t)).catch(() => null),
-            fetchStandard(endpoints.delivery).then(t => JSON.parse(t)).catch(() => null),
-            fetchStandard(endpoints.ageRank).then(t => JSON.parse(t)).catch(() => null),
-            fetchStandard(endpoints.population).then(t => JSON.parse(t)).catch(() => null)
+        const [maxSalesRes, deliveryRes, ageRankRes, populationRes, timeRes, dowRes, salesRankRes] = await Promise.all([
+            fetchEndpoint('MaxSlsBiz'),
+            fetchEndpoint('DlvyDay'),
+            fetchEndpoint('VstAgeRnk'),
+            fetchEndpoint('cfrDynppl'),
+            fetchEndpoint('TmznDynppl'),
+            fetchEndpoint('DowDynppl'),
+            fetchEndpoint('SlsTpbizRnk')
         ]);
 
-        const formatAge = (ageCode: string) => {
-             if(!ageCode) return "정보없음";
-             const ageNum = ageCode.replace(/[^0-9]/g, '');
-             return ageNum ? `${ageNum}대` : ageCode;
-        };
-
-        const result: SbizStats = {
-            population: null,
-            maxSales: null,
-            delivery: null,
-            ageRank: null
-        };
+        const result: SbizStats = { ...EMPTY_SBIZ };
 
         if (populationRes && populationRes.data) {
             result.population = {
-                total: parseInt(populationRes.data.ppltn || "0").toLocaleString(),
-                date: populationRes.data.crtrYm
+                total: parseInt(populationRes.data.ppltn || "0"),
+                crtrYm: populationRes.data.crtrYm
             };
         }
 
@@ -522,7 +468,7 @@ export const fetchSbizData = async (dongCd: string): Promise<SbizStats> => {
                 type: maxSalesRes.data.tpbizClscdNm,
                 amount: maxSalesRes.data.mmTotSlsAmt, 
                 percent: maxSalesRes.data.mmTotSlsAmtPercent,
-                date: maxSalesRes.data.crtrYm
+                crtrYm: maxSalesRes.data.crtrYm
             };
         }
 
@@ -531,193 +477,224 @@ export const fetchSbizData = async (dongCd: string): Promise<SbizStats> => {
                 day: deliveryRes.data.days,
                 count: deliveryRes.data.totAmt,
                 percent: deliveryRes.data.percent,
-                date: deliveryRes.data.crtrYm
+                crtrYm: deliveryRes.data.crtrYm
             };
         }
 
-        if (ageRankRes && Array.isArray(ageRankRes.data)) {
-            const sorted = [...ageRankRes.data].sort((a: any, b: any) => b.pipcnt - a.pipcnt);
-            result.ageRank = sorted.slice(0, 5).map(item => ({
-                age: formatAge(item.age),
-                count: item.pipcnt
-            }));
+        // 순위 응답이지만 연령대 전체가 오므로 연령 순으로 정렬해 분포로 사용
+        const ages = toSbizSeries(ageRankRes, item => ({ age: formatSbizAge(item.age), count: Number(item.pipcnt) || 0 }));
+        if (ages) {
+            const ageOrder = (age: string) => parseInt(age, 10) || Number.MAX_SAFE_INTEGER;
+            result.ageDistribution = { ...ages, items: [...ages.items].sort((a, b) => ageOrder(a.age) - ageOrder(b.age)) };
         }
 
-        return result;
+        result.timePopulation = toSbizSeries(timeRes, item => ({ slot: String(item.tmzn), count: Number(item.ppltn) || 0 }));
+        result.dowPopulation = toSbizSeries(dowRes, item => ({ day: String(item.dow), count: Number(item.ppltn) || 0 }));
+        result.salesRank = toSbizSeries(salesRankRes, item => ({
+            type: String(item.tpbizClscdNm),
+            amount: Number(item.mmTotSlsAmt) || 0,
+            percent: Number(item.mmTotSlsAmtPercent) || 0
+        }));
+
+        if (failures.length > 0) {
+            const worst = mostSevere(failures);
+            const error = new ApiError(worst.kind, `지표 ${SBIZ_ENDPOINT_COUNT}개 중 ${failures.length}개를 불러오지 못했습니다. (${worst.message})`, {
+                source: 'sbiz', code: worst.code, retryable: true, cause: worst
+            });
+            return { stats: result, error };
+        }
+        if (Object.values(result).some(value => value !== null)) {
+            await cacheSet(cacheKey, result, SBIZ_CACHE_TTL);
+        }
+        return { stats: result, error: null };
 
     } catch (e) {
-        console.warn("Sbiz Data Fetch Error:", e);
-        return { population: null, maxSales: null, delivery: null, ageRank: null };
+        return { stats: { ...EMPTY_SBIZ }, error: toApiError(e, 'sbiz', 'parse') };
     }
 };
 
+// Sbiz를 조회할 행정동 수 상한 (점포가 많은 동부터, 동마다 엔드포인트 7개를 호출)
+const SBIZ_MAX_DONGS = 5;
+
 /**
- * 서울 열린데이터 광장 (행정동별 추정매출) 데이터 조회
- * API 대신 CSV 파일(seoul_sales_202503.csv)을 public 폴더에서 로드하여
- * ADSTRD_CD(행정동 코드)가 일치하는 행만 필터링합니다.
+ * 상권/반경/직접 그린 영역의 Sbiz 지표: 구역 안 점포가 속한 행정동별로 조회
+ * Sbiz는 행정동 단위 지표라 합산할 수 없으므로(1위 업종, 피크 요일 등) 동별로 나눠 반환합니다.
  */
-export const fetchSeoulSalesData = async (adminCode: string): Promise<SeoulSalesData | null> => {
-    const csvUrl = "/seoul_sales_202503.csv"; // public folder
-
-    const createEmptyData = (quarter: string, serviceName?: string): SeoulSalesData => ({
-        stdrYearQuarter: quarter,
-        serviceName: serviceName,
-        totalAmount: 0,
-        totalCount: 0,
-        weekdayAmount: 0, weekendAmount: 0,
-        weekdayCount: 0, weekendCount: 0,
-        dayAmount: { MON: 0, TUE: 0, WED: 0, THU: 0, FRI: 0, SAT: 0, SUN: 0 },
-        dayCount: { MON: 0, TUE: 0, WED: 0, THU: 0, FRI: 0, SAT: 0, SUN: 0 },
-        timeAmount: { "00_06": 0, "06_11": 0, "11_14": 0, "14_17": 0, "17_21": 0, "21_24": 0 },
-        timeCount: { "00_06": 0, "06_11": 0, "11_14": 0, "14_17": 0, "17_21": 0, "21_24": 0 },
-        genderAmount: { male: 0, female: 0 },
-        genderCount: { male: 0, female: 0 },
-        ageAmount: { "10": 0, "20": 0, "30": 0, "40": 0, "50": 0, "60": 0 },
-        ageCount: { "10": 0, "20": 0, "30": 0, "40": 0, "50": 0, "60": 0 }
-    });
+export const fetchZoneSbizData = async (stores: Store[], options: { refresh?: boolean } = {}): Promise<SbizDongStats[]> => {
+    const dongs = countStoresByDong(stores).slice(0, SBIZ_MAX_DONGS);
+    return Promise.all(dongs.map(async dong => ({
+        code: dong.code,
+        name: dong.name,
+        zoneStores: dong.count,
+        ...await fetchSbizData(dong.code, options)
+    })));
+};
 
-    try {
-        const response = await fetch(csvUrl);
-        if (!response.ok) {
-            console.warn("CSV File Fetch Failed");
-            return null;
-        }
-        const text = await response.text();
-        const lines = text.split(/\r?\n/);
-        
-        if (lines.length < 2) return null;
+// SGIS 성·연령별 인구(searchpopulation)의 age_type 코드 (31 = 10세 미만, 32 = 10대, ...)
+const CENSUS_AGE_GROUPS = [
+    { age: "10세 미만", type: "31" },
+    { age: "10대", type: "32" },
+    { age: "20대", type: "33" },
+    { age: "30대", type: "34" },
+    { age: "40대", type: "35" },
+    { age: "50대", type: "36" },
+    { age: "60대", type: "37" },
+    { age: "70세 이상", type: "38,39,40" }
+];
 
-        const headers = lines[0].split(',').map(h => h.trim());
-        const getIdx = (colName: string) => headers.indexOf(colName);
+const SGIS_NO_RESULT = -100;
 
-        // Header Indices
-        const ADSTRD_CD = getIdx("ADSTRD_CD");
-        const SVC_NM = getIdx("SVC_INDUTY_CD_NM");
-        
-        // Data structure to return
-        // Default Quarter assumed 2025 Q3 since the file name is such
-        let aggregatedData = createEmptyData("20253");
-        const industryMap: Record<string, SeoulSalesData> = {};
-
-        const getNum = (row: string[], colName: string) => {
-             const idx = getIdx(colName);
-             if(idx === -1) return 0;
-             const val = parseFloat(row[idx]);
-             return isNaN(val) ? 0 : val;
-        };
+/**
+ * SGIS 인구·가구·사업체 통계 (행정동 또는 시군구)
+ * 총조사 통계는 1~2년 늦게 공개되므로 지난해부터 거슬러 올라가며 결과가 있는 연도를 사용하고,
+ * 성·연령별 인구는 총인구와 같은 연도로 10세 구간 × 성별을 조회합니다. (조회 실패 시 null)
+ */
+export const fetchCensusStats = async (zone: Zone, options: { refresh?: boolean } = {}): Promise<CensusStats | null> => {
+    const cacheKey = sourceCacheKey(`census:${zone.adminLevel}:${zone.adminCode}`);
+    if (!options.refresh) {
+        const cached = await cacheGet<CensusStats>(cacheKey);
+        if (cached) return cached;
+    }
 
-        const accumulateRow = (target: SeoulSalesData, row: string[]) => {
-            // Totals
-            target.totalAmount += getNum(row, "THSMON_SELNG_AMT");
-            target.totalCount += getNum(row, "THSMON_SELNG_CO");
-
-            // Weekday/Weekend
-            target.weekdayAmount += getNum(row, "MDWK_SELNG_AMT");
-            target.weekendAmount += getNum(row, "WKEND_SELNG_AMT");
-            target.weekdayCount += getNum(row, "MDWK_SELNG_CO");
-            target.weekendCount += getNum(row, "WKEND_SELNG_CO");
-
-            // Days
-            target.dayAmount.MON += getNum(row, "MON_SELNG_AMT");
-            target.dayAmount.TUE += getNum(row, "TUES_SELNG_AMT");
-            target.dayAmount.WED += getNum(row, "WED_SELNG_AMT");
-            target.dayAmount.THU += getNum(row, "THUR_SELNG_AMT");
-            target.dayAmount.FRI += getNum(row, "FRI_SELNG_AMT");
-            target.dayAmount.SAT += getNum(row, "SAT_SELNG_AMT");
-            target.dayAmount.SUN += getNum(row, "SUN_SELNG_AMT");
-
-            target.dayCount.MON += getNum(row, "MON_SELNG_CO");
-            target.dayCount.TUE += getNum(row, "TUES_SELNG_CO");
-            target.dayCount.WED += getNum(row, "WED_SELNG_CO");
-            target.dayCount.THU += getNum(row, "THUR_SELNG_CO");
-            target.dayCount.FRI += getNum(row, "FRI_SELNG_CO");
-            target.dayCount.SAT += getNum(row, "SAT_SELNG_CO");
-            target.dayCount.SUN += getNum(row, "SUN_SELNG_CO");
-
-            // Times
-            target.timeAmount["00_06"] += getNum(row, "TMZN_00_06_SELNG_AMT");
-            target.timeAmount["06_11"] += getNum(row, "TMZN_06_11_SELNG_AMT");
-            target.timeAmount["11_14"] += getNum(row, "TMZN_11_14_SELNG_AMT");
-            target.timeAmount["14_17"] += getNum(row, "TMZN_14_17_SELNG_AMT");
-            target.timeAmount["17_21"] += getNum(row, "TMZN_17_21_SELNG_AMT");
-            target.timeAmount["21_24"] += getNum(row, "TMZN_21_24_SELNG_AMT");
-
-            target.timeCount["00_06"] += getNum(row, "TMZN_00_06_SELNG_CO");
-            target.timeCount["06_11"] += getNum(row, "TMZN_06_11_SELNG_CO");
-            target.timeCount["11_14"] += getNum(row, "TMZN_11_14_SELNG_CO");
-            target.timeCount["14_17"] += getNum(row, "TMZN_14_17_SELNG_CO");
-            target.timeCount["17_21"] += getNum(row, "TMZN_17_21_SELNG_CO");
-            target.timeCount["21_24"] += getNum(row, "TMZN_21_24_SELNG_CO");
-
-            // Gender
-            target.genderAmount.male += getNum(row, "ML_SELNG_AMT");
-            target.genderAmount.female += getNum(row, "FML_SELNG_AMT");
-            target.genderCount.male += getNum(row, "ML_SELNG_CO");
-            target.genderCount.female += getNum(row, "FML_SELNG_CO");
-
-            // Age
-            target.ageAmount["10"] += getNum(row, "AGRDE_10_SELNG_AMT");
-            target.ageAmount["20"] += getNum(row, "AGRDE_20_SELNG_AMT");
-            target.ageAmount["30"] += getNum(row, "AGRDE_30_SELNG_AMT");
-            target.ageAmount["40"] += getNum(row, "AGRDE_40_SELNG_AMT");
-            target.ageAmount["50"] += getNum(row, "AGRDE_50_SELNG_AMT");
-            target.ageAmount["60"] += getNum(row, "AGRDE_60_ABOVE_SELNG_AMT");
-
-            target.ageCount["10"] += getNum(row, "AGRDE_10_SELNG_CO");
-            target.ageCount["20"] += getNum(row, "AGRDE_20_SELNG_CO");
-            target.ageCount["30"] += getNum(row, "AGRDE_30_SELNG_CO");
-            target.ageCount["40"] += getNum(row, "AGRDE_40_SELNG_CO");
-            target.ageCount["50"] += getNum(row, "AGRDE_50_SELNG_CO");
-            target.ageCount["60"] += getNum(row, "AGRDE_60_ABOVE_SELNG_CO");
+    try {
+        const place = await geocodeSgis(zone.mainTrarNm, {});
+        if (!place) return null;
+        // 주소 검색 결과는 행정동 단위이므로 시군구는 시도 + 시군구 코드로 조회
+        const admCd = zone.adminLevel === 'signguCd' ? `${place.sido_cd}${place.sgg_cd}` : place.adm_cd;
+        const source = getDataSource();
+        const thisYear = new Date().getFullYear();
+        const years = [1, 2, 3].map(offset => String(thisYear - offset));
+
+        const fetchRow = async (endpoint: SgisStatsEndpoint, year: string, filter?: Record<string, string>) => {
+            const json = JSON.parse(await source.fetchSgisStats(endpoint, admCd, year, filter));
+            if (json.errCd === 0 && json.result?.length > 0) return json.result[0];
+            if (json.errCd !== 0 && json.errCd !== SGIS_NO_RESULT) throw fromSgisErrCd(json.errCd, `SGIS 오류: ${json.errMsg || json.errCd}`);
+            return null;
         };
-        
-        // If ADSTRD_CD column missing, can't filter
-        if (ADSTRD_CD === -1) return null;
-
-        let hasData = false;
-        
-        // Loop lines
-        for(let i=1; i<lines.length; i++) {
-            const row = lines[i].split(','); // Assuming standard CSV without quoted commas for now
-            if (row.length < headers.length) continue;
-            
-            // CSV ADSTRD_CD might be string, compare with adminCode
-            const rowAdminCode = row[ADSTRD_CD];
-            
-            // Check match
-            if (String(rowAdminCode) === String(adminCode)) {
-                hasData = true;
-                accumulateRow(aggregatedData, row);
-                
-                // Industry Data
-                const svcName = SVC_NM !== -1 ? row[SVC_NM] : "기타";
-                if (!industryMap[svcName]) {
-                    industryMap[svcName] = createEmptyData("20253", svcName);
-                }
-                accumulateRow(industryMap[svcName], row);
+        const fetchLatest = async (endpoint: SgisStatsEndpoint): Promise<{ year: string; row: any } | null> => {
+            for (const year of years) {
+                const row = await fetchRow(endpoint, year);
+                if (row) return { year, row };
             }
-        }
-
-        if (!hasData) return null;
+            return null;
+        };
 
-        // Finalize
-        aggregatedData.byIndustry = Object.values(industryMap).sort((a, b) => b.totalAmount - a.totalAmount);
-        return aggregatedData;
+        const [population, household, company] = await Promise.all([fetchLatest('population'), fetchLatest('household'), fetchLatest('company')]);
+        if (!population) return null;
 
+        const count = (value: any) => Number(value) || 0;
+        const ageGroups = await Promise.all(CENSUS_AGE_GROUPS.map(async group => {
+            const [male, female] = await Promise.all(['1', '2'].map(gender =>
+                fetchRow('searchpopulation', population.year, { gender, age_type: group.type }).then(row => count(row?.population))));
+            return { age: group.age, male, female };
+        })).catch(e => {
+            console.warn("SGIS age groups failed:", e);
+            return [];
+        });
+
+        const result: CensusStats = {
+            admCd,
+            year: population.year,
+            population: count(population.row.tot_ppltn),
+            avgAge: Number(population.row.avg_age) || null,
+            households: count(household?.row.household_cnt),
+            avgHouseholdSize: Number(household?.row.avg_family_member_cnt) || null,
+            companyYear: company?.year || null,
+            companies: count(company?.row.corp_cnt),
+            employees: count(company?.row.tot_worker),
+            ageGroups
+        };
+        await cacheSet(cacheKey, result, CENSUS_CACHE_TTL);
+        return result;
     } catch (e) {
-        console.warn("CSV Process Error:", e);
+        console.warn("SGIS census fetch failed:", e);
         return null;
     }
 };
 
+/**
+ * 서울 열린데이터 광장 (행정동별 추정매출) 분기별 데이터 조회
+ * API 대신 manifest에 나열된 분기별 CSV를 데이터 소스에서 스트리밍으로 받아 Worker에서 색인하고(services/seoulSales.ts),
+ * ADSTRD_CD(행정동 코드)의 분기별 합계를 오래된 분기부터 반환합니다. (조회 실패 시 빈 배열)
+ */
+export const fetchSeoulSalesHistory = async (adminCode: string): Promise<SeoulSalesData[]> => {
+    try {
+        return await lookupSeoulSalesHistory(adminCode);
+    } catch (e) {
+        console.warn("Seoul sales CSV load failed:", e);
+        return [];
+    }
+};
+
+// 점포가 속한 행정동별 점포 수 (많은 동부터)
+const countStoresByDong = (stores: Store[]) => {
+    const dongs = new Map<string, { code: string; name: string; signguNm: string; count: number }>();
+    stores.forEach(store => {
+        if (!store.adongCd) return;
+        const dong = dongs.get(store.adongCd) || { code: store.adongCd, name: store.adongNm, signguNm: store.signguNm, count: 0 };
+        dong.count++;
+        dongs.set(store.adongCd, dong);
+    });
+    return [...dongs.values()].sort((a, b) => b.count - a.count);
+};
+
+// 행정동 전체 점포 수 (1건짜리 요청의 totalCount, 실패 시 0)
+const fetchDongStoreCount = async (adongCd: string): Promise<number> => {
+    try {
+        const page = parseStorePage(await getDataSource().listStores({ kind: 'dong', divId: 'adongCd', key: adongCd }, 1, 1, { priority: 'low' }));
+        return page.totalCount;
+    } catch (e) {
+        console.warn(`Store count failed for ${adongCd}:`, e);
+        return 0;
+    }
+};
+
+/**
+ * 상권이 걸친 행정동별 서울시 추정매출과 겹침 정도
+ * 상권 안 점포가 속한 행정동을 후보로 삼아, 동 경계와 상권 경계가 겹치는 면적과 동 전체 점포 수를 함께 구합니다.
+ * 동 경계는 "시도 시군구 동" 이름으로 조회하므로 시도명은 행정동 코드 앞 두 자리로 찾습니다.
+ * 가중 합산은 화면에서 가중 방식을 바꿀 수 있도록 services/salesBlend.ts가 담당합니다.
+ */
+export const fetchZoneSalesSources = async (geometry: ZoneGeometry, stores: Store[]): Promise<DongSalesSource[]> => {
+    const dongs = countStoresByDong(stores);
+    if (dongs.length === 0) return [];
+
+    const sidos = await fetchBaroApi('mega').catch(() => [] as any[]);
+    const sidoName = (code: string) => sidos.find((s: any) => String(s.ctprvnCd) === code.slice(0, 2))?.ctprvnNm || "";
+
+    const sources = await Promise.all(dongs.map(async ({ code, ...dong }): Promise<DongSalesSource> => {
+        const dongZone: Zone = {
+            trarNo: code,
+            mainTrarNm: `${sidoName(code)} ${dong.signguNm} ${dong.name}`.trim(),
+            trarArea: 0,
+            ctprvnNm: sidoName(code),
+            signguNm: dong.signguNm,
+            coords: "",
+            type: 'admin',
+            adminCode: code,
+            adminLevel: 'adongCd'
+        };
+        const [polygon, dongStores, history] = await Promise.all([
+            fetchLocalAdminPolygon(dongZone, { priority: 'low' }).catch(() => [] as ZoneGeometry),
+            fetchDongStoreCount(code),
+            code.startsWith('11') ? fetchSeoulSalesHistory(code) : Promise.resolve([])
+        ]);
+        return {
+            code,
+            name: dong.name,
+            overlapArea: intersectionArea(geometry, polygon),
+            dongArea: geometryArea(polygon),
+            zoneStores: dong.count,
+            dongStores,
+            history
+        };
+    }));
+    return sources;
+};
+
 export const getAdminCodeFromCoords = async (lat: number, lon: number): Promise<string | null> => {
-    if (!VWORLD_KEY) return null;
-    
-    // V-World Reverse Geocoding uses JSONP, direct call is fine.
-    const url = `https://api.vworld.kr/req/address?service=address&request=getAddress&version=2.0&crs=EPSG:4326&point=${lon},${lat}&format=json&type=PARCEL&zipcode=false&simple=false&key=${VWORLD_KEY}`;
-    
     try {
-        const data = await fetchJsonp(url);
+        const data = JSON.parse(await getDataSource().reverseGeocode(lat, lon));
         if (data.response && data.response.status === "OK") {
             const result = data.response.result;
             if (result && result.length > 0) {
@@ -0,0 +1,233 @@
+import { BrandSummary, Store } from '../types';
+
+/**
+ * 브랜드 사전과 프랜차이즈 판별
+ * 상호명을 정규화(공백·기호 제거, 영문 대문자)한 뒤 브랜드별 별칭(한글/영문)과 비교해 일치 신뢰도(0~1)를 매깁니다.
+ * - 상호 전체가 별칭과 같으면 1.0, 별칭으로 시작하면 0.9 ("스타벅스 명동점")
+ * - 중간에 포함되면 0.7, 두 글자 이하 한글 별칭은 우연히 겹치기 쉬워 0.5
+ * - 세 글자 이하 영문 별칭(CU, KFC 등)은 앞뒤가 다른 영문자로 이어지면 일치로 보지 않음 ("CUBE 카페")
+ * - 브랜드의 대분류와 점포 대분류가 다르면 신뢰도를 낮춤
+ */
+
+export interface BrandEntry {
+    brand: string;           // 대표 브랜드명
+    aliases: string[];       // 상호에 쓰이는 다른 표기 (대표명은 자동 포함)
+    parent: string;          // 운영사 (미상이면 "")
+    category: string;        // 표시용 업종
+    indsLclsCd: string;      // 상권정보 대분류 코드 (I2 음식, G2 소매, S2 수리·개인)
+}
+
+export interface BrandMatch {
+    entry: BrandEntry;
+    alias: string;
+    confidence: number;
+}
+
+// 이 신뢰도 이상이면 브랜드 점포로 집계
+export const BRAND_MATCH_THRESHOLD = 0.6;
+
+const CATEGORY_MISMATCH_PENALTY = 0.6;
+
+export const BRANDS: BrandEntry[] = [
+    // 카페·음료
+    { brand: "스타벅스", aliases: ["STARBUCKS"], parent: "SCK컴퍼니", category: "카페", indsLclsCd: "I2" },
+    { brand: "투썸플레이스", aliases: ["투썸", "TWOSOME PLACE"], parent: "투썸플레이스", category: "카페", indsLclsCd: "I2" },
+    { brand: "이디야커피", aliases: ["이디야", "EDIYA"], parent: "이디야", category: "카페", indsLclsCd: "I2" },
+    { brand: "메가MGC커피", aliases: ["메가커피", "메가MGC", "MEGA COFFEE"], parent: "앤하우스", category: "카페", indsLclsCd: "I2" },
+    { brand: "컴포즈커피", aliases: ["컴포즈", "COMPOSE COFFEE"], parent: "컴포즈커피", category: "카페", indsLclsCd: "I2" },
+    { brand: "빽다방", aliases: [], parent: "더본코리아", category: "카페", indsLclsCd: "I2" },
+    { brand: "할리스", aliases: ["할리스커피", "HOLLYS"], parent: "할리스", category: "카페", indsLclsCd: "I2" },
+    { brand: "폴바셋", aliases: ["PAUL BASSETT"], parent: "엠즈씨드", category: "카페", indsLclsCd: "I2" },
+    { brand: "공차", aliases: ["GONG CHA"], parent: "공차코리아", category: "카페", indsLclsCd: "I2" },
+    { brand: "더벤티", aliases: ["THE VENTI"], parent: "더벤티", category: "카페", indsLclsCd: "I2" },
+    { brand: "파스쿠찌", aliases: ["PASCUCCI"], parent: "SPC", category: "카페", indsLclsCd: "I2" },
+    { brand: "엔제리너스", aliases: ["ANGELINUS"], parent: "롯데GRS", category: "카페", indsLclsCd: "I2" },
+    { brand: "탐앤탐스", aliases: ["TOM N TOMS"], parent: "탐앤탐스", category: "카페", indsLclsCd: "I2" },
+    { brand: "커피빈", aliases: ["COFFEE BEAN"], parent: "커피빈코리아", category: "카페", indsLclsCd: "I2" },
+    { brand: "쥬씨", aliases: ["JUICY"], parent: "쥬씨", category: "카페", indsLclsCd: "I2" },
+    { brand: "아마스빈", aliases: [], parent: "", category: "카페", indsLclsCd: "I2" },
+
+    // 제과·디저트
+    { brand: "파리바게뜨", aliases: ["파리바게트", "PARIS BAGUETTE"], parent: "SPC", category: "제과·디저트", indsLclsCd: "I2" },
+    { brand: "뚜레쥬르", aliases: ["TOUS LES JOURS"], parent: "CJ푸드빌", category: "제과·디저트", indsLclsCd: "I2" },
+    { brand: "던킨", aliases: ["던킨도너츠", "DUNKIN"], parent: "SPC", category: "제과·디저트", indsLclsCd: "I2" },
+    { brand: "배스킨라빈스", aliases: ["베스킨라빈스", "BASKIN ROBBINS"], parent: "SPC", category: "제과·디저트", indsLclsCd: "I2" },
+    { brand: "설빙", aliases: [], parent: "설빙", category: "제과·디저트", indsLclsCd: "I2" },
+    { brand: "크리스피크림", aliases: ["크리스피크림도넛", "KRISPY KREME"], parent: "", category: "제과·디저트", indsLclsCd: "I2" },
+    { brand: "와플대학", aliases: [], parent: "", category: "제과·디저트", indsLclsCd: "I2" },
+
+    // 패스트푸드·간편식
+    { brand: "맥도날드", aliases: ["MCDONALDS"], parent: "한국맥도날드", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "버거킹", aliases: ["BURGER KING"], parent: "비케이알", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "롯데리아", aliases: ["LOTTERIA"], parent: "롯데GRS", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "KFC", aliases: ["케이에프씨"], parent: "KFC코리아", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "맘스터치", aliases: ["MOMS TOUCH"], parent: "맘스터치앤컴퍼니", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "써브웨이", aliases: ["서브웨이", "SUBWAY"], parent: "", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "프랭크버거", aliases: [], parent: "", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "이삭토스트", aliases: ["ISAAC TOAST"], parent: "이삭", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "에그드랍", aliases: ["EGG DROP"], parent: "", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "샐러디", aliases: ["SALADY"], parent: "샐러디", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "한솥도시락", aliases: ["한솥"], parent: "한솥", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "본죽", aliases: ["본죽&비빔밥"], parent: "본아이에프", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "김밥천국", aliases: [], parent: "", category: "패스트푸드", indsLclsCd: "I2" },
+    { brand: "바르다김선생", aliases: [], parent: "", category: "패스트푸드", indsLclsCd: "I2" },
+
+    // 치킨·피자
+    { brand: "교촌치킨", aliases: ["교촌"], parent: "교촌에프앤비", category: "치킨", indsLclsCd: "I2" },
+    { brand: "BHC", aliases: ["비에이치씨"], parent: "다이닝브랜즈그룹", category: "치킨", indsLclsCd: "I2" },
+    { brand: "BBQ", aliases: ["비비큐"], parent: "제너시스BBQ", category: "치킨", indsLclsCd: "I2" },
+    { brand: "굽네치킨", aliases: ["굽네"], parent: "지엔푸드", category: "치킨", indsLclsCd: "I2" },
+    { brand: "푸라닭", aliases: [], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "60계치킨", aliases: ["60계"], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "처갓집양념치킨", aliases: ["처갓집"], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "페리카나", aliases: [], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "멕시카나", aliases: [], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "노랑통닭", aliases: [], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "자담치킨", aliases: [], parent: "", category: "치킨", indsLclsCd: "I2" },
+    { brand: "도미노피자", aliases: ["도미노", "DOMINOS"], parent: "청오디피케이", category: "피자", indsLclsCd: "I2" },
+    { brand: "피자헛", aliases: ["PIZZA HUT"], parent: "한국피자헛", category: "피자", indsLclsCd: "I2" },
+    { brand: "파파존스", aliases: ["PAPA JOHNS"], parent: "한국파파존스", category: "피자", indsLclsCd: "I2" },
+    { brand: "피자스쿨", aliases: [], parent: "", category: "피자", indsLclsCd: "I2" },
+    { brand: "피자알볼로", aliases: [], parent: "", category: "피자", indsLclsCd: "I2" },
+    { brand: "반올림피자", aliases: ["반올림피자샵"], parent: "", category: "피자", indsLclsCd: "I2" },
+
+    // 외식·주점
+    { brand: "아웃백", aliases: ["아웃백스테이크하우스", "OUTBACK"], parent: "", category: "외식", indsLclsCd: "I2" },
+    { brand: "애슐리", aliases: ["ASHLEY"], parent: "이랜드이츠", category: "외식", indsLclsCd: "I2" },
+    { brand: "빕스", aliases: ["VIPS"], parent: "CJ푸드빌", category: "외식", indsLclsCd: "I2" },
+    { brand: "엽기떡볶이", aliases: ["동대문엽기떡볶이"], parent: "핫시즌", category: "외식", indsLclsCd: "I2" },
+    { brand: "신전떡볶이", aliases: [], parent: "", category: "외식", indsLclsCd: "I2" },
+    { brand: "죠스떡볶이", aliases: [], parent: "죠스푸드", category: "외식", indsLclsCd: "I2" },
+    { brand: "명륜진사갈비", aliases: [], parent: "명륜당", category: "외식", indsLclsCd: "I2" },
+    { brand: "채선당", aliases: [], parent: "", category: "외식", indsLclsCd: "I2" },
+    { brand: "원할머니보쌈", aliases: [], parent: "원앤원", category: "외식", indsLclsCd: "I2" },
+    { brand: "놀부부대찌개", aliases: ["놀부"], parent: "놀부", category: "외식", indsLclsCd: "I2" },
+    { brand: "하남돼지집", aliases: [], parent: "", category: "외식", indsLclsCd: "I2" },
+    { brand: "새마을식당", aliases: [], parent: "더본코리아", category: "외식", indsLclsCd: "I2" },
+    { brand: "홍콩반점", aliases: ["홍콩반점0410"], parent: "더본코리아", category: "외식", indsLclsCd: "I2" },
+    { brand: "역전우동", aliases: ["역전우동0410"], parent: "더본코리아", category: "외식", indsLclsCd: "I2" },
+    { brand: "역전할머니맥주", aliases: [], parent: "역전에프앤씨", category: "주점", indsLclsCd: "I2" },
+    { brand: "투다리", aliases: [], parent: "이원", category: "주점", indsLclsCd: "I2" },
+
+    // 소매
+    { brand: "CU", aliases: ["씨유"], parent: "BGF리테일", category: "편의점", indsLclsCd: "G2" },
+    { brand: "GS25", aliases: ["지에스25"], parent: "GS리테일", category: "편의점", indsLclsCd: "G2" },
+    { brand: "세븐일레븐", aliases: ["7ELEVEN", "7-ELEVEN"], parent: "코리아세븐", category: "편의점", indsLclsCd: "G2" },
+    { brand: "이마트24", aliases: ["EMART24"], parent: "이마트24", category: "편의점", indsLclsCd: "G2" },
+    { brand: "다이소", aliases: ["DAISO"], parent: "아성다이소", category: "생활용품", indsLclsCd: "G2" },
+    { brand: "올리브영", aliases: ["OLIVE YOUNG"], parent: "CJ올리브영", category: "화장품", indsLclsCd: "G2" },
+    { brand: "이니스프리", aliases: ["INNISFREE"], parent: "아모레퍼시픽", category: "화장품", indsLclsCd: "G2" },
+    { brand: "아리따움", aliases: ["ARITAUM"], parent: "아모레퍼시픽", category: "화장품", indsLclsCd: "G2" },
+    { brand: "이마트", aliases: ["EMART", "E-MART"], parent: "이마트", category: "대형마트", indsLclsCd: "G2" },
+    { brand: "노브랜드", aliases: ["NO BRAND"], parent: "이마트", category: "대형마트", indsLclsCd: "G2" },
+    { brand: "롯데마트", aliases: ["LOTTE MART"], parent: "롯데쇼핑", category: "대형마트", indsLclsCd: "G2" },
+    { brand: "홈플러스", aliases: ["HOMEPLUS"], parent: "홈플러스", category: "대형마트", indsLclsCd: "G2" },
+    { brand: "코스트코", aliases: ["COSTCO"], parent: "코스트코코리아", category: "대형마트", indsLclsCd: "G2" },
+    { brand: "신세계백화점", aliases: [], parent: "신세계", category: "백화점", indsLclsCd: "G2" },
+    { brand: "현대백화점", aliases: [], parent: "현대백화점", category: "백화점", indsLclsCd: "G2" },
+    { brand: "롯데백화점", aliases: [], parent: "롯데쇼핑", category: "백화점", indsLclsCd: "G2" },
+    { brand: "롯데하이마트", aliases: ["하이마트"], parent: "롯데하이마트", category: "전자제품", indsLclsCd: "G2" },
+
+    // 개인 서비스
+    { brand: "준오헤어", aliases: ["JUNO HAIR"], parent: "준오헤어", category: "미용", indsLclsCd: "S2" }
+];
+
+// 공백과 기호를 지우고 영문은 대문자로 ("Starbucks 명동점" → "STARBUCKS명동점")
+const normalizeName = (name: string) => name.toUpperCase().replace(/[\s·.,'’&()\-_/]/g, '');
+
+const isLatin = (ch: string | undefined) => !!ch && /[A-Z]/.test(ch);
+
+interface AliasPattern {
+    entry: BrandEntry;
+    alias: string;           // 정규화된 별칭
+    shortLatin: boolean;
+}
+
+// 긴 별칭부터 비교해 "이마트24"가 "이마트"보다 먼저 잡히도록
+const PATTERNS: AliasPattern[] = BRANDS
+    .flatMap(entry => [...new Set([entry.brand, ...entry.aliases].map(normalizeName))].map(alias => ({
+        entry, alias, shortLatin: /^[A-Z0-9]+$/.test(alias) && alias.length <= 3
+    })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+const aliasConfidence = (name: string, { alias, shortLatin }: AliasPattern): number => {
+    if (name === alias) return 1;
+    let from = name.indexOf(alias);
+    while (from >= 0) {
+        const bounded = !shortLatin || (!/[A-Z0-9]/.test(name[from - 1] || '') && !isLatin(name[from + alias.length]));
+        if (bounded) {
+            if (from === 0) return 0.9;
+            return alias.length <= 2 && !shortLatin ? 0.5 : 0.7;
+        }
+        from = name.indexOf(alias, from + 1);
+    }
+    return 0;
+};
+
+const matchCache = new Map<string, BrandMatch | null>();
+
+/**
+ * 상호에 가장 잘 맞는 브랜드 (신뢰도가 가장 높은 별칭, 같으면 긴 별칭)
+ * 신뢰도가 0이면 null이며, 집계에는 BRAND_MATCH_THRESHOLD 이상만 씁니다.
+ */
+export const matchBrand = (store: Pick<Store, 'bizesNm' | 'indsLclsCd'>): BrandMatch | null => {
+    const key = `${store.indsLclsCd}\u0000${store.bizesNm}`;
+    if (matchCache.has(key)) return matchCache.get(key)!;
+
+    const name = normalizeName(store.bizesNm);
+    let best: BrandMatch | null = null;
+    for (const pattern of PATTERNS) {
+        let confidence = aliasConfidence(name, pattern);
+        if (confidence === 0) continue;
+        if (store.indsLclsCd && pattern.entry.indsLclsCd !== store.indsLclsCd) confidence *= CATEGORY_MISMATCH_PENALTY;
+        if (!best || confidence > best.confidence) best = { entry: pattern.entry, alias: pattern.alias, confidence };
+    }
+    matchCache.set(key, best);
+    return best;
+};
+
+export const isBrandStore = (store: Pick<Store, 'bizesNm' | 'indsLclsCd'>): boolean => {
+    const match = matchBrand(store);
+    return !!match && match.confidence >= BRAND_MATCH_THRESHOLD;
+};
+
+// "OO점"으로 끝나도 지점이 아니라 업태를 뜻하는 말
+const SHOP_TYPE_SUFFIXES = ["상점", "매점", "정육점", "철물점", "문구점", "잡화점", "제과점", "음식점", "전문점", "할인점", "판매점", "대리점", "백화점", "편의점", "서점"];
+
+// 띄어 쓴 마지막 단어가 "명동점", "을지로입구점"처럼 지점명인지
+const hasBranchSuffix = (name: string): boolean => {
+    const words = name.trim().split(/\s+/);
+    if (words.length < 2) return false;
+    const last = words[words.length - 1];
+    return last.length >= 2 && last.endsWith("점") && !SHOP_TYPE_SUFFIXES.some(suffix => last.endsWith(suffix));
+};
+
+/**
+ * 프랜차이즈(가맹·직영 체인) 점포 여부
+ * 지점명이 있거나, 사전의 브랜드와 일치하거나, 상호가 "브랜드 + 지점명" 형태인 경우
+ */
+export const isFranchise = (store: Pick<Store, 'bizesNm' | 'brchNm' | 'indsLclsCd'>): boolean => {
+    return store.brchNm !== "" || isBrandStore(store) || hasBranchSuffix(store.bizesNm);
+};
+
+/**
+ * 브랜드별 점포 수 (많은 순)
+ */
+export const summarizeBrands = (stores: Store[]): BrandSummary[] => {
+    const groups = new Map<string, BrandSummary & { confidenceSum: number }>();
+    stores.forEach(s => {
+        const match = matchBrand(s);
+        if (!match || match.confidence < BRAND_MATCH_THRESHOLD) return;
+        const { entry } = match;
+        if (!groups.has(entry.brand)) {
+            groups.set(entry.brand, { brand: entry.brand, parent: entry.parent, category: entry.category, count: 0, firstFloorCount: 0, avgConfidence: 0, confidenceSum: 0 });
+        }
+        const g = groups.get(entry.brand)!;
+        g.count++;
+        if (s.floor === 1) g.firstFloorCount++;
+        g.confidenceSum += match.confidence;
+    });
+    return [...groups.values()]
+        .map(({ confidenceSum, ...g }) => ({ ...g, avgConfidence: confidenceSum / g.count }))
+        .sort((a, b) => b.count - a.count || a.brand.localeCompare(b.brand));
+};
@@ -0,0 +1,70 @@
+import { BuildingSummary, Store } from '../types';
+import { isFranchise } from './brands';
+import { floorLabel } from './floors';
+import { countCategories } from './categories';
+
+/**
+ * 건물별 입점 현황과 층별 입점 구성
+ * 건물명(bldNm)이 있는 점포만 묶고, 이름이 같아도 도로명주소가 다르면 다른 건물로 봅니다.
+ */
+
+export const buildingKey = (store: Pick<Store, 'bldNm' | 'rdnmAdr'>): string | null =>
+    store.bldNm ? `${store.bldNm}|${store.rdnmAdr}` : null;
+
+/**
+ * 건물 목록 (점포 많은 순)
+ */
+export const summarizeBuildings = (stores: Store[]): BuildingSummary[] => {
+    const groups = new Map<string, Store[]>();
+    stores.forEach(s => {
+        const key = buildingKey(s);
+        if (!key) return;
+        const members = groups.get(key);
+        if (members) members.push(s); else groups.set(key, [s]);
+    });
+
+    return [...groups.entries()].map(([key, members]) => {
+        return {
+            key,
+            name: members[0].bldNm,
+            address: members[0].rdnmAdr,
+            count: members.length,
+            franchiseCount: members.filter(isFranchise).length,
+            firstFloorCount: members.filter(s => s.floor === 1).length,
+            floorCount: new Set(members.filter(s => s.floor !== null).map(s => s.floor)).size,
+            categoryMix: countCategories(members, 'large').map(({ code, name, count }) => ({ code, name, count })),
+            lat: members[0].lat,
+            lon: members[0].lon
+        };
+    }).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+export interface FloorTenants {
+    floor: number | null;    // null = 층 미상
+    label: string;
+    stores: Store[];
+}
+
+/**
+ * 층별 입점 점포 (위층 → 지하 → 층 미상)
+ * "1~2층"처럼 여러 층을 쓰는 점포는 걸친 층마다 표시합니다.
+ */
+export const floorStack = (stores: Store[]): FloorTenants[] => {
+    const floors = new Map<number, Store[]>();
+    const unknown: Store[] = [];
+    stores.forEach(s => {
+        if (s.floor === null) { unknown.push(s); return; }
+        const top = s.floorTo ?? s.floor;
+        for (let f = s.floor; f <= top; f++) {
+            if (f === 0) continue;   // 지하 1층 다음은 지상 1층
+            const tenants = floors.get(f);
+            if (tenants) tenants.push(s); else floors.set(f, [s]);
+        }
+    });
+
+    const rows: FloorTenants[] = [...floors.entries()]
+        .sort((a, b) => b[0] - a[0])
+        .map(([floor, tenants]) => ({ floor, label: floorLabel({ floor, floorTo: null }), stores: tenants }));
+    if (unknown.length) rows.push({ floor: null, label: "층 미상", stores: unknown });
+    return rows;
+};
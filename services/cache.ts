@@ -0,0 +1,149 @@
+/**
+ * IndexedDB 기반 영구 캐시
+ * - 항목별 TTL
+ * - 전체 용량 상한을 넘으면 가장 오래 사용하지 않은 항목부터 삭제 (LRU)
+ * - IndexedDB를 쓸 수 없는 환경(시크릿 모드 등)에서는 조용히 캐시 없이 동작
+ *
+ * 값(entries)과 메타정보(meta)를 분리 저장하여, 조회 시 큰 값을 다시 쓰지 않고
+ * 마지막 사용 시각만 갱신합니다.
+ */
+
+const DB_NAME = "zone-insight-cache";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+const META_STORE = "meta";
+
+// JSON 문자열 길이 기준 (대략적인 바이트 추정치)
+const MAX_CACHE_SIZE = 80 * 1024 * 1024;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheMeta {
+    key: string;
+    size: number;
+    createdAt: number;
+    accessedAt: number;
+    expiresAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE);
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    const meta = db.createObjectStore(META_STORE, { keyPath: "key" });
+                    meta.createIndex("accessedAt", "accessedAt");
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("IndexedDB open failed:", request.error);
+                resolve(null);
+            };
+        } catch (e) {
+            console.warn("IndexedDB unavailable:", e);
+            resolve(null);
+        }
+    });
+    return dbPromise;
+};
+
+const deleteKeys = async (db: IDBDatabase, keys: string[]) => {
+    if (keys.length === 0) return;
+    const tx = db.transaction([ENTRY_STORE, META_STORE], "readwrite");
+    keys.forEach(key => {
+        tx.objectStore(ENTRY_STORE).delete(key);
+        tx.objectStore(META_STORE).delete(key);
+    });
+    await transactionDone(tx);
+};
+
+/**
+ * 만료 항목을 지우고, 용량 상한을 넘으면 오래된 항목부터 삭제
+ */
+const enforceLimits = async (db: IDBDatabase) => {
+    const tx = db.transaction(META_STORE, "readonly");
+    const metas = await requestToPromise<CacheMeta[]>(tx.objectStore(META_STORE).index("accessedAt").getAll());
+
+    const now = Date.now();
+    const expired = metas.filter(m => m.expiresAt <= now).map(m => m.key);
+    const alive = metas.filter(m => m.expiresAt > now);
+
+    let total = alive.reduce((sum, m) => sum + m.size, 0);
+    const evicted: string[] = [];
+    // accessedAt 오름차순이므로 앞쪽이 가장 오래 사용하지 않은 항목
+    for (const meta of alive) {
+        if (total <= MAX_CACHE_SIZE) break;
+        evicted.push(meta.key);
+        total -= meta.size;
+    }
+
+    await deleteKeys(db, [...expired, ...evicted]);
+};
+
+export const cacheGet = async <T>(key: string): Promise<T | null> => {
+    try {
+        const db = await openDb();
+        if (!db) return null;
+
+        const tx = db.transaction([ENTRY_STORE, META_STORE], "readwrite");
+        const metaStore = tx.objectStore(META_STORE);
+        const meta = await requestToPromise<CacheMeta | undefined>(metaStore.get(key));
+        if (!meta) return null;
+
+        if (meta.expiresAt <= Date.now()) {
+            metaStore.delete(key);
+            tx.objectStore(ENTRY_STORE).delete(key);
+            await transactionDone(tx);
+            return null;
+        }
+
+        const value = await requestToPromise<T | undefined>(tx.objectStore(ENTRY_STORE).get(key));
+        metaStore.put({ ...meta, accessedAt: Date.now() });
+        await transactionDone(tx);
+        return value ?? null;
+    } catch (e) {
+        console.warn(`Cache read failed for ${key}:`, e);
+        return null;
+    }
+};
+
+export const cacheSet = async <T>(key: string, value: T, ttlMs: number): Promise<void> => {
+    try {
+        const db = await openDb();
+        if (!db) return;
+
+        const size = JSON.stringify(value).length;
+        // 단일 항목이 상한을 넘으면 저장하지 않음 (다른 항목을 전부 밀어내지 않도록)
+        if (size > MAX_CACHE_SIZE) return;
+
+        const now = Date.now();
+        const meta: CacheMeta = { key, size, createdAt: now, accessedAt: now, expiresAt: now + ttlMs };
+        const tx = db.transaction([ENTRY_STORE, META_STORE], "readwrite");
+        tx.objectStore(ENTRY_STORE).put(value, key);
+        tx.objectStore(META_STORE).put(meta);
+        await transactionDone(tx);
+
+        await enforceLimits(db);
+    } catch (e) {
+        console.warn(`Cache write failed for ${key}:`, e);
+    }
+};
@@ -0,0 +1,103 @@
+import { ChartData, Store, SummaryData } from '../types';
+import { isFranchise } from './brands';
+
+/**
+ * 업종 분류 (대 → 중 → 소)
+ * 업종명은 상권정보 개편 때마다 표기가 바뀌므로 필터와 묶음은 분류 코드로 하고, 이름은 표시할 때만 씁니다.
+ * 코드가 비어 있는 행(오래된 캐시 등)은 이름을, 이름도 없으면 "기타"를 키로 씁니다.
+ */
+
+export type CategoryLevel = 'large' | 'mid' | 'small';
+
+export const CATEGORY_LEVELS: CategoryLevel[] = ['large', 'mid', 'small'];
+
+export const CATEGORY_LEVEL_LABELS: Record<CategoryLevel, string> = { large: "대분류", mid: "중분류", small: "소분류" };
+
+const FIELDS = {
+    large: { code: 'indsLclsCd', name: 'indsLclsNm' },
+    mid: { code: 'indsMclsCd', name: 'indsMclsNm' },
+    small: { code: 'indsSclsCd', name: 'indsSclsNm' }
+} as const;
+
+// 선택한 분류 코드 (상위가 비어 있으면 하위도 비어 있음)
+export interface CategoryFilter {
+    large: string | null;
+    mid: string | null;
+    small: string | null;
+}
+
+export const EMPTY_CATEGORY_FILTER: CategoryFilter = { large: null, mid: null, small: null };
+
+// 분류 필드만 있으면 되므로 스냅샷 점포(SnapshotStore)도 받음
+type CategoryFields = Partial<Pick<Store, 'indsLclsCd' | 'indsLclsNm' | 'indsMclsCd' | 'indsMclsNm' | 'indsSclsCd' | 'indsSclsNm'>>;
+
+export const categoryCode = (store: CategoryFields, level: CategoryLevel): string =>
+    store[FIELDS[level].code] || store[FIELDS[level].name] || "기타";
+
+export const categoryName = (store: CategoryFields, level: CategoryLevel): string =>
+    store[FIELDS[level].name] || "기타";
+
+export const matchesCategory = (store: Store, filter: CategoryFilter): boolean =>
+    CATEGORY_LEVELS.every(level => !filter[level] || categoryCode(store, level) === filter[level]);
+
+/**
+ * 코드 → 표시 이름 (같은 코드에 이름이 여러 개면 가장 많이 쓰인 이름)
+ */
+export const categoryLabels = (stores: Store[]): Record<string, string> => {
+    const tallies: Record<string, Record<string, number>> = {};
+    stores.forEach(s => CATEGORY_LEVELS.forEach(level => {
+        const code = categoryCode(s, level);
+        const names = tallies[code] || (tallies[code] = {});
+        const name = categoryName(s, level);
+        names[name] = (names[name] || 0) + 1;
+    }));
+    return Object.fromEntries(Object.entries(tallies).map(([code, names]) =>
+        [code, Object.entries(names).sort((a, b) => b[1] - a[1])[0][0]]
+    ));
+};
+
+/**
+ * 분류별 점포 수 (많은 순, 같으면 코드 순)
+ */
+export const countCategories = (stores: Store[], level: CategoryLevel): ChartData[] => {
+    const groups: Record<string, { name: string; count: number }> = {};
+    stores.forEach(s => {
+        const code = categoryCode(s, level);
+        if (!groups[code]) groups[code] = { name: categoryName(s, level), count: 0 };
+        groups[code].count++;
+    });
+    return Object.entries(groups)
+        .map(([code, g]) => ({ code, name: g.name, count: g.count, value: g.count }))
+        .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+};
+
+/**
+ * 분류별 종합 요약 (구성비 · 프랜차이즈 · 1층 비율), 대표 세부업종은 한 단계 아래 분류에서 가장 많은 업종
+ */
+export const summarizeCategories = (stores: Store[], level: CategoryLevel): SummaryData[] => {
+    const child = CATEGORY_LEVELS[CATEGORY_LEVELS.indexOf(level) + 1];
+    const groups: Record<string, { name: string; count: number; franchise: number; firstFloor: number; children: Record<string, number> }> = {};
+    const childNames: Record<string, string> = {};   // 하위 분류 코드 → 표시 이름
+    stores.forEach(s => {
+        const code = categoryCode(s, level);
+        const g = groups[code] || (groups[code] = { name: categoryName(s, level), count: 0, franchise: 0, firstFloor: 0, children: {} });
+        g.count++;
+        if (isFranchise(s)) g.franchise++;
+        if (s.floor === 1) g.firstFloor++;
+        if (child) {
+            const childCode = categoryCode(s, child);
+            g.children[childCode] = (g.children[childCode] || 0) + 1;
+            if (!childNames[childCode]) childNames[childCode] = categoryName(s, child);
+        }
+    });
+
+    return Object.entries(groups).map(([code, g]) => {
+        const [topChild] = Object.entries(g.children).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        return {
+            code, name: g.name, count: g.count, ratio: stores.length ? (g.count / stores.length) * 100 : 0,
+            franchiseCount: g.franchise, franchiseRatio: (g.franchise / g.count) * 100,
+            firstFloorCount: g.firstFloor, firstFloorRatio: (g.firstFloor / g.count) * 100,
+            topChild: topChild ? childNames[topChild[0]] : "-"
+        };
+    }).sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+};
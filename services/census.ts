@@ -0,0 +1,38 @@
+import { CensusStats } from '../types';
+
+/**
+ * 상주 인구 기반 파생 지표
+ * SGIS 인구·가구·사업체 통계와 분석 구역의 점포 수로 배후 수요 대비 점포 밀도를 계산합니다.
+ * 분모가 0이면 값은 null입니다.
+ */
+
+export interface CensusRatio {
+    key: string;
+    label: string;
+    value: number | null;
+    unit: string;
+    digits: number;          // 표시할 소수점 자릿수
+    hint: string;
+}
+
+const ratio = (numerator: number, denominator: number, scale = 1): number | null =>
+    denominator > 0 ? (numerator / denominator) * scale : null;
+
+export const censusRatios = (census: CensusStats, storeCount: number): CensusRatio[] => {
+    const male = census.ageGroups.reduce((sum, g) => sum + g.male, 0);
+    const female = census.ageGroups.reduce((sum, g) => sum + g.female, 0);
+    const senior = census.ageGroups
+        .filter(g => g.age === "60대" || g.age === "70세 이상")
+        .reduce((sum, g) => sum + g.male + g.female, 0);
+    const ageTotal = male + female;
+
+    return [
+        { key: "storesPer1000", label: "인구 1천 명당 점포", value: ratio(storeCount, census.population, 1000), unit: "개", digits: 1, hint: "값이 클수록 상주 인구 대비 점포가 많음 (외부 유입 의존)" },
+        { key: "residentsPerStore", label: "점포당 상주 인구", value: ratio(census.population, storeCount), unit: "명", digits: 0, hint: "점포 하나가 나눠 갖는 배후 인구" },
+        { key: "storesPerHousehold", label: "100가구당 점포", value: ratio(storeCount, census.households, 100), unit: "개", digits: 1, hint: "가구 기준 점포 밀도" },
+        { key: "employeesPerResident", label: "상주 인구 대비 종사자", value: ratio(census.employees, census.population, 100), unit: "%", digits: 0, hint: "100%를 넘으면 주간 직장 인구가 상주 인구보다 많은 업무 지역" },
+        { key: "employeesPerCompany", label: "사업체당 종사자", value: ratio(census.employees, census.companies), unit: "명", digits: 1, hint: "사업체 평균 규모" },
+        { key: "seniorShare", label: "60세 이상 비율", value: ratio(senior, ageTotal, 100), unit: "%", digits: 1, hint: "성·연령별 인구 기준" },
+        { key: "sexRatio", label: "성비 (여성 100명당 남성)", value: ratio(male, female, 100), unit: "명", digits: 1, hint: "성·연령별 인구 기준" }
+    ];
+};
@@ -0,0 +1,68 @@
+import { CategoryChurn, SnapshotStore, StoreChurn, StoreSnapshot } from '../types';
+import { distanceMeters } from './geometry';
+import { categoryCode, categoryName } from './categories';
+
+/**
+ * 두 기준월 스냅샷 사이의 점포 변동 (상가업소번호 bizesId 기준)
+ * - 신규: 이후에만 있는 점포, 폐업: 이전에만 있는 점포
+ * - 이전: 양쪽에 있지만 좌표가 MOVE_THRESHOLD_M 이상 떨어졌거나 도로명주소가 바뀐 점포
+ * - 업종 변경: 양쪽에 있지만 중분류 코드가 바뀐 점포
+ * 업종별 순증감에서 업종 변경은 이전 업종의 감소, 새 업종의 증가로 셉니다.
+ */
+
+// 좌표 보정만으로도 수 m씩 움직이므로 이보다 가까우면 같은 자리로 봄
+const MOVE_THRESHOLD_M = 30;
+
+// 업종명은 기준월 사이에 바뀔 수 있어 분류 코드로 묶음
+const categoryKey = (s: SnapshotStore) => `${categoryCode(s, 'large')}\u0000${categoryCode(s, 'mid')}`;
+
+export const diffSnapshots = (before: StoreSnapshot, after: StoreSnapshot): StoreChurn => {
+    const beforeById = new Map(before.stores.map(s => [s.bizesId, s]));
+    const afterById = new Map(after.stores.map(s => [s.bizesId, s]));
+
+    const opened = after.stores.filter(s => !beforeById.has(s.bizesId));
+    const closed = before.stores.filter(s => !afterById.has(s.bizesId));
+    const moved: StoreChurn['moved'] = [];
+    const recategorized: StoreChurn['recategorized'] = [];
+
+    const categories = new Map<string, CategoryChurn>();
+    // 이름은 표시용이며, 같은 코드의 이름이 바뀌었으면 이후 기준월의 이름을 씀
+    const category = (s: SnapshotStore, relabel = false) => {
+        const key = categoryKey(s);
+        let entry = categories.get(key);
+        if (!entry) {
+            entry = { code: categoryCode(s, 'mid'), large: categoryName(s, 'large'), mid: categoryName(s, 'mid'), before: 0, after: 0, opened: 0, closed: 0, net: 0 };
+            categories.set(key, entry);
+        } else if (relabel) {
+            entry.large = categoryName(s, 'large');
+            entry.mid = categoryName(s, 'mid');
+        }
+        return entry;
+    };
+
+    before.stores.forEach(s => category(s).before++);
+    after.stores.forEach(s => category(s, true).after++);
+    opened.forEach(s => category(s).opened++);
+    closed.forEach(s => category(s).closed++);
+
+    after.stores.forEach(next => {
+        const prev = beforeById.get(next.bizesId);
+        if (!prev) return;
+        const distance = distanceMeters(prev.lat, prev.lon, next.lat, next.lon);
+        if (distance >= MOVE_THRESHOLD_M || (prev.rdnmAdr && next.rdnmAdr && prev.rdnmAdr !== next.rdnmAdr)) {
+            moved.push({ before: prev, after: next, distance });
+        }
+        if (categoryCode(prev, 'mid') !== categoryCode(next, 'mid')) {
+            recategorized.push({ before: prev, after: next });
+            category(prev).closed++;
+            category(next).opened++;
+        }
+    });
+
+    const byCategory = [...categories.values()]
+        .map(c => ({ ...c, net: c.after - c.before }))
+        .filter(c => c.opened > 0 || c.closed > 0 || c.net !== 0)
+        .sort((a, b) => Math.abs(b.net) - Math.abs(a.net) || (b.opened + b.closed) - (a.opened + a.closed));
+
+    return { from: before.stdrYm, to: after.stdrYm, opened, closed, moved, recategorized, byCategory };
+};
@@ -0,0 +1,134 @@
+import { Store, StoreCluster } from '../types';
+import { isFranchise } from './brands';
+import { countCategories } from './categories';
+
+/**
+ * 점포 밀집 구역 (DBSCAN)
+ * 건물명이 없거나 제각각이어도 좌표만으로 가까이 모인 점포 무리를 찾습니다.
+ * 반경 CLUSTER_EPS_M 안에 CLUSTER_MIN_STORES개 이상(자기 포함)이 있는 점포를 핵심점으로 보고,
+ * 핵심점끼리 이어지는 무리와 그 경계 점포를 한 구역으로 묶습니다. 어디에도 속하지 않은 점포는 제외합니다.
+ */
+
+export const CLUSTER_EPS_M = 35;
+export const CLUSTER_MIN_STORES = 8;
+// 이보다 점포가 많으면(시군구 단위 등) 화면을 멈추지 않도록 밀집 구역을 계산하지 않음
+export const CLUSTER_MAX_STORES = 10_000;
+const HULL_PADDING_M = 12;    // 외곽선이 점포 위를 지나지 않도록 띄우는 거리
+
+export const CLUSTER_COLORS = ['#e11d48', '#7c3aed', '#0891b2', '#ca8a04', '#16a34a', '#db2777', '#2563eb', '#ea580c'];
+
+const M_PER_DEG = 111_320;
+
+type XY = [number, number];
+
+// 구역 크기에서는 등장방형 투영으로 충분 (m 단위 평면 좌표)
+const projector = (lat0: number) => {
+    const cos = Math.cos(lat0 * Math.PI / 180);
+    return {
+        toXY: (lat: number, lon: number): XY => [lon * M_PER_DEG * cos, lat * M_PER_DEG],
+        toLatLon: ([x, y]: XY): number[] => [y / M_PER_DEG, x / (M_PER_DEG * cos)]
+    };
+};
+
+// Andrew monotone chain (반시계 방향, 시작점 반복 없음)
+const convexHull = (points: XY[]): XY[] => {
+    const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    const cross = (o: XY, a: XY, b: XY) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+    const half = (list: XY[]) => {
+        const out: XY[] = [];
+        list.forEach(p => {
+            while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop();
+            out.push(p);
+        });
+        out.pop();
+        return out;
+    };
+    return [...half(sorted), ...half([...sorted].reverse())];
+};
+
+const dbscan = (points: XY[], eps: number, minPoints: number): number[] => {
+    const cell = (v: number) => Math.floor(v / eps);
+    const grid = new Map<string, number[]>();
+    points.forEach(([x, y], i) => {
+        const key = `${cell(x)},${cell(y)}`;
+        const bucket = grid.get(key);
+        if (bucket) bucket.push(i); else grid.set(key, [i]);
+    });
+    const neighbours = (i: number) => {
+        const [x, y] = points[i];
+        const out: number[] = [];
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                grid.get(`${cell(x) + dx},${cell(y) + dy}`)?.forEach(j => {
+                    if ((points[j][0] - x) ** 2 + (points[j][1] - y) ** 2 <= eps * eps) out.push(j);
+                });
+            }
+        }
+        return out;
+    };
+
+    const labels = new Array<number>(points.length).fill(-2);   // -2 미방문, -1 잡음
+    const queued = new Uint8Array(points.length);                // 이미 확장 대기열에 넣은 점 (중복 적재 방지)
+    let next = 0;
+    points.forEach((_, i) => {
+        if (labels[i] !== -2) return;
+        const seeds = neighbours(i);
+        if (seeds.length < minPoints) { labels[i] = -1; return; }
+        const id = next++;
+        labels[i] = id;
+        queued[i] = 1;
+        const queue: number[] = [];
+        const enqueue = (list: number[]) => list.forEach(j => {
+            if (queued[j] || labels[j] >= 0) return;
+            queued[j] = 1;
+            queue.push(j);
+        });
+        enqueue(seeds);
+        for (let k = 0; k < queue.length; k++) {
+            const j = queue[k];
+            if (labels[j] === -1) { labels[j] = id; continue; }   // 경계점 (핵심점이 아님은 이미 확인됨)
+            labels[j] = id;
+            const more = neighbours(j);
+            if (more.length >= minPoints) enqueue(more);
+        }
+    });
+    return labels;
+};
+
+/**
+ * 밀집 구역 목록 (점포 수 많은 순)
+ */
+export const clusterStores = (stores: Store[], eps = CLUSTER_EPS_M, minStores = CLUSTER_MIN_STORES): StoreCluster[] => {
+    if (stores.length < minStores) return [];
+    const { toXY, toLatLon } = projector(stores.reduce((sum, s) => sum + s.lat, 0) / stores.length);
+    const points = stores.map(s => toXY(s.lat, s.lon));
+    const labels = dbscan(points, eps, minStores);
+
+    const groups = new Map<number, number[]>();
+    labels.forEach((label, i) => {
+        if (label < 0) return;
+        const members = groups.get(label);
+        if (members) members.push(i); else groups.set(label, [i]);
+    });
+
+    const padding: XY[] = Array.from({ length: 8 }, (_, k) => [Math.cos(k * Math.PI / 4) * HULL_PADDING_M, Math.sin(k * Math.PI / 4) * HULL_PADDING_M]);
+
+    return [...groups.values()]
+        .sort((a, b) => b.length - a.length)
+        .map((members, index) => {
+            const memberStores = members.map(i => stores[i]);
+            const hull = convexHull(members.flatMap(i => padding.map(([dx, dy]): XY => [points[i][0] + dx, points[i][1] + dy]))).map(toLatLon);
+
+            return {
+                id: index + 1,
+                storeIds: memberStores.map(s => s.bizesId),
+                lat: memberStores.reduce((sum, s) => sum + s.lat, 0) / members.length,
+                lon: memberStores.reduce((sum, s) => sum + s.lon, 0) / members.length,
+                hull: [...hull, hull[0]],
+                topCategories: countCategories(memberStores, 'mid').slice(0, 3).map(({ code, name, count }) => ({ code, name, count })),
+                franchiseRate: (memberStores.filter(isFranchise).length / members.length) * 100
+            };
+        });
+};
+
+export const clusterColor = (id: number) => CLUSTER_COLORS[(id - 1) % CLUSTER_COLORS.length];
@@ -0,0 +1,59 @@
+import { Store } from '../types';
+import { distanceMeters } from './geometry';
+import { isFranchise, matchBrand, BRAND_MATCH_THRESHOLD } from './brands';
+import { categoryCode } from './categories';
+
+/**
+ * 후보지 주변 경쟁 점포
+ * 후보지(검색·드래그한 지점)에서 직선거리로 COMPETITOR_RINGS_M 가장 바깥 반경 안의 경쟁 점포를 가까운 순으로 찾습니다.
+ * - 업종 대상: 같은 중분류 코드(indsMclsCd) 점포 (이름은 표시용)
+ * - 브랜드 대상: 그 브랜드로 판별되는 점포 (같은 브랜드 가맹점 간 거리 확인이나 특정 경쟁 브랜드 추적용)
+ */
+
+export const COMPETITOR_RINGS_M = [100, 300, 500];
+export const COMPETITOR_MAX_M = COMPETITOR_RINGS_M[COMPETITOR_RINGS_M.length - 1];
+
+export type CompetitorTarget = { kind: 'mid'; code: string; name: string } | { kind: 'brand'; name: string };
+
+export interface Competitor {
+    store: Store;
+    distance: number;        // m
+    franchise: boolean;
+    brand: string | null;    // 브랜드 사전에서 찾은 브랜드
+}
+
+export interface CompetitorRing {
+    radius: number;
+    count: number;
+    franchiseCount: number;
+}
+
+const brandOf = (store: Store) => {
+    const match = matchBrand(store);
+    return match && match.confidence >= BRAND_MATCH_THRESHOLD ? match.entry.brand : null;
+};
+
+export const isCompetitor = (store: Store, target: CompetitorTarget): boolean =>
+    target.kind === 'mid' ? categoryCode(store, 'mid') === target.code : brandOf(store) === target.name;
+
+/**
+ * 가장 바깥 반경 안의 경쟁 점포 (가까운 순)
+ */
+export const findCompetitors = (stores: Store[], site: { lat: number; lon: number }, target: CompetitorTarget): Competitor[] =>
+    stores
+        .filter(s => isCompetitor(s, target))
+        .map(store => ({
+            store,
+            distance: distanceMeters(site.lat, site.lon, store.lat, store.lon),
+            franchise: isFranchise(store),
+            brand: brandOf(store)
+        }))
+        .filter(c => c.distance <= COMPETITOR_MAX_M)
+        .sort((a, b) => a.distance - b.distance);
+
+// 반경별 누적 점포 수 (100m 안의 점포는 300m, 500m에도 포함)
+export const competitorRings = (competitors: Competitor[]): CompetitorRing[] =>
+    COMPETITOR_RINGS_M.map(radius => {
+        const inside = competitors.filter(c => c.distance <= radius);
+        return { radius, count: inside.length, franchiseCount: inside.filter(c => c.franchise).length };
+    });
@@ -0,0 +1,149 @@
+/**
+ * 스트리밍 CSV 파서 (RFC 4180)
+ * - 따옴표로 감싼 필드, 필드 안의 쉼표/줄바꿈, "" 이스케이프
+ * - CRLF / LF / CR 줄바꿈
+ * - UTF-8 BOM 제거
+ * 청크 경계에서 필드나 줄이 잘려도 이어서 처리하므로, 파일 전체를 메모리에 올리지 않고 읽을 수 있습니다.
+ */
+
+export interface CsvParser {
+    push(text: string): void;
+    end(): void;
+}
+
+const COMMA = 44;
+const LF = 10;
+const CR = 13;
+const QUOTE = 34;
+
+export const createCsvParser = (onRow: (fields: string[]) => void): CsvParser => {
+    let field = "";
+    let row: string[] = [];
+    let inQuotes = false;
+    let quoteInQuoted = false;   // 따옴표 필드 안에서 직전 문자가 따옴표 (닫힘인지 "" 이스케이프인지 다음 문자로 판단)
+    let afterCR = false;         // CRLF의 LF를 건너뛰기 위해
+    let atStart = true;
+
+    const endField = () => {
+        row.push(field);
+        field = "";
+    };
+
+    const endRow = () => {
+        endField();
+        // 빈 줄은 무시
+        if (row.length > 1 || row[0] !== "") onRow(row);
+        row = [];
+    };
+
+    return {
+        push(text: string) {
+            if (atStart && text.length > 0) {
+                if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+                atStart = false;
+            }
+
+            const n = text.length;
+            let i = 0;
+            while (i < n) {
+                const c = text.charCodeAt(i);
+
+                if (afterCR) {
+                    afterCR = false;
+                    if (c === LF) { i++; continue; }
+                }
+
+                if (inQuotes) {
+                    if (quoteInQuoted) {
+                        quoteInQuoted = false;
+                        if (c === QUOTE) { field += '"'; i++; continue; }
+                        inQuotes = false;   // 닫는 따옴표였으므로 현재 문자는 아래에서 일반 처리
+                    } else {
+                        const q = text.indexOf('"', i);
+                        if (q === -1) { field += text.slice(i); i = n; continue; }
+                        field += text.slice(i, q);
+                        quoteInQuoted = true;
+                        i = q + 1;
+                        continue;
+                    }
+                }
+
+                if (c === QUOTE && field === "") { inQuotes = true; i++; continue; }
+                if (c === COMMA) { endField(); i++; continue; }
+                if (c === LF) { endRow(); i++; continue; }
+                if (c === CR) { endRow(); afterCR = true; i++; continue; }
+
+                // 다음 특수 문자까지 한 번에 복사
+                let j = i + 1;
+                while (j < n) {
+                    const d = text.charCodeAt(j);
+                    if (d === COMMA || d === LF || d === CR || d === QUOTE) break;
+                    j++;
+                }
+                field += text.slice(i, j);
+                i = j;
+            }
+        },
+
+        end() {
+            if (quoteInQuoted) inQuotes = false;
+            if (field !== "" || row.length > 0 || inQuotes) endRow();
+            inQuotes = false;
+        }
+    };
+};
+
+// 인코딩 판별에 사용할 앞부분 크기
+const SNIFF_BYTES = 64 * 1024;
+
+/**
+ * 바이트 스트림 디코더 (UTF-8 / CP949 자동 판별)
+ * 공공데이터 CSV는 CP949(EUC-KR)로 배포되는 경우가 많아, 앞부분이 올바른 UTF-8이 아니면 CP949로 읽습니다.
+ * (브라우저의 'euc-kr' 디코더는 CP949 확장 문자를 포함합니다.)
+ */
+export const createCsvDecoder = () => {
+    let decoder: TextDecoder | null = null;
+    let pending: Uint8Array[] = [];
+    let pendingSize = 0;
+
+    const detect = (bytes: Uint8Array): string => {
+        if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+        try {
+            new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+            return 'utf-8';
+        } catch (e) {
+            return 'euc-kr';
+        }
+    };
+
+    const flushPending = (): string => {
+        const joined = new Uint8Array(pendingSize);
+        let offset = 0;
+        pending.forEach(chunk => {
+            joined.set(chunk, offset);
+            offset += chunk.length;
+        });
+        pending = [];
+        pendingSize = 0;
+        decoder = new TextDecoder(detect(joined));
+        return decoder.decode(joined, { stream: true });
+    };
+
+    return {
+        get encoding() {
+            return decoder?.encoding ?? null;
+        },
+
+        decode(chunk: Uint8Array): string {
+            if (decoder) return decoder.decode(chunk, { stream: true });
+            pending.push(chunk);
+            pendingSize += chunk.length;
+            return pendingSize >= SNIFF_BYTES ? flushPending() : "";
+        },
+
+        end(): string {
+            const head = decoder ? "" : flushPending();
+            return head + decoder!.decode();
+        }
+    };
+};
@@ -0,0 +1,68 @@
+import { CustomArea, Zone, ZoneGeometry } from '../types';
+import { geometryArea, geometryBounds } from './geometry';
+
+/**
+ * 직접 그린 분석 영역
+ * 이름을 붙여 브라우저 localStorage에 저장하고, 다시 열 때 Zone(type: 'custom')으로 바꿔 분석 흐름에 넘깁니다.
+ */
+
+const STORAGE_KEY = "zone-insight-custom-areas";
+
+const isValidArea = (area: any): area is CustomArea =>
+    area && typeof area.id === 'string' && typeof area.name === 'string' && Array.isArray(area.geometry) && area.geometry.length > 0;
+
+export const listCustomAreas = (): CustomArea[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+        return Array.isArray(saved) ? saved.filter(isValidArea) : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+const writeAreas = (areas: CustomArea[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(areas));
+    } catch (e) {
+        console.warn("Custom area save failed:", e);
+    }
+};
+
+/**
+ * 새 영역 저장 (같은 이름이 있으면 형상을 덮어씀)
+ */
+export const saveCustomArea = (name: string, geometry: ZoneGeometry): CustomArea => {
+    const areas = listCustomAreas();
+    const existing = areas.find(area => area.name === name);
+    const area: CustomArea = {
+        id: existing?.id || `custom-${Date.now().toString(36)}`,
+        name,
+        geometry,
+        createdAt: new Date().toISOString()
+    };
+    writeAreas([area, ...areas.filter(a => a.id !== area.id)]);
+    return area;
+};
+
+export const deleteCustomArea = (id: string) => {
+    writeAreas(listCustomAreas().filter(area => area.id !== id));
+};
+
+/**
+ * 저장 영역 → 분석용 Zone (중심 좌표는 외접 사각형의 중심)
+ */
+export const customAreaToZone = (area: Pick<CustomArea, 'id' | 'name' | 'geometry'>): Zone => {
+    const bounds = geometryBounds(area.geometry);
+    return {
+        trarNo: area.id,
+        mainTrarNm: area.name,
+        trarArea: Math.round(geometryArea(area.geometry)),
+        ctprvnNm: "",
+        signguNm: "",
+        coords: "",
+        type: 'custom',
+        parsedPolygon: area.geometry,
+        searchLat: bounds ? (bounds.minLat + bounds.maxLat) / 2 : undefined,
+        searchLon: bounds ? (bounds.minLon + bounds.maxLon) / 2 : undefined
+    };
+};
@@ -0,0 +1,51 @@
+import { DiversityIndex, Store, ZoneDiversity } from '../types';
+import { categoryCode } from './categories';
+
+/**
+ * 업종 다양성/집중도
+ * 섀넌 지수(H)는 업종이 고르게 섞일수록 커지고, HHI는 한 업종에 몰릴수록 커집니다.
+ * 유효 업종 수 exp(H)는 "같은 다양성을 가지려면 균등한 업종이 몇 개 필요한가"로 읽으면 됩니다.
+ * 업종명이 개편으로 바뀌어도 한 업종으로 세도록 분류 코드로 묶습니다.
+ */
+
+// 미국 법무부 시장집중도 기준을 그대로 씁니다 (1,500 미만 분산, 2,500 이상 집중)
+export const HHI_MODERATE = 1500;
+export const HHI_CONCENTRATED = 2500;
+
+export type ConcentrationLevel = 'diverse' | 'moderate' | 'concentrated';
+
+export const CONCENTRATION_LABELS: Record<ConcentrationLevel, string> = {
+    diverse: "혼합형",
+    moderate: "다소 집중",
+    concentrated: "단일 업종 집중"
+};
+
+export const concentrationLevel = (hhi: number): ConcentrationLevel =>
+    hhi >= HHI_CONCENTRATED ? 'concentrated' : hhi >= HHI_MODERATE ? 'moderate' : 'diverse';
+
+export const diversityIndex = (stores: Store[], level: keyof ZoneDiversity): DiversityIndex => {
+    const counts: Record<string, number> = {};
+    stores.forEach(s => { const code = categoryCode(s, level); counts[code] = (counts[code] || 0) + 1; });
+
+    const values = Object.values(counts);
+    let shannon = 0;
+    let hhi = 0;
+    values.forEach(count => {
+        const p = count / stores.length;
+        shannon -= p * Math.log(p);
+        hhi += (p * 100) ** 2;
+    });
+
+    return {
+        categories: values.length,
+        shannon,
+        evenness: values.length > 1 ? shannon / Math.log(values.length) : 0,
+        hhi,
+        effective: values.length ? Math.exp(shannon) : 0
+    };
+};
+
+export const zoneDiversity = (stores: Store[]): ZoneDiversity => ({
+    large: diversityIndex(stores, 'large'),
+    mid: diversityIndex(stores, 'mid')
+});
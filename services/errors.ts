@@ -0,0 +1,143 @@
+/**
+ * API 오류 분류
+ * 업스트림마다 제각각인 오류 표현(data.go.kr returnReasonCode, SGIS errCd, HTTP 상태,
+ * 프록시의 missing_key 응답 등)을 하나의 ApiError로 정규화합니다.
+ * UI는 메시지 문자열 대신 kind/source/retryable을 보고 복구 방법(재시도, 키 확인, 녹화 데이터 전환)을 고릅니다.
+ */
+
+export type ApiErrorKind =
+    | 'auth'      // 키 누락/미등록/만료, 토큰 발급 실패
+    | 'quota'     // 호출 한도 초과
+    | 'upstream'  // 업스트림 장애, 네트워크 오류, 시간 초과
+    | 'no_data'   // 조건에 맞는 데이터 없음
+    | 'parse'     // 응답 형식이 예상과 다름
+    | 'partial';  // 일부 페이지만 수집됨
+
+export type ApiSourceName = 'data.go.kr' | 'sgis' | 'vworld' | 'sbiz' | 'seoul' | 'fixture';
+
+export const SOURCE_LABELS: Record<ApiSourceName, string> = {
+    'data.go.kr': "공공데이터포털 (상가정보)",
+    sgis: "SGIS 통계지리정보",
+    vworld: "V-World 주소 검색",
+    sbiz: "소상공인 상권정보",
+    seoul: "서울시 추정매출",
+    fixture: "녹화 데이터"
+};
+
+// 인증 오류 시 확인해야 할 서버 환경 변수 (README 참고)
+export const SOURCE_KEY_HINTS: Partial<Record<ApiSourceName, string>> = {
+    'data.go.kr': "DATA_API_KEY",
+    sgis: "SGIS_SERVICE_ID / SGIS_SECRET_KEY",
+    vworld: "VWORLD_KEY / VWORLD_DOMAIN",
+    seoul: "SEOUL_API_KEY"
+};
+
+const DEFAULT_RETRYABLE: Record<ApiErrorKind, boolean> = {
+    auth: false,
+    quota: false,
+    upstream: true,
+    no_data: false,
+    parse: false,
+    partial: true
+};
+
+interface ApiErrorOptions {
+    source: ApiSourceName;
+    code?: string;          // 업스트림 오류 코드 (returnReasonCode, errCd, HTTP 상태)
+    retryable?: boolean;    // 생략하면 kind별 기본값
+    cause?: unknown;
+}
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly source: ApiSourceName;
+    readonly code?: string;
+    readonly retryable: boolean;
+
+    constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions) {
+        super(message, { cause: options.cause });
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.source = options.source;
+        this.code = options.code;
+        this.retryable = options.retryable ?? DEFAULT_RETRYABLE[kind];
+    }
+}
+
+export const isApiError = (e: unknown): e is ApiError => e instanceof ApiError;
+
+/**
+ * 공공데이터포털 returnReasonCode 분류
+ * https://www.data.go.kr 오픈API 에러 코드 표 기준
+ */
+const DATA_PORTAL_CODES: Record<string, ApiErrorKind> = {
+    "1": 'upstream',   // APPLICATION_ERROR
+    "4": 'upstream',   // HTTP_ERROR
+    "5": 'upstream',   // SERVICETIME_OUT
+    "3": 'no_data',    // NODATA_ERROR
+    "10": 'parse',     // INVALID_REQUEST_PARAMETER_ERROR
+    "12": 'upstream',  // NO_OPENAPI_SERVICE_ERROR
+    "20": 'auth',      // SERVICE_ACCESS_DENIED_ERROR
+    "22": 'quota',     // LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR
+    "30": 'auth',      // SERVICE_KEY_IS_NOT_REGISTERED_ERROR
+    "31": 'auth',      // DEADLINE_HAS_EXPIRED_ERROR
+    "32": 'auth',      // UNREGISTERED_IP_ERROR
+    "99": 'upstream'   // UNKNOWN_ERROR
+};
+
+export const fromDataPortalCode = (code: string | null | undefined, message: string): ApiError => {
+    const kind = (code && DATA_PORTAL_CODES[code]) || 'upstream';
+    return new ApiError(kind, message, { source: 'data.go.kr', code: code || undefined });
+};
+
+/**
+ * SGIS errCd 분류 (-401: 인증, -100: 검색 결과 없음)
+ */
+export const fromSgisErrCd = (errCd: number | string, message: string): ApiError => {
+    const code = String(errCd);
+    if (code === "-401") return new ApiError('auth', message, { source: 'sgis', code });
+    if (code === "-100") return new ApiError('no_data', message, { source: 'sgis', code });
+    return new ApiError('upstream', message, { source: 'sgis', code });
+};
+
+/**
+ * V-World 오류 분류 (response.status === "ERROR"일 때 error.code)
+ */
+const VWORLD_AUTH_CODES = ["INVALID_KEY", "INCORRECT_KEY", "UNAVAILABLE_KEY", "UNREGISTERED_KEY"];
+
+export const fromVworldError = (code: string | undefined, message: string): ApiError => {
+    if (code && VWORLD_AUTH_CODES.includes(code)) return new ApiError('auth', message, { source: 'vworld', code });
+    if (code === "OVER_REQUEST_LIMIT") return new ApiError('quota', message, { source: 'vworld', code });
+    return new ApiError('upstream', message, { source: 'vworld', code });
+};
+
+/**
+ * HTTP 오류 응답 분류
+ * 프록시(api/_lib/proxy.ts)는 { error, message, code? } JSON으로 자체 오류를 알려줍니다.
+ */
+export const fromHttpResponse = (status: number, body: string, source: ApiSourceName): ApiError => {
+    let proxyError: { error?: string; message?: string; code?: string | number } | null = null;
+    try {
+        proxyError = JSON.parse(body);
+    } catch (e) {
+        // 업스트림이 보낸 HTML/XML 오류 본문
+    }
+
+    const message = proxyError?.message || `HTTP status ${status}`;
+    const code = proxyError?.code !== undefined ? String(proxyError.code) : String(status);
+    if (proxyError?.error === 'missing_key' || proxyError?.error === 'auth_failed' || status === 401 || status === 403) {
+        return new ApiError('auth', message, { source, code });
+    }
+    if (status === 429) return new ApiError('quota', message, { source, code });
+    if (status === 404) return new ApiError('no_data', message, { source, code });
+    return new ApiError('upstream', message, { source, code, retryable: status >= 500 || status === 408 });
+};
+
+/**
+ * 알 수 없는 예외를 ApiError로 변환 (이미 ApiError면 그대로)
+ */
+export const toApiError = (e: unknown, source: ApiSourceName, kind: ApiErrorKind = 'upstream'): ApiError => {
+    if (isApiError(e)) return e;
+    const message = e instanceof Error ? e.message : String(e);
+    return new ApiError(kind, message, { source, cause: e });
+};
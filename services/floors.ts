@@ -0,0 +1,45 @@
+import { FloorBand, FloorBandCount, Store } from '../types';
+
+/**
+ * 층 분포
+ * 정규화된 층 번호(Store.floor)를 지하 / 1층 / 2층 / 3층 이상 / 층 미상으로 묶습니다.
+ * 여러 층에 걸친 점포("1~2층")는 출입 층으로 보는 가장 낮은 층에 셉니다.
+ */
+
+export const FLOOR_BANDS: Array<{ band: FloorBand; label: string; color: string }> = [
+    { band: 'upper', label: "3층 이상", color: "#6366f1" },
+    { band: 'second', label: "2층", color: "#3b82f6" },
+    { band: 'ground', label: "1층", color: "#f97316" },
+    { band: 'basement', label: "지하", color: "#64748b" },
+    { band: 'unknown', label: "층 미상", color: "#cbd5e1" }
+];
+
+export const floorBand = (floor: number | null): FloorBand => {
+    if (floor === null) return 'unknown';
+    if (floor < 0) return 'basement';
+    if (floor === 1) return 'ground';
+    if (floor === 2) return 'second';
+    return 'upper';
+};
+
+// -1 → "B1", 2 → "2F", 1~2층 → "1~2F"
+export const floorLabel = (store: Pick<Store, 'floor' | 'floorTo'>): string => {
+    const label = (n: number) => n < 0 ? `B${-n}` : `${n}`;
+    if (store.floor === null) return "";
+    if (store.floorTo === null) return store.floor < 0 ? label(store.floor) : `${store.floor}F`;
+    return `${label(store.floor)}~${label(store.floorTo)}F`;
+};
+
+/**
+ * 층 구간별 점포 수 (위층 → 지하 순, 점포가 없는 구간도 포함)
+ */
+export const floorDistribution = (stores: Pick<Store, 'floor'>[]): FloorBandCount[] => {
+    const counts: Record<FloorBand, number> = { basement: 0, ground: 0, second: 0, upper: 0, unknown: 0 };
+    stores.forEach(s => counts[floorBand(s.floor)]++);
+    return FLOOR_BANDS.map(({ band, label }) => ({
+        band,
+        label,
+        count: counts[band],
+        ratio: stores.length ? (counts[band] / stores.length) * 100 : 0
+    }));
+};
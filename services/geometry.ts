@@ -0,0 +1,327 @@
+import { ZoneGeometry } from '../types';
+
+/**
+ * 경계 형상 모듈
+ * 상권 경계(WKT)와 행정동 경계(GeoJSON)를 같은 형상 타입(ZoneGeometry)으로 변환하고,
+ * 점이 경계 안에 있는지 판별하고, 이웃한 경계를 하나로 합칩니다. (시군구 = 관할 행정동 합치기)
+ * 지도에 직접 그린 영역의 외접 사각형과 면적도 여기서 계산합니다.
+ * - WKT POLYGON / MULTIPOLYGON (구멍 포함)
+ * - GeoJSON Polygon / MultiPolygon / GeometryCollection, Feature / FeatureCollection
+ * 좌표는 [lat, lon] 순서로 저장합니다. (Leaflet과 같은 순서)
+ */
+
+// 원본 좌표 [x, y] → [lat, lon] (기본: WGS84 경위도 [lon, lat])
+export type Projector = (point: number[]) => number[];
+
+const lonLatToLatLon: Projector = ([lon, lat]) => [lat, lon];
+
+// 링이 되려면 점이 3개 이상 필요
+const isValidRing = (ring: number[][]) => ring.length >= 3;
+
+const toPolygon = (rings: number[][][], project: Projector): number[][][] | null => {
+    const projected = rings
+        .map(ring => ring
+            .filter(p => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]))
+            .map(p => project(p)))
+        .filter((ring, i) => i === 0 || isValidRing(ring));
+    // 외곽 링이 없으면 구멍만 남으므로 폴리곤 전체를 버림
+    if (projected.length === 0 || !isValidRing(projected[0])) return null;
+    return projected;
+};
+
+const collectPolygons = (polygons: number[][][][], project: Projector): ZoneGeometry => {
+    return polygons
+        .map(rings => toPolygon(rings, project))
+        .filter((polygon): polygon is number[][][] => polygon !== null);
+};
+
+// --- WKT ---
+
+/**
+ * WKT 괄호 구조를 중첩 배열로 읽기
+ * "((1 2, 3 4), (5 6, 7 8))" → [[[1, 2], [3, 4]], [[5, 6], [7, 8]]]
+ */
+const parseWktBody = (body: string): any[] => {
+    let i = 0;
+    const skipSpace = () => {
+        while (i < body.length && /\s/.test(body[i])) i++;
+    };
+
+    const parseList = (): any[] => {
+        i++;   // '('
+        const items: any[] = [];
+        while (i < body.length) {
+            skipSpace();
+            if (body[i] === '(') {
+                items.push(parseList());
+            } else {
+                const start = i;
+                while (i < body.length && body[i] !== ',' && body[i] !== ')') i++;
+                const point = body.slice(start, i).trim().split(/\s+/).map(Number);
+                if (point.length >= 2) items.push(point);
+            }
+            skipSpace();
+            if (body[i] === ',') { i++; continue; }
+            if (body[i] === ')') { i++; return items; }
+        }
+        throw new Error("WKT 괄호가 닫히지 않았습니다.");
+    };
+
+    skipSpace();
+    if (body[i] !== '(') throw new Error("WKT 좌표가 없습니다.");
+    return parseList();
+};
+
+/**
+ * WKT → 형상 (해석할 수 없으면 빈 배열)
+ * "SRID=4326;" 접두어와 Z/M 좌표는 무시합니다.
+ */
+export const parseWKT = (wkt: string, project: Projector = lonLatToLatLon): ZoneGeometry => {
+    if (!wkt) return [];
+    // 형식 이름이 빠진 좌표만 오면 POLYGON으로 간주
+    const match = wkt.trim().replace(/^SRID=\d+;/i, '').match(/^(MULTIPOLYGON|POLYGON)?\s*(?:Z|M|ZM)?\s*([\s\S]*)$/i);
+    if (!match || /^EMPTY$/i.test(match[2].trim())) return [];
+
+    try {
+        const body = parseWktBody(match[2]);
+        const polygons = match[1]?.toUpperCase() === 'MULTIPOLYGON' ? body : [body];
+        return collectPolygons(polygons, project);
+    } catch (e) {
+        console.warn("WKT parse failed:", e);
+        return [];
+    }
+};
+
+// --- GeoJSON ---
+
+/**
+ * GeoJSON → 형상 (지원하지 않는 형식은 빈 배열)
+ * FeatureCollection이면 모든 Feature의 폴리곤을 합칩니다.
+ */
+export const fromGeoJSON = (geojson: any, project: Projector = lonLatToLatLon): ZoneGeometry => {
+    if (!geojson || typeof geojson !== 'object') return [];
+    switch (geojson.type) {
+        case 'FeatureCollection':
+            return (geojson.features || []).flatMap((feature: any) => fromGeoJSON(feature, project));
+        case 'Feature':
+            return fromGeoJSON(geojson.geometry, project);
+        case 'GeometryCollection':
+            return (geojson.geometries || []).flatMap((geometry: any) => fromGeoJSON(geometry, project));
+        case 'Polygon':
+            return collectPolygons([geojson.coordinates || []], project);
+        case 'MultiPolygon':
+            return collectPolygons(geojson.coordinates || [], project);
+        default:
+            return [];
+    }
+};
+
+// --- 포함 판별 ---
+
+// 반직선 교차 판별 (링의 닫힘 여부와 관계없이 동작)
+const pointInRing = (lat: number, lon: number, ring: number[][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [latI, lonI] = ring[i];
+        const [latJ, lonJ] = ring[j];
+        if ((latI > lat) !== (latJ > lat) && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * 점이 폴리곤 안에 있는지 (외곽 링 안이면서 어떤 구멍에도 속하지 않을 때)
+ */
+export const pointInPolygon = (lat: number, lon: number, rings: number[][][]): boolean => {
+    if (rings.length === 0 || !pointInRing(lat, lon, rings[0])) return false;
+    return !rings.slice(1).some(hole => pointInRing(lat, lon, hole));
+};
+
+/**
+ * 점이 형상의 어느 한 폴리곤 안에 있는지
+ */
+export const pointInGeometry = (lat: number, lon: number, geometry: ZoneGeometry): boolean => {
+    return geometry.some(polygon => pointInPolygon(lat, lon, polygon));
+};
+
+// --- 범위/면적 ---
+
+export interface GeometryBounds {
+    minLat: number;
+    minLon: number;
+    maxLat: number;
+    maxLon: number;
+}
+
+/**
+ * 형상의 외접 사각형 (점이 없으면 null)
+ */
+export const geometryBounds = (geometry: ZoneGeometry): GeometryBounds | null => {
+    const points = geometry.flat(2);
+    if (points.length === 0) return null;
+    return {
+        minLat: Math.min(...points.map(p => p[0])),
+        minLon: Math.min(...points.map(p => p[1])),
+        maxLat: Math.max(...points.map(p => p[0])),
+        maxLon: Math.max(...points.map(p => p[1]))
+    };
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+
+// 신발끈 공식 (위도 기준 등장방형 투영, 상권 규모에서는 오차가 작음)
+const ringArea = (ring: number[][], cosLat: number): number => {
+    const toRad = Math.PI / 180;
+    let sum = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [latI, lonI] = ring[i];
+        const [latJ, lonJ] = ring[j];
+        sum += (lonJ * cosLat) * latI - (lonI * cosLat) * latJ;
+    }
+    return Math.abs(sum / 2) * (toRad * EARTH_RADIUS_M) ** 2;
+};
+
+/**
+ * 형상 면적 (㎡, 구멍 제외)
+ */
+export const geometryArea = (geometry: ZoneGeometry): number => {
+    const bounds = geometryBounds(geometry);
+    if (!bounds) return 0;
+    const cosLat = Math.cos(((bounds.minLat + bounds.maxLat) / 2) * Math.PI / 180);
+    return geometry.reduce((total, [outer, ...holes]) => {
+        return total + ringArea(outer, cosLat) - holes.reduce((sum, hole) => sum + ringArea(hole, cosLat), 0);
+    }, 0);
+};
+
+// 겹침 면적 표본 칸의 목표 크기 (m). 겹치는 범위가 작으면 칸 수를 줄여 판별 횟수를 아낌
+const INTERSECTION_CELL_M = 10;
+
+/**
+ * 두 형상이 겹치는 면적 (㎡, 격자 표본 추정)
+ * 두 외접 사각형이 겹치는 범위를 약 10m 칸(축마다 최대 maxGrid칸)으로 나눠, 칸 중심이 양쪽 형상에 모두 들어가는 칸의 면적을 더합니다.
+ * 외접 사각형이 겹치지 않으면 표본 없이 0을 돌려줍니다.
+ * 경계가 복잡해도(구멍, 여러 폴리곤) 포함 판별만으로 계산되며, 칸 크기만큼의 오차가 있습니다.
+ */
+export const intersectionArea = (a: ZoneGeometry, b: ZoneGeometry, maxGrid = 100): number => {
+    const boundsA = geometryBounds(a);
+    const boundsB = geometryBounds(b);
+    if (!boundsA || !boundsB) return 0;
+    const minLat = Math.max(boundsA.minLat, boundsB.minLat);
+    const maxLat = Math.min(boundsA.maxLat, boundsB.maxLat);
+    const minLon = Math.max(boundsA.minLon, boundsB.minLon);
+    const maxLon = Math.min(boundsA.maxLon, boundsB.maxLon);
+    if (minLat >= maxLat || minLon >= maxLon) return 0;
+
+    const toMeters = Math.PI / 180 * EARTH_RADIUS_M;
+    const cosLat = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const cellsFor = (meters: number) => Math.min(maxGrid, Math.max(1, Math.ceil(meters / INTERSECTION_CELL_M)));
+    const rows = cellsFor((maxLat - minLat) * toMeters);
+    const cols = cellsFor((maxLon - minLon) * toMeters * cosLat);
+
+    const stepLat = (maxLat - minLat) / rows;
+    const stepLon = (maxLon - minLon) / cols;
+    let inside = 0;
+    for (let i = 0; i < rows; i++) {
+        const lat = minLat + (i + 0.5) * stepLat;
+        for (let j = 0; j < cols; j++) {
+            const lon = minLon + (j + 0.5) * stepLon;
+            if (pointInGeometry(lat, lon, a) && pointInGeometry(lat, lon, b)) inside++;
+        }
+    }
+    return inside * (stepLat * toMeters) * (stepLon * toMeters * cosLat);
+};
+
+/**
+ * 두 좌표 사이 거리 (m, 하버사인)
+ */
+export const distanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const toRad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * toRad;
+    const dLon = (lon2 - lon1) * toRad;
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// --- 경계 합치기 ---
+
+const pointKey = ([lat, lon]: number[]) => `${lat.toFixed(7)},${lon.toFixed(7)}`;
+const edgeKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+// 링 a가 링 b 안에 있는지 (b의 꼭짓점이 아닌 a의 점으로 판별)
+const ringInside = (a: number[][], b: number[][]): boolean => {
+    const vertices = new Set(b.map(pointKey));
+    const probe = a.find(p => !vertices.has(pointKey(p)));
+    return probe ? pointInPolygon(probe[0], probe[1], [b]) : false;
+};
+
+/**
+ * 이웃한 폴리곤 합치기 (dissolve)
+ * 행정동 경계처럼 이웃 폴리곤이 경계선의 꼭짓점을 공유하면, 두 번 나오는 변(내부 경계)을 지우고
+ * 남은 변을 이어 외곽/구멍 링을 다시 만듭니다.
+ * 꼭짓점이 맞지 않아 링을 닫을 수 없으면 합치지 않고 폴리곤을 그대로 모아 반환합니다.
+ */
+export const dissolve = (geometries: ZoneGeometry[]): ZoneGeometry => {
+    const merged = geometries.flat();
+    const points = new Map<string, number[]>();
+    const counts = new Map<string, number>();
+    const edges: [string, string][] = [];
+
+    merged.forEach(polygon => polygon.forEach(ring => {
+        ring.forEach((point, i) => {
+            const next = ring[(i + 1) % ring.length];
+            const a = pointKey(point);
+            const b = pointKey(next);
+            if (a === b) return;   // 닫는 점
+            points.set(a, point);
+            points.set(b, next);
+            const key = edgeKey(a, b);
+            if (!counts.has(key)) edges.push([a, b]);
+            counts.set(key, (counts.get(key) || 0) + 1);
+        });
+    }));
+
+    // 한 번만 나온 변 = 합친 영역의 경계
+    const boundary = edges.filter(([a, b]) => counts.get(edgeKey(a, b)) === 1);
+    const adjacency = new Map<string, string[]>();
+    const link = (from: string, to: string) => {
+        if (!adjacency.has(from)) adjacency.set(from, []);
+        adjacency.get(from)!.push(to);
+    };
+    boundary.forEach(([a, b]) => { link(a, b); link(b, a); });
+
+    const used = new Set<string>();
+    const rings: number[][][] = [];
+    for (const [start, second] of boundary) {
+        if (used.has(edgeKey(start, second))) continue;
+        used.add(edgeKey(start, second));
+        const ring = [start];
+        let current = second;
+        while (current !== start) {
+            ring.push(current);
+            const next = adjacency.get(current)!.find(n => !used.has(edgeKey(current, n)));
+            if (!next) return merged;
+            used.add(edgeKey(current, next));
+            current = next;
+        }
+        if (ring.length >= 3) rings.push([...ring, start].map(key => points.get(key)!));
+    }
+    if (rings.length === 0) return merged;
+
+    // 다른 링 안에 몇 겹으로 들어 있는지: 짝수 = 외곽, 홀수 = 구멍
+    const parents = rings.map(ring => rings.filter(other => other !== ring && ringInside(ring, other)));
+    const polygons = new Map<number[][], number[][][]>();
+    rings.forEach((ring, i) => {
+        if (parents[i].length % 2 === 0) polygons.set(ring, [ring]);
+    });
+    rings.forEach((ring, i) => {
+        if (parents[i].length % 2 === 0) return;
+        // 구멍은 자신을 감싼 외곽 중 가장 안쪽에 붙임
+        const owner = parents[i]
+            .filter(parent => polygons.has(parent))
+            .sort((a, b) => parents[rings.indexOf(b)].length - parents[rings.indexOf(a)].length)[0];
+        if (owner) polygons.get(owner)!.push(ring);
+    });
+    return [...polygons.values()];
+};
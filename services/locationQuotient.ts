@@ -0,0 +1,76 @@
+import { AdminArea, Store } from '../types';
+import { categoryCode, categoryName } from './categories';
+
+/**
+ * 입지계수(LQ, Location Quotient)
+ * 업종의 구역 내 비중 ÷ 같은 업종의 상위 시군구 내 비중.
+ * 1보다 크면 시군구 평균보다 그 업종이 몰려 있고(특화/포화), 작으면 상대적으로 부족합니다.
+ * 점포가 몇 개 안 되는 업종은 비율이 크게 흔들리므로 MIN_ZONE_COUNT 미만이면 강조하지 않습니다.
+ */
+
+export type LqLevel = 'large' | 'mid';
+
+export interface CategoryLQ {
+    code: string;            // 업종 분류 코드
+    name: string;
+    largeCode: string;       // 중분류면 소속 대분류 코드, 대분류면 자기 자신
+    large: string;
+    zoneCount: number;
+    zoneShare: number;       // %
+    baseCount: number;
+    baseShare: number;       // %
+    lq: number | null;       // 시군구에 이 업종이 없으면 null
+    signal: 'over' | 'under' | 'neutral';
+}
+
+export const LQ_OVER = 1.25;
+export const LQ_UNDER = 0.8;
+const MIN_ZONE_COUNT = 3;
+
+/**
+ * 구역 점포가 가장 많이 속한 시군구 (LQ 기준 지역)
+ */
+export const parentDistrict = (stores: Store[]): AdminArea | null => {
+    const counts = new Map<string, { name: string; count: number }>();
+    stores.forEach(s => {
+        if (!s.signguCd) return;
+        const entry = counts.get(s.signguCd) || { name: s.signguNm, count: 0 };
+        entry.count++;
+        counts.set(s.signguCd, entry);
+    });
+    const [best] = [...counts.entries()].sort((a, b) => b[1].count - a[1].count);
+    return best ? { code: best[0], name: best[1].name } : null;
+};
+
+// 업종명은 개편 때 바뀔 수 있어 코드로 묶음
+const countBy = (stores: Store[], level: LqLevel) => {
+    const counts = new Map<string, { name: string; largeCode: string; large: string; count: number }>();
+    stores.forEach(s => {
+        const code = categoryCode(s, level);
+        const entry = counts.get(code) || { name: categoryName(s, level), largeCode: categoryCode(s, 'large'), large: categoryName(s, 'large'), count: 0 };
+        entry.count++;
+        counts.set(code, entry);
+    });
+    return counts;
+};
+
+/**
+ * 업종별 입지계수 (LQ가 높은 순, 시군구에 없는 업종은 맨 뒤)
+ * 시군구에는 있지만 구역에 하나도 없는 업종도 구역 점포 0개, 입지계수 0으로 포함합니다.
+ */
+export const locationQuotients = (zoneStores: Store[], baseStores: Store[], level: LqLevel): CategoryLQ[] => {
+    const zone = countBy(zoneStores, level);
+    const base = countBy(baseStores, level);
+    const codes = new Set([...zone.keys(), ...base.keys()]);
+
+    return [...codes].map(code => {
+        const { name, largeCode, large } = (zone.get(code) || base.get(code))!;
+        const count = zone.get(code)?.count || 0;
+        const baseCount = base.get(code)?.count || 0;
+        const zoneShare = zoneStores.length ? (count / zoneStores.length) * 100 : 0;
+        const baseShare = baseStores.length ? (baseCount / baseStores.length) * 100 : 0;
+        const lq = baseShare > 0 ? zoneShare / baseShare : null;
+        const signal = lq === null || count < MIN_ZONE_COUNT ? 'neutral' : lq >= LQ_OVER ? 'over' : lq <= LQ_UNDER ? 'under' : 'neutral';
+        return { code, name, largeCode, large, zoneCount: count, zoneShare, baseCount, baseShare, lq, signal } as CategoryLQ;
+    }).sort((a, b) => (b.lq ?? -1) - (a.lq ?? -1) || a.code.localeCompare(b.code));
+};
@@ -0,0 +1,197 @@
+import { Store, Zone, ValidationReport, DropReason } from '../types';
+
+/**
+ * 업스트림 레코드 검증/정규화
+ * API 응답은 숫자도 문자열로 오고, 필드가 비거나 표기가 제각각이므로
+ * 앱에서는 이 모듈을 거친 Store/Zone만 사용합니다.
+ * - 숫자 필드 변환 (좌표, 면적)
+ * - 층수 표기 정규화 ("1", "1층", "지상1층", "B1", "지하1층" ...)
+ * - 빈 지점명 정리
+ * - 사용할 수 없는 행은 버리고 사유별 건수를 보고
+ */
+
+// 업스트림 원본 레코드 (모든 값이 문자열이거나 누락될 수 있음)
+export type RawRecord = Record<string, unknown>;
+
+// 국내 좌표 범위 (제주 남단 ~ 강원 북단, 서해 ~ 독도)
+const LAT_RANGE: [number, number] = [33, 39];
+const LON_RANGE: [number, number] = [124, 132];
+
+// 지점명이 없음을 뜻하는 표기
+const EMPTY_MARKERS = new Set(["", "-", "없음", "null", "NULL", "(없음)"]);
+
+const text = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    return String(value).trim();
+};
+
+const toNumber = (value: unknown): number | null => {
+    const s = text(value).replace(/,/g, "");
+    if (!s) return null;
+    const n = Number(s);
+    return Number.isFinite(n) ? n : null;
+};
+
+const inRange = (n: number, [min, max]: [number, number]) => n >= min && n <= max;
+
+/**
+ * 응답 봉투에서 items 배열 추출
+ * { body: { items } }, { response: { body: { items } } }, { items: { item } } 등
+ * 업스트림/버전마다 다른 형태를 모두 받아들이고, 단건 객체는 배열로 감쌉니다.
+ */
+export const extractItems = (json: any): RawRecord[] => {
+    let items = json?.body?.items ?? json?.response?.body?.items ?? json?.items;
+    if (items && !Array.isArray(items) && typeof items === 'object' && 'item' in items) items = items.item;
+    if (!items) return [];
+    return (Array.isArray(items) ? items : [items]).filter(item => item && typeof item === 'object');
+};
+
+export const extractHeader = (json: any): RawRecord => json?.header ?? json?.response?.header ?? {};
+
+export const extractTotalCount = (json: any): number | null => toNumber(json?.body?.totalCount ?? json?.response?.body?.totalCount);
+
+// 숫자 없이 지하를 뜻하는 표기 ("지층" = 반지하층)
+const BASEMENT_WORDS = ["지하", "지층", "반지하"];
+
+const toLevel = (token: string): number | null => {
+    const digits = token.match(/\d+/);
+    if (!digits) return BASEMENT_WORDS.includes(token.replace(/F$/, "")) ? -1 : null;
+    const n = parseInt(digits[0], 10);
+    if (n === 0) return null;
+    const basement = !token.startsWith("지상") && /^(-|B|지하|지)/.test(token);
+    return basement ? -n : n;
+};
+
+/**
+ * 층수 표기 → 층 범위 (지상 1층 = 1, 지하 1층 = -1, 알 수 없으면 null)
+ * "1", "1층", "지상1층", "2F", "B1", "지하1층", "-1", "지층" 등을 받아들이고,
+ * "1~2층", "B1-1F"처럼 범위로 적힌 경우 낮은 층(floor)과 높은 층(floorTo)을 나눕니다.
+ */
+export const parseFloorRange = (raw: unknown): { floor: number | null; floorTo: number | null } => {
+    const s = text(raw).replace(/\s/g, "").toUpperCase();
+    if (!s) return { floor: null, floorTo: null };
+
+    // 맨 앞 "-"는 지하 표기이므로 그 뒤의 구분자로만 나눔
+    const levels = s.split(/[~∼,]|(?<=[\d층F])-/)
+        .map(toLevel)
+        .filter((n): n is number => n !== null);
+    if (levels.length === 0) return { floor: null, floorTo: null };
+    const floor = Math.min(...levels);
+    const floorTo = Math.max(...levels);
+    return { floor, floorTo: floorTo !== floor ? floorTo : null };
+};
+
+/**
+ * 층수 표기 → 층 번호 (범위면 가장 낮은 층)
+ */
+export const parseFloor = (raw: unknown): number | null => parseFloorRange(raw).floor;
+
+export const normalizeBranchName = (raw: unknown): string => {
+    const s = text(raw);
+    return EMPTY_MARKERS.has(s) ? "" : s;
+};
+
+const emptyReport = (): ValidationReport => ({ received: 0, accepted: 0, dropped: {} });
+
+const drop = (report: ValidationReport, reason: DropReason) => {
+    report.dropped[reason] = (report.dropped[reason] || 0) + 1;
+};
+
+const normalizeStore = (raw: RawRecord): Store | DropReason => {
+    const bizesNm = text(raw.bizesNm);
+    if (!bizesNm) return 'missing_name';
+
+    const lat = toNumber(raw.lat);
+    const lon = toNumber(raw.lon);
+    if (lat === null || lon === null) return 'missing_coords';
+    if (!inRange(lat, LAT_RANGE) || !inRange(lon, LON_RANGE)) return 'out_of_range';
+
+    const flrNo = text(raw.flrNo);
+    return {
+        bizesId: text(raw.bizesId),
+        bizesNm,
+        brchNm: normalizeBranchName(raw.brchNm),
+        indsLclsCd: text(raw.indsLclsCd),
+        indsLclsNm: text(raw.indsLclsNm),
+        indsMclsCd: text(raw.indsMclsCd),
+        indsMclsNm: text(raw.indsMclsNm),
+        indsSclsCd: text(raw.indsSclsCd),
+        indsSclsNm: text(raw.indsSclsNm),
+        ksicCd: text(raw.ksicCd),
+        ksicNm: text(raw.ksicNm),
+        signguCd: text(raw.signguCd),
+        signguNm: text(raw.signguNm),
+        adongCd: text(raw.adongCd),
+        adongNm: text(raw.adongNm),
+        rdnmAdr: text(raw.rdnmAdr),
+        lnoAdr: text(raw.lnoAdr),
+        bldNm: text(raw.bldNm),
+        flrNo,
+        ...parseFloorRange(flrNo),
+        lat,
+        lon,
+        stdrYm: text(raw.stdrYm) || undefined
+    };
+};
+
+/**
+ * 상가업소 목록 정규화
+ * 페이지가 겹쳐 같은 상가업소번호가 두 번 오는 경우도 제외합니다.
+ */
+export const normalizeStores = (records: RawRecord[]): { stores: Store[]; report: ValidationReport } => {
+    const report = emptyReport();
+    const seen = new Set<string>();
+    const stores: Store[] = [];
+
+    records.forEach(raw => {
+        report.received++;
+        const result = normalizeStore(raw);
+        if (typeof result === 'string') return drop(report, result);
+        if (result.bizesId) {
+            if (seen.has(result.bizesId)) return drop(report, 'duplicate');
+            seen.add(result.bizesId);
+        }
+        stores.push(result);
+    });
+
+    report.accepted = stores.length;
+    return { stores, report };
+};
+
+/**
+ * 주요 상권 목록 정규화 (경계 좌표가 없는 상권은 지도에 표시할 수 없어 제외)
+ */
+export const normalizeZones = (records: RawRecord[]): { zones: Zone[]; report: ValidationReport } => {
+    const report = emptyReport();
+    const zones: Zone[] = [];
+
+    records.forEach(raw => {
+        report.received++;
+        const trarNo = text(raw.trarNo);
+        const mainTrarNm = text(raw.mainTrarNm);
+        const coords = text(raw.coords);
+        if (!trarNo || !mainTrarNm) return drop(report, 'missing_name');
+        if (!coords) return drop(report, 'missing_coords');
+
+        zones.push({
+            trarNo,
+            mainTrarNm,
+            trarArea: toNumber(raw.trarArea) ?? 0,
+            ctprvnNm: text(raw.ctprvnNm),
+            signguNm: text(raw.signguNm),
+            coords,
+            stdrYm: text(raw.stdrYm) || undefined,
+            type: 'trade'
+        });
+    });
+
+    report.accepted = zones.length;
+    return { zones, report };
+};
+
+export const DROP_REASON_LABELS: Record<DropReason, string> = {
+    missing_name: "상호명 없음",
+    missing_coords: "좌표 없음",
+    out_of_range: "좌표 범위 오류",
+    duplicate: "중복"
+};
@@ -0,0 +1,164 @@
+import { FetchCompleteness, PageCheckpoint } from '../types';
+import { isApiError } from './errors';
+
+/**
+ * 페이지 단위 목록 API 공용 수집 엔진
+ * - AbortSignal로 중단 가능
+ * - 페이지별 재시도(지수 백오프), 재시도해도 소용없는 오류(인증, 한도 초과 등)는 즉시 중단
+ * - 이전 수집 결과(checkpoint)에서 누락된 페이지만 이어서 수집
+ * - 누락 페이지를 조용히 버리지 않고 완전성 보고서(report)로 반환
+ */
+
+export interface PageResponse<T> {
+    items: T[];
+    totalCount: number;
+    stdrYm: string;
+}
+
+export interface PagingOptions<T> {
+    pageSize: number;
+    signal?: AbortSignal;
+    onProgress?: (msg: string) => void;
+    checkpoint?: PageCheckpoint<T> | null;
+    concurrency?: number;
+    maxRetries?: number;
+}
+
+export interface PagingResult<T> {
+    items: T[];
+    stdrYm: string;
+    report: FetchCompleteness;
+    checkpoint: PageCheckpoint<T>;
+    lastError?: unknown;     // 누락 페이지가 있을 때 마지막 실패 원인
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+// 연속으로 이만큼 페이지가 실패하면 업스트림 장애로 보고 나머지 페이지는 누락으로 기록
+const MAX_CONSECUTIVE_FAILURES = 6;
+
+export const isAbortError = (e: any): boolean => e?.name === 'AbortError';
+
+const isRetryable = (e: unknown): boolean => !isApiError(e) || e.retryable;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const withRetry = async <R>(task: () => Promise<R>, maxRetries: number, signal?: AbortSignal): Promise<R> => {
+    let lastError: any;
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await task();
+        } catch (e) {
+            if (isAbortError(e) || !isRetryable(e)) throw e;
+            lastError = e;
+            if (attempt < maxRetries) {
+                const delay = BACKOFF_BASE_MS * 2 ** attempt;
+                await sleep(delay + Math.random() * delay * 0.3, signal);
+            }
+        }
+    }
+    throw lastError;
+};
+
+export const fetchAllPages = async <T>(
+    fetchPage: (pageNo: number, signal?: AbortSignal) => Promise<PageResponse<T>>,
+    options: PagingOptions<T>
+): Promise<PagingResult<T>> => {
+    const { pageSize, signal, onProgress } = options;
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    let state: PageCheckpoint<T>;
+    if (options.checkpoint && options.checkpoint.pages[1]) {
+        state = { ...options.checkpoint, pages: { ...options.checkpoint.pages } };
+    } else {
+        // 첫 페이지에서 전체 건수를 알 수 있으므로, 실패하면 오류를 그대로 전달
+        const first = await withRetry(() => fetchPage(1, signal), maxRetries, signal);
+        state = { totalCount: first.totalCount, stdrYm: first.stdrYm, pages: { 1: first.items } };
+    }
+
+    const totalPages = Math.max(1, Math.ceil(state.totalCount / pageSize));
+    const pending: number[] = [];
+    for (let page = 2; page <= totalPages; page++) {
+        if (!state.pages[page]) pending.push(page);
+    }
+
+    const failed: number[] = [];
+    let done = totalPages - pending.length;
+    let cursor = 0;
+    let consecutiveFailures = 0;
+    let lastError: unknown;
+    let stopped = false;
+
+    const worker = async () => {
+        while (cursor < pending.length) {
+            signal?.throwIfAborted();
+            if (stopped || consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+                failed.push(...pending.slice(cursor));
+                cursor = pending.length;
+                return;
+            }
+
+            const page = pending[cursor++];
+            try {
+                const result = await withRetry(() => fetchPage(page, signal), maxRetries, signal);
+                state.pages[page] = result.items;
+                consecutiveFailures = 0;
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                console.warn(`Page ${page} failed:`, e);
+                failed.push(page);
+                consecutiveFailures++;
+                lastError = e;
+                // 인증/한도 오류는 다른 페이지도 같은 결과이므로 나머지는 요청하지 않음
+                if (!isRetryable(e)) stopped = true;
+            }
+            done++;
+            onProgress?.(`${done} / ${totalPages} 페이지 데이터 수집 중...`);
+        }
+    };
+
+    if (pending.length > 0) {
+        onProgress?.(`${done} / ${totalPages} 페이지 데이터 수집 중...`);
+        await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+    }
+
+    const items: T[] = [];
+    let pagesReceived = 0;
+    for (let page = 1; page <= totalPages; page++) {
+        const pageItems = state.pages[page];
+        if (pageItems) {
+            pagesReceived++;
+            items.push(...pageItems);
+        }
+    }
+
+    const missingPages = failed.sort((a, b) => a - b);
+    return {
+        items,
+        stdrYm: state.stdrYm,
+        checkpoint: state,
+        lastError,
+        report: {
+            pagesExpected: totalPages,
+            pagesReceived,
+            missingPages,
+            totalCount: state.totalCount,
+            collectedCount: items.length,
+            complete: missingPages.length === 0
+        }
+    };
+};
@@ -0,0 +1,104 @@
+import { DongSalesSource, SeoulSalesData } from '../types';
+import { createEmptySalesData } from './seoulSalesIndex';
+import { SalesViewMode } from './salesTrend';
+
+/**
+ * 여러 행정동에 걸친 상권의 추정매출
+ * 서울시 매출은 행정동 단위이므로, 상권이 걸친 각 동의 매출 중 상권에 속하는 비율(가중치)만큼을 더해 상권 매출로 추정합니다.
+ * - 면적 가중: 동 면적 중 상권과 겹치는 면적의 비율
+ * - 점포 수 가중: 동 전체 점포 중 상권 안에 있는 점포의 비율
+ * 고른 방식으로 비율을 낼 수 없는 동(경계를 불러오지 못했거나 점포 수 조회 실패)은 다른 방식으로 대신 배분해,
+ * 그 동이 0%로 빠져 상권 매출이 적게 잡히지 않도록 합니다.
+ */
+
+export type SalesWeighting = 'area' | 'stores';
+
+export const WEIGHTING_LABELS: Record<SalesWeighting, string> = { area: "면적 가중", stores: "점포 수 가중" };
+
+const SCALAR_FIELDS = ['totalAmount', 'totalCount', 'weekdayAmount', 'weekendAmount', 'weekdayCount', 'weekendCount'] as const;
+const GROUP_FIELDS = ['dayAmount', 'dayCount', 'timeAmount', 'timeCount', 'genderAmount', 'genderCount', 'ageAmount', 'ageCount'] as const;
+
+export interface DongWeight {
+    weight: number;                  // 0~1
+    basis: SalesWeighting | null;    // 실제로 쓴 방식 (고른 방식과 다르면 대체한 것, 둘 다 불가하면 null)
+}
+
+const weightRatio = (source: DongSalesSource, weighting: SalesWeighting): number | null => {
+    const [part, whole] = weighting === 'area' ? [source.overlapArea, source.dongArea] : [source.zoneStores, source.dongStores];
+    return whole > 0 ? Math.min(1, part / whole) : null;
+};
+
+/**
+ * 동 매출 중 상권에 배분할 비율 (고른 방식으로 계산할 수 없으면 다른 방식으로 대체)
+ */
+export const dongWeight = (source: DongSalesSource, weighting: SalesWeighting): DongWeight => {
+    const primary = weightRatio(source, weighting);
+    if (primary !== null) return { weight: primary, basis: weighting };
+    const other: SalesWeighting = weighting === 'area' ? 'stores' : 'area';
+    const fallback = weightRatio(source, other);
+    return fallback !== null ? { weight: fallback, basis: other } : { weight: 0, basis: null };
+};
+
+const addWeighted = (target: SeoulSalesData, data: SeoulSalesData, weight: number) => {
+    SCALAR_FIELDS.forEach(field => { target[field] += Math.round(data[field] * weight); });
+    GROUP_FIELDS.forEach(field => {
+        const group = target[field] as Record<string, number>;
+        Object.entries(data[field]).forEach(([key, value]) => { group[key] = (group[key] || 0) + Math.round(value * weight); });
+    });
+};
+
+/**
+ * 동별 분기 매출을 가중 합산한 상권 매출 (오래된 분기 → 최근 분기)
+ * 일부 동에 없는 분기는 나머지 동의 합만으로 계산됩니다.
+ */
+export const blendSalesHistory = (sources: DongSalesSource[], weighting: SalesWeighting): SeoulSalesData[] => {
+    const totals = new Map<string, SeoulSalesData>();
+    const industries = new Map<string, Map<string, SeoulSalesData>>();
+
+    sources.forEach(source => {
+        const { weight } = dongWeight(source, weighting);
+        if (weight <= 0) return;
+        source.history.forEach(data => {
+            const quarter = data.stdrYearQuarter;
+            if (!totals.has(quarter)) {
+                totals.set(quarter, createEmptySalesData(quarter));
+                industries.set(quarter, new Map());
+            }
+            addWeighted(totals.get(quarter)!, data, weight);
+
+            const byName = industries.get(quarter)!;
+            data.byIndustry?.forEach(industry => {
+                const name = industry.serviceName || "기타";
+                if (!byName.has(name)) byName.set(name, createEmptySalesData(quarter, name));
+                addWeighted(byName.get(name)!, industry, weight);
+            });
+        });
+    });
+
+    return [...totals.keys()].sort().map(quarter => ({
+        ...totals.get(quarter)!,
+        byIndustry: [...industries.get(quarter)!.values()].sort((a, b) => b.totalAmount - a.totalAmount)
+    }));
+};
+
+export interface DongContribution extends DongWeight {
+    source: DongSalesSource;
+    value: number;           // 상권 매출에 더해진 값 (해당 분기)
+    share: number | null;    // 상권 매출 중 이 동의 비중 (%), 해당 분기 매출이 없거나 배분 비율을 낼 수 없으면 null
+}
+
+/**
+ * 분기 하나의 동별 기여 비중 (비중이 큰 동부터)
+ */
+export const dongContributions = (sources: DongSalesSource[], weighting: SalesWeighting, quarter: string, mode: SalesViewMode): DongContribution[] => {
+    const rows = sources.map(source => {
+        const { weight, basis } = dongWeight(source, weighting);
+        const data = source.history.find(d => d.stdrYearQuarter === quarter);
+        const value = data && basis ? Math.round((mode === 'amount' ? data.totalAmount : data.totalCount) * weight) : null;
+        return { source, weight, basis, value };
+    });
+    const total = rows.reduce((sum, row) => sum + (row.value || 0), 0);
+    return rows
+        .map(row => ({ ...row, value: row.value || 0, share: row.value === null ? null : total > 0 ? (row.value / total) * 100 : 0 }))
+        .sort((a, b) => (b.share ?? -1) - (a.share ?? -1));
+};
@@ -0,0 +1,135 @@
+import { SeoulSalesData } from '../types';
+
+/**
+ * 서울시 추정매출 분기 추세
+ * 분기별 시계열에서 전분기 대비(QoQ)·전년 동기 대비(YoY) 증감률과 분기 계절 지수를 계산합니다.
+ * 분기 코드는 STDR_YYQU_CD 형식(20253 = 2025년 3분기)이며, 비교할 분기가 빠져 있으면 증감률은 null입니다.
+ */
+
+export type SalesViewMode = 'amount' | 'count';
+export type TrendGroup = 'total' | 'week' | 'time' | 'age';
+
+export interface TrendMetric {
+    key: string;
+    label: string;
+    pick: (data: SeoulSalesData, mode: SalesViewMode) => number;
+}
+
+const TIME_LABELS: Record<string, string> = { "00_06": "00~06시", "06_11": "06~11시", "11_14": "11~14시", "14_17": "14~17시", "17_21": "17~21시", "21_24": "21~24시" };
+const AGE_LABELS: Record<string, string> = { "10": "10대", "20": "20대", "30": "30대", "40": "40대", "50": "50대", "60": "60대+" };
+
+export const TREND_GROUPS: Record<TrendGroup, { label: string; metrics: TrendMetric[] }> = {
+    total: {
+        label: "전체",
+        metrics: [{ key: "total", label: "전체", pick: (d, mode) => mode === 'amount' ? d.totalAmount : d.totalCount }]
+    },
+    week: {
+        label: "주중/주말",
+        metrics: [
+            { key: "weekday", label: "주중", pick: (d, mode) => mode === 'amount' ? d.weekdayAmount : d.weekdayCount },
+            { key: "weekend", label: "주말", pick: (d, mode) => mode === 'amount' ? d.weekendAmount : d.weekendCount }
+        ]
+    },
+    time: {
+        label: "시간대",
+        metrics: Object.entries(TIME_LABELS).map(([slot, label]) => ({
+            key: `time_${slot}`, label, pick: (d, mode) => (mode === 'amount' ? d.timeAmount : d.timeCount)[slot] || 0
+        }))
+    },
+    age: {
+        label: "연령대",
+        metrics: Object.entries(AGE_LABELS).map(([age, label]) => ({
+            key: `age_${age}`, label, pick: (d, mode) => (mode === 'amount' ? d.ageAmount : d.ageCount)[age] || 0
+        }))
+    }
+};
+
+// --- 분기 코드 ---
+
+export const parseQuarter = (code: string): { year: number; quarter: number; ordinal: number } | null => {
+    const match = code.trim().match(/^(\d{4})([1-4])$/);
+    if (!match) return null;
+    const year = parseInt(match[1], 10);
+    const quarter = parseInt(match[2], 10);
+    return { year, quarter, ordinal: year * 4 + quarter - 1 };
+};
+
+export const formatQuarter = (code: string): string => {
+    const parsed = parseQuarter(code);
+    return parsed ? `${String(parsed.year).slice(2)}년 ${parsed.quarter}분기` : code;
+};
+
+/**
+ * 업종 하나의 분기별 시계열 (해당 분기에 업종 매출이 없으면 그 분기는 빠짐)
+ */
+export const industryHistory = (history: SeoulSalesData[], industry: string): SeoulSalesData[] => {
+    return history
+        .map(quarter => quarter.byIndustry?.find(i => i.serviceName === industry))
+        .filter((data): data is SeoulSalesData => !!data);
+};
+
+// --- 증감률 ---
+
+export interface TrendPoint {
+    quarter: string;
+    label: string;
+    values: Record<string, number>;
+    qoq: Record<string, number | null>;   // %
+    yoy: Record<string, number | null>;   // %
+}
+
+const growth = (current: number, previous: number | undefined): number | null => {
+    if (previous === undefined || previous === 0) return null;
+    return ((current - previous) / previous) * 100;
+};
+
+export const buildTrend = (history: SeoulSalesData[], metrics: TrendMetric[], mode: SalesViewMode): TrendPoint[] => {
+    const byOrdinal = new Map<number, SeoulSalesData>();
+    history.forEach(data => {
+        const parsed = parseQuarter(data.stdrYearQuarter);
+        if (parsed) byOrdinal.set(parsed.ordinal, data);
+    });
+
+    return [...byOrdinal.keys()].sort((a, b) => a - b).map(ordinal => {
+        const data = byOrdinal.get(ordinal)!;
+        const previous = byOrdinal.get(ordinal - 1);
+        const lastYear = byOrdinal.get(ordinal - 4);
+        const point: TrendPoint = { quarter: data.stdrYearQuarter, label: formatQuarter(data.stdrYearQuarter), values: {}, qoq: {}, yoy: {} };
+        metrics.forEach(metric => {
+            const value = metric.pick(data, mode);
+            point.values[metric.key] = value;
+            point.qoq[metric.key] = growth(value, previous && metric.pick(previous, mode));
+            point.yoy[metric.key] = growth(value, lastYear && metric.pick(lastYear, mode));
+        });
+        return point;
+    });
+};
+
+// --- 계절성 ---
+
+/**
+ * 분기 계절 지수 (1~4분기, 평균 100)
+ * 중심 이동평균(2×4 MA) 대비 비율을 분기별로 평균해 추세를 걷어낸 계절 효과를 구합니다.
+ * 연속된 5개 분기가 있어야 이동평균을 낼 수 있고, 네 분기 모두 값이 나오지 않으면 null입니다.
+ */
+export const seasonalIndex = (points: TrendPoint[], metricKey: string): number[] | null => {
+    const values = new Map<number, number>();
+    points.forEach(point => {
+        const parsed = parseQuarter(point.quarter);
+        if (parsed) values.set(parsed.ordinal, point.values[metricKey]);
+    });
+
+    const ratios: number[][] = [[], [], [], []];
+    values.forEach((value, t) => {
+        const window = [t - 2, t - 1, t, t + 1, t + 2].map(o => values.get(o));
+        if (window.some(v => v === undefined)) return;
+        const [a, b, c, d, e] = window as number[];
+        const movingAverage = (0.5 * a + b + c + d + 0.5 * e) / 4;
+        if (movingAverage > 0) ratios[t % 4].push(value / movingAverage);
+    });
+
+    if (ratios.some(list => list.length === 0)) return null;
+    const means = ratios.map(list => list.reduce((sum, r) => sum + r, 0) / list.length);
+    const scale = means.reduce((sum, m) => sum + m, 0) / 4;
+    return means.map(m => (m / scale) * 100);
+};
@@ -0,0 +1,222 @@
+import { ApiError, ApiSourceName, SOURCE_LABELS, isApiError } from './errors';
+
+/**
+ * 업스트림 요청 스케줄러
+ * 제공처(data.go.kr, SGIS, Sbiz, V-World ...)마다
+ * - 동시 요청 수 제한
+ * - 초당 요청 수 제한 (최근 1초 구간 기준)
+ * - 브라우저별 일일 호출 권장 한도 (localStorage, 자정 기준 초기화)
+ * 를 적용하고, 대기 중인 요청은 우선순위(화면에 필요한 것 먼저) 순으로 실행합니다.
+ *
+ * 일일 한도는 이 브라우저가 보낸 호출만 세는 권고용 제한입니다. API 키는 프록시에서 모든 사용자가 공유하므로
+ * 키 전체의 한도를 지켜 주지는 못합니다 (여러 브라우저의 호출 합계는 제공처 한도에서 걸림).
+ *
+ * 같은 키(URL)로 이미 대기/실행 중인 요청이 있으면 새로 보내지 않고 결과를 공유합니다.
+ */
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface ProviderLimits {
+    concurrency: number;
+    requestsPerSecond: number;
+    clientDailyBudget: number;   // 이 브라우저의 일일 호출 권장 한도 (Infinity = 제한 없음)
+}
+
+export interface ScheduleOptions {
+    priority?: RequestPriority;
+    signal?: AbortSignal;
+    key?: string;             // 중복 요청 병합용 (보통 요청 URL)
+}
+
+// 개발계정 기준 한도에 여유를 두고 설정 (운영계정은 configureProvider로 상향)
+const DEFAULT_LIMITS: Record<ApiSourceName, ProviderLimits> = {
+    'data.go.kr': { concurrency: 3, requestsPerSecond: 5, clientDailyBudget: 9500 },
+    sgis: { concurrency: 4, requestsPerSecond: 10, clientDailyBudget: 45000 },
+    sbiz: { concurrency: 2, requestsPerSecond: 4, clientDailyBudget: Infinity },
+    vworld: { concurrency: 2, requestsPerSecond: 5, clientDailyBudget: 38000 },
+    seoul: { concurrency: 1, requestsPerSecond: 2, clientDailyBudget: Infinity },
+    fixture: { concurrency: Infinity, requestsPerSecond: Infinity, clientDailyBudget: Infinity }
+};
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const BUDGET_STORAGE_PREFIX = "zone-insight-quota:";   // 기존 카운터와 이어지도록 키 이름 유지
+
+interface QueueEntry {
+    priority: RequestPriority;
+    seq: number;
+    run: () => void;
+    cancel: (reason: unknown) => void;
+}
+
+interface ProviderState {
+    limits: ProviderLimits;
+    active: number;
+    queue: QueueEntry[];
+    startedAt: number[];      // 최근 1초간 요청 시작 시각
+    timer: ReturnType<typeof setTimeout> | null;
+    inFlight: Map<string, { promise: Promise<any>; readonly entry: QueueEntry | null }>;
+}
+
+const providers = new Map<ApiSourceName, ProviderState>();
+let seqCounter = 0;
+
+const getProvider = (name: ApiSourceName): ProviderState => {
+    let state = providers.get(name);
+    if (!state) {
+        state = { limits: { ...DEFAULT_LIMITS[name] }, active: 0, queue: [], startedAt: [], timer: null, inFlight: new Map() };
+        providers.set(name, state);
+    }
+    return state;
+};
+
+/**
+ * 제공처별 한도 변경 (운영계정 한도 적용 등)
+ */
+export const configureProvider = (name: ApiSourceName, limits: Partial<ProviderLimits>) => {
+    const state = getProvider(name);
+    state.limits = { ...state.limits, ...limits };
+    pump(name);
+};
+
+// --- 브라우저별 일일 호출 권장 한도 ---
+
+const today = () => {
+    const d = new Date();
+    return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+};
+
+const readUsage = (name: ApiSourceName): number => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(BUDGET_STORAGE_PREFIX + name) || "null");
+        return saved?.date === today() ? saved.count : 0;
+    } catch (e) {
+        return 0;
+    }
+};
+
+const writeUsage = (name: ApiSourceName, count: number) => {
+    try {
+        localStorage.setItem(BUDGET_STORAGE_PREFIX + name, JSON.stringify({ date: today(), count }));
+    } catch (e) {
+        // 저장소를 쓸 수 없으면 카운터 없이 동작
+    }
+};
+
+export const getClientBudgetUsage = (name: ApiSourceName) => {
+    const { clientDailyBudget } = getProvider(name).limits;
+    const used = readUsage(name);
+    return { used, limit: clientDailyBudget, remaining: Math.max(0, clientDailyBudget - used) };
+};
+
+// --- 실행 ---
+
+const pump = (name: ApiSourceName) => {
+    const state = getProvider(name);
+    if (state.timer) return;
+
+    while (state.queue.length > 0 && state.active < state.limits.concurrency) {
+        const now = Date.now();
+        state.startedAt = state.startedAt.filter(t => now - t < 1000);
+        if (state.startedAt.length >= state.limits.requestsPerSecond) {
+            // 가장 오래된 요청이 1초 구간을 벗어날 때 다시 시도
+            const wait = 1000 - (now - state.startedAt[0]);
+            state.timer = setTimeout(() => {
+                state.timer = null;
+                pump(name);
+            }, wait);
+            return;
+        }
+
+        state.queue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.seq - b.seq);
+        const entry = state.queue.shift()!;
+        state.startedAt.push(now);
+        entry.run();
+    }
+};
+
+/**
+ * 제공처 한도 안에서 요청 실행
+ * 일일 한도를 이미 다 쓴 경우 요청하지 않고 quota 오류를 던집니다.
+ */
+export const schedule = <T>(name: ApiSourceName, task: (signal?: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    const state = getProvider(name);
+    const { priority = 'normal', signal, key } = options;
+
+    // 같은 요청이 진행 중이면 결과 공유 (대기 중이면 더 높은 우선순위로 올림)
+    const shared = key ? state.inFlight.get(key) : undefined;
+    if (shared) {
+        const waiting = shared.entry;
+        if (waiting && PRIORITY_ORDER[priority] < PRIORITY_ORDER[waiting.priority]) {
+            waiting.priority = priority;
+        }
+        return signal ? raceAbort(shared.promise, signal) : shared.promise;
+    }
+
+    const shareable = key && !signal;
+    let queued: QueueEntry | null = null;
+
+    const promise = new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+
+        const entry: QueueEntry = {
+            priority,
+            seq: seqCounter++,
+            cancel: reject,
+            run: async () => {
+                signal?.removeEventListener('abort', onAbort);
+                queued = null;
+
+                const used = readUsage(name);
+                if (used >= state.limits.clientDailyBudget) {
+                    reject(new ApiError('quota', `이 브라우저에서 보낸 ${SOURCE_LABELS[name]} 호출이 일일 권장 한도(${state.limits.clientDailyBudget.toLocaleString()}건)에 도달했습니다.`, { source: name }));
+                    return;
+                }
+
+                state.active++;
+                writeUsage(name, used + 1);
+                try {
+                    resolve(await task(signal));
+                } catch (e) {
+                    // 업스트림이 한도 초과를 알려오면 오늘은 더 보내지 않음
+                    if (isApiError(e) && e.kind === 'quota' && Number.isFinite(state.limits.clientDailyBudget)) {
+                        writeUsage(name, state.limits.clientDailyBudget);
+                    }
+                    reject(e);
+                } finally {
+                    state.active--;
+                    pump(name);
+                }
+            }
+        };
+
+        // 대기 중에 취소되면 큐에서 제거
+        const onAbort = () => {
+            const index = state.queue.indexOf(entry);
+            if (index >= 0) {
+                state.queue.splice(index, 1);
+                entry.cancel(signal!.reason);
+            }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        state.queue.push(entry);
+        queued = entry;
+    });
+
+    // 취소 가능한 요청은 다른 호출자와 공유하지 않음 (한쪽 취소가 다른 쪽에 전파되지 않도록)
+    if (shareable) {
+        state.inFlight.set(key, { promise, get entry() { return queued; } });
+        const release = () => state.inFlight.delete(key);
+        promise.then(release, release);
+    }
+    pump(name);
+    return promise;
+};
+
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
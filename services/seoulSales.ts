@@ -0,0 +1,205 @@
+import { SeoulSalesData } from '../types';
+import { DataSource, getDataSource } from './sources';
+import { createSeoulSalesIndexer, lookupHistory, mergeSalesIndex, SeoulSalesIndex } from './seoulSalesIndex';
+
+/**
+ * 서울시 추정매출 조회 (Web Worker 색인)
+ * manifest에 나열된 분기별 CSV를 세션당 한 번만 스트리밍으로 받아 Worker에서 색인하고,
+ * 이후 행정동 조회는 색인에서 분기별 시계열로 바로 응답합니다.
+ * 메인 스레드는 네트워크 청크를 Worker로 넘기기만 하므로 큰 파일에서도 화면이 멈추지 않습니다.
+ */
+
+// --- Worker 메시지 ---
+
+export type SeoulSalesRequest =
+    | { type: 'reset' }
+    | { type: 'begin' }
+    | { type: 'chunk'; chunk: ArrayBuffer }
+    | { type: 'end' }
+    | { type: 'lookup'; id: number; adminCode: string };
+
+export type SeoulSalesResponse =
+    | { type: 'ready'; rowCount: number; dongCount: number; encoding: string | null }
+    | { type: 'result'; id: number; data: SeoulSalesData[] }
+    | { type: 'error'; id?: number; message: string };
+
+interface SalesBackend {
+    reset(): void;
+    // 분기별 파일 하나를 색인에 추가
+    load(stream: ReadableStream<Uint8Array>): Promise<void>;
+    lookup(adminCode: string): Promise<SeoulSalesData[]>;
+}
+
+// manifest를 읽을 수 없을 때 사용하는 기본 파일
+const DEFAULT_SALES_FILES = ["seoul_sales_202503.csv"];
+
+// 전송(transfer)할 수 있도록 청크가 버퍼 전체를 차지하지 않으면 복사
+const toTransferable = (chunk: Uint8Array): ArrayBuffer => {
+    const whole = chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength;
+    return (whole ? chunk.buffer : chunk.slice().buffer) as ArrayBuffer;
+};
+
+const createWorkerBackend = (): SalesBackend => {
+    const worker = new Worker(new URL('./seoulSales.worker.ts', import.meta.url), { type: 'module' });
+    const pending = new Map<number, { resolve: (data: SeoulSalesData[]) => void; reject: (e: Error) => void }>();
+    let loadWaiter: { resolve: () => void; reject: (e: Error) => void } | null = null;
+    let nextId = 0;
+
+    worker.onmessage = (event: MessageEvent<SeoulSalesResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+            console.info(`Seoul sales indexed: ${message.rowCount} rows, ${message.dongCount} dongs (${message.encoding})`);
+            loadWaiter?.resolve();
+            loadWaiter = null;
+        } else if (message.type === 'result') {
+            pending.get(message.id)?.resolve(message.data);
+            pending.delete(message.id);
+        } else if (message.id !== undefined) {
+            pending.get(message.id)?.reject(new Error(message.message));
+            pending.delete(message.id);
+        } else {
+            loadWaiter?.reject(new Error(message.message));
+            loadWaiter = null;
+        }
+    };
+
+    const post = (message: SeoulSalesRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+    return {
+        reset() {
+            post({ type: 'reset' });
+        },
+
+        async load(stream) {
+            const ready = new Promise<void>((resolve, reject) => { loadWaiter = { resolve, reject }; });
+            // 업로드 중에 워커가 오류를 보내거나 읽기가 실패해도 처리되지 않은 거부로 남지 않도록 바로 관찰
+            // (호출자에게는 아래에서 ready 자체나 그 오류를 돌려줌)
+            let workerError: unknown = null;
+            ready.catch(e => { workerError = e; });
+            post({ type: 'begin' });
+            const reader = stream.getReader();
+            try {
+                while (true) {
+                    // 워커가 이미 실패했으면 나머지 파일은 보내지 않음
+                    if (workerError) {
+                        reader.cancel().catch(() => {});
+                        throw workerError;
+                    }
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    const chunk = toTransferable(value);
+                    post({ type: 'chunk', chunk }, [chunk]);
+                }
+            } catch (e) {
+                loadWaiter = null;
+                throw e;
+            }
+            post({ type: 'end' });
+            return ready;
+        },
+
+        lookup(adminCode) {
+            const id = nextId++;
+            return new Promise((resolve, reject) => {
+                pending.set(id, { resolve, reject });
+                post({ type: 'lookup', id, adminCode });
+            });
+        }
+    };
+};
+
+// Worker를 만들 수 없는 환경용 (같은 색인 코드를 메인 스레드에서 실행)
+const createInlineBackend = (): SalesBackend => {
+    let index: SeoulSalesIndex = {};
+    return {
+        reset() {
+            index = {};
+        },
+        async load(stream) {
+            const indexer = createSeoulSalesIndexer();
+            const reader = stream.getReader();
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                indexer.push(value);
+            }
+            mergeSalesIndex(index, indexer.finish().index);
+        },
+        async lookup(adminCode) {
+            return lookupHistory(index, adminCode);
+        }
+    };
+};
+
+let backend: SalesBackend | null = null;
+let loaded: { sourceName: string; promise: Promise<void> } | null = null;
+
+const getBackend = (): SalesBackend => {
+    if (!backend) {
+        try {
+            backend = typeof Worker !== 'undefined' ? createWorkerBackend() : createInlineBackend();
+        } catch (e) {
+            console.warn("Seoul sales worker unavailable, indexing on main thread:", e);
+            backend = createInlineBackend();
+        }
+    }
+    return backend;
+};
+
+const readManifest = async (source: DataSource): Promise<string[]> => {
+    try {
+        const manifest = JSON.parse(await source.fetchSeoulSalesManifest({ priority: 'low' }));
+        const files = Array.isArray(manifest?.files) ? manifest.files.filter((f: unknown) => typeof f === 'string' && f) : [];
+        if (files.length > 0) return files;
+    } catch (e) {
+        console.warn("Seoul sales manifest unavailable, using default file:", e);
+    }
+    return DEFAULT_SALES_FILES;
+};
+
+/**
+ * 분기별 파일을 차례로 색인
+ * 일부 파일을 받지 못해도 나머지 분기로 시계열을 만들고, 모두 실패한 경우에만 오류를 던집니다.
+ */
+const loadAll = async (source: DataSource) => {
+    const files = await readManifest(source);
+    const backend = getBackend();
+    backend.reset();
+
+    let lastError: unknown = null;
+    let loadedCount = 0;
+    for (const file of files) {
+        try {
+            await backend.load(await source.fetchSeoulSalesCsv(file, { priority: 'low' }));
+            loadedCount++;
+        } catch (e) {
+            console.warn(`Seoul sales file ${file} failed:`, e);
+            lastError = e;
+        }
+    }
+    if (loadedCount === 0) throw lastError;
+};
+
+/**
+ * CSV 색인 준비 (데이터 소스가 바뀌면 다시 색인)
+ */
+const ensureLoaded = (): Promise<void> => {
+    const source = getDataSource();
+    if (loaded && loaded.sourceName === source.name) return loaded.promise;
+
+    const promise = loadAll(source);
+    loaded = { sourceName: source.name, promise };
+    // 실패하면 다음 조회에서 다시 시도
+    promise.catch(() => {
+        if (loaded?.promise === promise) loaded = null;
+    });
+    return promise;
+};
+
+/**
+ * 행정동의 분기별 추정매출 (오래된 분기 → 최근 분기, 데이터가 없으면 빈 배열)
+ */
+export const lookupSeoulSalesHistory = async (adminCode: string): Promise<SeoulSalesData[]> => {
+    await ensureLoaded();
+    return getBackend().lookup(adminCode);
+};
@@ -0,0 +1,49 @@
+import { createSeoulSalesIndexer, lookupHistory, mergeSalesIndex, SeoulSalesIndex } from './seoulSalesIndex';
+import { SeoulSalesRequest, SeoulSalesResponse } from './seoulSales';
+
+/**
+ * 서울시 추정매출 CSV 색인 Worker
+ * 메인 스레드가 보내는 분기별 파일의 바이트 청크를 받아 파싱/합산하고, 이후 행정동별 조회에 응답합니다.
+ */
+
+// DOM lib과 WebWorker lib을 같은 프로젝트에서 함께 쓸 수 없어 필요한 부분만 선언
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<SeoulSalesRequest>) => void) | null;
+    postMessage: (message: SeoulSalesResponse) => void;
+};
+
+let indexer: ReturnType<typeof createSeoulSalesIndexer> | null = null;
+let index: SeoulSalesIndex = {};
+
+scope.onmessage = (event) => {
+    const message = event.data;
+    try {
+        switch (message.type) {
+            case 'reset':
+                indexer = null;
+                index = {};
+                break;
+            case 'begin':
+                indexer = createSeoulSalesIndexer();
+                break;
+            case 'chunk':
+                indexer?.push(new Uint8Array(message.chunk));
+                break;
+            case 'end': {
+                // 파일 중간에 오류가 나면 이미 알렸으므로 나머지 청크와 함께 무시
+                if (!indexer) break;
+                const result = indexer.finish();
+                indexer = null;
+                mergeSalesIndex(index, result.index);
+                scope.postMessage({ type: 'ready', rowCount: result.rowCount, dongCount: Object.keys(result.index).length, encoding: result.encoding });
+                break;
+            }
+            case 'lookup':
+                scope.postMessage({ type: 'result', id: message.id, data: lookupHistory(index, message.adminCode) });
+                break;
+        }
+    } catch (e: any) {
+        indexer = null;
+        scope.postMessage({ type: 'error', id: message.type === 'lookup' ? message.id : undefined, message: e.message });
+    }
+};
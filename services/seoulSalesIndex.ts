@@ -0,0 +1,176 @@
+import { SeoulSalesData } from '../types';
+import { createCsvDecoder, createCsvParser } from './csv';
+
+/**
+ * 서울시 행정동별 추정매출 CSV 색인
+ * 분기별 CSV를 청크 단위로 받아 행을 읽는 즉시 행정동(ADSTRD_CD) × 분기(STDR_YYQU_CD)별로 합산합니다.
+ * 원본 행은 보관하지 않으므로 파일이 커도 색인 크기는 행정동 수 × 업종 수에 비례합니다.
+ *
+ * Web Worker(seoulSales.worker.ts)에서 실행되며, Worker를 쓸 수 없는 환경에서는 메인 스레드에서 같은 코드를 사용합니다.
+ */
+
+// 행정동 코드 → 분기 → 합산 결과 (byIndustry 포함)
+export type SeoulSalesIndex = Record<string, Record<string, SeoulSalesData>>;
+
+/**
+ * 행정동 코드 정규화
+ * 상가정보/V-World의 행정동 코드는 10자리(예: 1114055000), 서울시 데이터는 8자리(11140550)입니다.
+ */
+export const toSeoulDongCode = (code: string): string => {
+    const trimmed = code.trim();
+    return trimmed.length === 10 ? trimmed.slice(0, 8) : trimmed;
+};
+
+export const createEmptySalesData = (quarter: string, serviceName?: string): SeoulSalesData => ({
+    stdrYearQuarter: quarter,
+    serviceName: serviceName,
+    totalAmount: 0,
+    totalCount: 0,
+    weekdayAmount: 0, weekendAmount: 0,
+    weekdayCount: 0, weekendCount: 0,
+    dayAmount: { MON: 0, TUE: 0, WED: 0, THU: 0, FRI: 0, SAT: 0, SUN: 0 },
+    dayCount: { MON: 0, TUE: 0, WED: 0, THU: 0, FRI: 0, SAT: 0, SUN: 0 },
+    timeAmount: { "00_06": 0, "06_11": 0, "11_14": 0, "14_17": 0, "17_21": 0, "21_24": 0 },
+    timeCount: { "00_06": 0, "06_11": 0, "11_14": 0, "14_17": 0, "17_21": 0, "21_24": 0 },
+    genderAmount: { male: 0, female: 0 },
+    genderCount: { male: 0, female: 0 },
+    ageAmount: { "10": 0, "20": 0, "30": 0, "40": 0, "50": 0, "60": 0 },
+    ageCount: { "10": 0, "20": 0, "30": 0, "40": 0, "50": 0, "60": 0 }
+});
+
+// --- 컬럼 매핑 ---
+
+type ScalarField = 'totalAmount' | 'totalCount' | 'weekdayAmount' | 'weekendAmount' | 'weekdayCount' | 'weekendCount';
+type GroupField = 'dayAmount' | 'dayCount' | 'timeAmount' | 'timeCount' | 'genderAmount' | 'genderCount' | 'ageAmount' | 'ageCount';
+
+type Metric =
+    | { column: string; field: ScalarField }
+    | { column: string; group: GroupField; key: string };
+
+const DAY_COLUMNS: Record<string, string> = { MON: "MON", TUE: "TUES", WED: "WED", THU: "THUR", FRI: "FRI", SAT: "SAT", SUN: "SUN" };
+const TIME_SLOTS = ["00_06", "06_11", "11_14", "14_17", "17_21", "21_24"];
+const GENDER_COLUMNS: Record<string, string> = { male: "ML", female: "FML" };
+const AGE_COLUMNS: Record<string, string> = { "10": "10", "20": "20", "30": "30", "40": "40", "50": "50", "60": "60_ABOVE" };
+
+const buildMetrics = (): Metric[] => {
+    const metrics: Metric[] = [
+        { column: "THSMON_SELNG_AMT", field: 'totalAmount' },
+        { column: "THSMON_SELNG_CO", field: 'totalCount' },
+        { column: "MDWK_SELNG_AMT", field: 'weekdayAmount' },
+        { column: "WKEND_SELNG_AMT", field: 'weekendAmount' },
+        { column: "MDWK_SELNG_CO", field: 'weekdayCount' },
+        { column: "WKEND_SELNG_CO", field: 'weekendCount' }
+    ];
+    (["AMT", "CO"] as const).forEach(suffix => {
+        const kind = suffix === "AMT" ? "Amount" : "Count";
+        Object.entries(DAY_COLUMNS).forEach(([key, col]) => metrics.push({ column: `${col}_SELNG_${suffix}`, group: `day${kind}`, key }));
+        TIME_SLOTS.forEach(key => metrics.push({ column: `TMZN_${key}_SELNG_${suffix}`, group: `time${kind}`, key }));
+        Object.entries(GENDER_COLUMNS).forEach(([key, col]) => metrics.push({ column: `${col}_SELNG_${suffix}`, group: `gender${kind}`, key }));
+        Object.entries(AGE_COLUMNS).forEach(([key, col]) => metrics.push({ column: `AGRDE_${col}_SELNG_${suffix}`, group: `age${kind}`, key }));
+    });
+    return metrics;
+};
+
+const METRICS = buildMetrics();
+
+// 헤더에서 찾은 컬럼 위치가 붙은 측정값
+type ResolvedMetric = Metric & { index: number };
+
+const accumulate = (target: SeoulSalesData, row: string[], metrics: ResolvedMetric[]) => {
+    for (const metric of metrics) {
+        const value = parseFloat(row[metric.index]);
+        if (isNaN(value)) continue;
+        if ('field' in metric) target[metric.field] += value;
+        else (target[metric.group] as Record<string, number>)[metric.key] += value;
+    }
+};
+
+// --- 색인 생성 ---
+
+interface DongQuarter {
+    total: SeoulSalesData;
+    industries: Record<string, SeoulSalesData>;
+}
+
+export const createSeoulSalesIndexer = () => {
+    const decoder = createCsvDecoder();
+    const groups = new Map<string, DongQuarter>();   // `${dong}|${quarter}`
+
+    let metrics: ResolvedMetric[] | null = null;
+    let dongIdx = -1;
+    let quarterIdx = -1;
+    let industryIdx = -1;
+    let headerLength = 0;
+    let rowCount = 0;
+
+    const parser = createCsvParser(row => {
+        if (!metrics) {
+            // 헤더: 컬럼 위치는 한 번만 계산
+            const headers = row.map(h => h.trim());
+            const indexOf = (name: string) => headers.indexOf(name);
+            dongIdx = indexOf("ADSTRD_CD");
+            quarterIdx = indexOf("STDR_YYQU_CD");
+            industryIdx = indexOf("SVC_INDUTY_CD_NM");
+            headerLength = headers.length;
+            metrics = METRICS.map(m => ({ ...m, index: indexOf(m.column) })).filter(m => m.index !== -1);
+            if (dongIdx === -1) throw new Error("CSV에 ADSTRD_CD 컬럼이 없습니다.");
+            if (quarterIdx === -1) throw new Error("CSV에 STDR_YYQU_CD 컬럼이 없습니다.");
+            return;
+        }
+
+        if (row.length < headerLength) return;
+        rowCount++;
+
+        const dong = toSeoulDongCode(row[dongIdx]);
+        const quarter = row[quarterIdx].trim();
+        const groupKey = `${dong}|${quarter}`;
+        let group = groups.get(groupKey);
+        if (!group) {
+            group = { total: createEmptySalesData(quarter), industries: {} };
+            groups.set(groupKey, group);
+        }
+        accumulate(group.total, row, metrics);
+
+        const industry = industryIdx !== -1 ? row[industryIdx].trim() || "기타" : "기타";
+        if (!group.industries[industry]) group.industries[industry] = createEmptySalesData(quarter, industry);
+        accumulate(group.industries[industry], row, metrics);
+    });
+
+    return {
+        push(chunk: Uint8Array) {
+            parser.push(decoder.decode(chunk));
+        },
+
+        finish(): { index: SeoulSalesIndex; rowCount: number; encoding: string | null } {
+            parser.push(decoder.end());
+            parser.end();
+
+            const index: SeoulSalesIndex = {};
+            groups.forEach((group, key) => {
+                const [dong, quarter] = key.split("|");
+                group.total.byIndustry = Object.values(group.industries).sort((a, b) => b.totalAmount - a.totalAmount);
+                (index[dong] ||= {})[quarter] = group.total;
+            });
+            return { index, rowCount, encoding: decoder.encoding };
+        }
+    };
+};
+
+/**
+ * 분기별 파일 색인 합치기 (같은 분기가 다시 오면 나중 파일로 교체)
+ */
+export const mergeSalesIndex = (target: SeoulSalesIndex, source: SeoulSalesIndex): SeoulSalesIndex => {
+    Object.entries(source).forEach(([dong, quarters]) => {
+        target[dong] = { ...target[dong], ...quarters };
+    });
+    return target;
+};
+
+/**
+ * 행정동의 분기별 매출 (오래된 분기 → 최근 분기, 없으면 빈 배열)
+ */
+export const lookupHistory = (index: SeoulSalesIndex, adminCode: string): SeoulSalesData[] => {
+    const quarters = index[toSeoulDongCode(adminCode)];
+    if (!quarters) return [];
+    return Object.keys(quarters).sort().map(quarter => quarters[quarter]);
+};
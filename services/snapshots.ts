@@ -0,0 +1,63 @@
+import { SnapshotMeta, SnapshotStore, Store, StoreSnapshot, Zone } from '../types';
+import { cacheGet, cacheSet, DAY_MS } from './cache';
+
+/**
+ * 구역별 점포 스냅샷
+ * 분석할 때마다 그 기준월의 점포 목록을 자동으로 보관하고('cache'), 사용자가 저장한 분석('saved')은 더 오래 보관합니다.
+ * 구역마다 목록(index)과 기준월별 본문을 따로 저장해 목록만 볼 때 점포 전체를 읽지 않습니다.
+ * 영구 캐시(IndexedDB)에 저장하므로 용량 상한을 넘으면 오래 열지 않은 스냅샷부터 지워질 수 있습니다.
+ */
+
+const CACHED_SNAPSHOT_TTL = 400 * DAY_MS;
+const SAVED_SNAPSHOT_TTL = 5 * 365 * DAY_MS;
+
+// 분석 구역 식별자 (점포 수집 이어받기에도 같은 키를 씀)
+export const snapshotZoneKey = (zone: Zone) => `${zone.type}:${zone.trarNo}`;
+
+const indexKey = (zoneKey: string) => `snapshots:${zoneKey}`;
+const snapshotKey = (zoneKey: string, stdrYm: string) => `snapshot:${zoneKey}:${stdrYm}`;
+
+// "2025-02", "202502" → "202502"
+export const normalizeYm = (stdrYm: string) => stdrYm.replace(/[^0-9]/g, '').slice(0, 6);
+
+export const formatYm = (stdrYm: string) => stdrYm.length >= 6 ? `${stdrYm.slice(0, 4)}년 ${stdrYm.slice(4, 6)}월` : stdrYm;
+
+const toSnapshotStore = (s: Store): SnapshotStore => ({
+    bizesId: s.bizesId, bizesNm: s.bizesNm, brchNm: s.brchNm,
+    indsLclsCd: s.indsLclsCd, indsLclsNm: s.indsLclsNm, indsMclsCd: s.indsMclsCd, indsMclsNm: s.indsMclsNm,
+    rdnmAdr: s.rdnmAdr, flrNo: s.flrNo, lat: s.lat, lon: s.lon
+});
+
+/**
+ * 구역의 스냅샷 목록 (최근 기준월부터)
+ */
+export const listSnapshots = async (zoneKey: string): Promise<SnapshotMeta[]> => {
+    const index = await cacheGet<SnapshotMeta[]>(indexKey(zoneKey));
+    return (index || []).slice().sort((a, b) => b.stdrYm.localeCompare(a.stdrYm));
+};
+
+export const loadSnapshot = (zoneKey: string, stdrYm: string): Promise<StoreSnapshot | null> => {
+    return cacheGet<StoreSnapshot>(snapshotKey(zoneKey, stdrYm));
+};
+
+/**
+ * 스냅샷 보관
+ * 자동 보관('cache')은 같은 기준월을 사용자가 이미 저장했으면 덮어쓰지 않습니다.
+ * 기준월을 알 수 없으면 저장하지 않고 null을 반환합니다.
+ */
+export const recordSnapshot = async (zoneKey: string, zoneName: string, stdrYm: string, stores: Store[], origin: SnapshotMeta['origin']): Promise<SnapshotMeta[] | null> => {
+    const ym = normalizeYm(stdrYm);
+    if (ym.length !== 6) return null;
+
+    const index = await listSnapshots(zoneKey);
+    const existing = index.find(meta => meta.stdrYm === ym);
+    if (origin === 'cache' && existing?.origin === 'saved') return index;
+
+    const meta: SnapshotMeta = { zoneKey, zoneName, stdrYm: ym, storeCount: stores.length, savedAt: new Date().toISOString(), origin };
+    const ttl = origin === 'saved' ? SAVED_SNAPSHOT_TTL : CACHED_SNAPSHOT_TTL;
+    await cacheSet<StoreSnapshot>(snapshotKey(zoneKey, ym), { ...meta, stores: stores.map(toSnapshotStore) }, ttl);
+
+    const next = [meta, ...index.filter(m => m.stdrYm !== ym)].sort((a, b) => b.stdrYm.localeCompare(a.stdrYm));
+    await cacheSet(indexKey(zoneKey), next, SAVED_SNAPSHOT_TTL);
+    return next;
+};
@@ -0,0 +1,80 @@
+import { ApiError } from '../errors';
+import { DataSource, StoreListQuery } from './types';
+
+/**
+ * 녹화된 응답(JSON/CSV)을 재생하는 데이터 소스
+ * 네트워크나 API 키 없이 input → verify_location → select_zone → result 전체 흐름을
+ * 개발/시연할 수 있고, 파싱 코드를 결정적인 입력으로 검증할 수 있습니다.
+ *
+ * 파일 구성 (기본 위치: public/fixtures)
+ *   vworld/search.json, vworld/address.json
+ *   public/storeZoneInRadius.json
+ *   public/storeListInArea/{상권번호}/{pageNo}.json
+ *   public/storeListInDong/{divId}/{코드}/{pageNo}.json
+ *   public/storeListInRadius/{반경}/{pageNo}.json
+ *   public/storeListInRectangle/_default/{pageNo}.json
+ *   public/baroApi/{mega|cty|admi}/{상위코드}.json
+ *   sgis/geocode/{주소}.json, sgis/boundary/{adm_cd}.json
+ *   sgis/stats/{엔드포인트}/{adm_cd}[_{조건값}...].json (예: searchpopulation/_default_1_32.json)
+ *   sbiz/{엔드포인트}/{dongCd}.json
+ *   seoul/manifest.json, seoul/{파일명}.csv
+ * 각 폴더의 _default 파일은 키가 일치하는 녹화본이 없을 때 사용됩니다.
+ */
+
+// 경로에 해당하는 녹화 파일 내용을 반환, 없으면 null
+export type FixtureReader = (path: string) => Promise<string | null>;
+
+/**
+ * 브라우저용 기본 리더: 정적 파일로 제공되는 public/fixtures를 읽습니다.
+ */
+export const readFixtureOverHttp = (baseUrl = "/fixtures"): FixtureReader => async (path) => {
+    const response = await fetch(`${baseUrl}/${path.split('/').map(encodeURIComponent).join('/')}`);
+    // 개발 서버는 없는 파일에 index.html을 돌려줄 수 있으므로 HTML 응답은 무시
+    if (!response.ok || response.headers.get("content-type")?.includes("text/html")) return null;
+    return response.text();
+};
+
+const storeListDir = (query: StoreListQuery) => {
+    switch (query.kind) {
+        case 'area': return [`public/storeListInArea/${query.key}`, `public/storeListInArea/_default`];
+        case 'dong': return [`public/storeListInDong/${query.divId}/${query.key}`, `public/storeListInDong/${query.divId}/_default`];
+        // 좌표는 매번 달라지므로 반경별로만 구분
+        case 'radius': return [`public/storeListInRadius/${query.radius}`, `public/storeListInRadius/_default`];
+        // 직접 그린 영역의 외접 사각형은 매번 달라지므로 녹화본 하나를 재생 (형상으로 다시 걸러짐)
+        case 'rect': return [`public/storeListInRectangle/_default`];
+    }
+};
+
+export const createFixtureSource = (read: FixtureReader): DataSource => {
+    // 후보 경로를 순서대로 시도하고, 모두 없으면 어떤 파일이 필요한지 알려줍니다.
+    const replay = async (candidates: string[]): Promise<string> => {
+        for (const path of candidates) {
+            const text = await read(path);
+            if (text !== null) return text;
+        }
+        throw new ApiError('no_data', `녹화된 응답이 없습니다: ${candidates[0]}`, { source: 'fixture' });
+    };
+
+    return {
+        name: "fixture",
+
+        searchAddress: (query) => replay([`vworld/search/${query}.json`, "vworld/search.json"]),
+        reverseGeocode: () => replay(["vworld/address.json"]),
+
+        searchZones: () => replay(["public/storeZoneInRadius.json"]),
+        // numOfRows는 무시하고 녹화된 페이지를 그대로 재생
+        listStores: (query, pageNo) => replay(storeListDir(query).map(dir => `${dir}/${pageNo}.json`)),
+
+        listAdminAreas: (level, parentCode) => replay([`public/baroApi/${level}/${parentCode || "_default"}.json`, `public/baroApi/${level}/_default.json`]),
+        geocodeAdminArea: (address) => replay([`sgis/geocode/${address}.json`, "sgis/geocode/_default.json"]),
+        fetchAdminBoundary: (admCd) => replay([`sgis/boundary/${admCd}.json`, "sgis/boundary/_default.json"]),
+        fetchSgisStats: (endpoint, admCd, _year, filter = {}) => {
+            const suffix = Object.values(filter).map(value => `_${value.replace(/,/g, '-')}`).join("");
+            return replay([`sgis/stats/${endpoint}/${admCd}${suffix}.json`, `sgis/stats/${endpoint}/_default${suffix}.json`]);
+        },
+
+        fetchSbiz: (endpoint, dongCd) => replay([`sbiz/${endpoint}/${dongCd}.json`, `sbiz/${endpoint}/_default.json`]),
+        fetchSeoulSalesManifest: () => replay(["seoul/manifest.json"]),
+        fetchSeoulSalesCsv: async (file) => new Response(await replay([`seoul/${file}`])).body!
+    };
+};
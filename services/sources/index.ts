@@ -0,0 +1,47 @@
+import { DataSource } from './types';
+import { liveSource } from './live';
+import { createFixtureSource, readFixtureOverHttp } from './fixture';
+
+export type { DataSource, RequestOptions, StoreListQuery, AdminAreaLevel, SgisStatsEndpoint, SbizEndpoint } from './types';
+export { liveSource, fetchStandard } from './live';
+export { createFixtureSource, readFixtureOverHttp } from './fixture';
+
+/**
+ * 사용할 데이터 소스 선택
+ * VITE_DATA_SOURCE=fixture 이면 public/fixtures의 녹화 응답을 재생합니다. (기본값: live)
+ * import.meta.env 전체를 참조하면 모든 VITE_ 변수가 번들에 포함되므로 이 값만 직접 참조합니다.
+ */
+const getConfiguredSourceName = (): string => {
+    try {
+        // @ts-ignore
+        return import.meta.env.VITE_DATA_SOURCE || "live";
+    } catch (e) {
+        return "live";
+    }
+};
+
+/**
+ * 오류 화면의 "녹화 데이터로 보기" 전환 허용 여부
+ * 운영 빌드에서는 녹화 데이터를 실데이터로 오인할 수 있으므로 개발 서버에서만 허용합니다.
+ */
+export const isFixtureFallbackEnabled = (): boolean => {
+    try {
+        // @ts-ignore
+        return !!import.meta.env.DEV;
+    } catch (e) {
+        return false;
+    }
+};
+
+let activeSource: DataSource = getConfiguredSourceName() === "fixture"
+    ? createFixtureSource(readFixtureOverHttp())
+    : liveSource;
+
+export const getDataSource = (): DataSource => activeSource;
+
+/**
+ * 데이터 소스 교체 (테스트나 시연 도구에서 사용)
+ */
+export const setDataSource = (source: DataSource) => {
+    activeSource = source;
+};
@@ -0,0 +1,118 @@
+import { isAbortError } from '../paging';
+import { ApiError, ApiSourceName, fromHttpResponse } from '../errors';
+import { schedule } from '../scheduler';
+import { DataSource, RequestOptions, StoreListQuery } from './types';
+
+// API Endpoints (Serverless proxy: api/_lib/proxy.ts, 개발 서버는 vite.config.ts)
+// 모든 API 키와 SGIS 토큰은 서버에서 주입되므로 클라이언트는 인증 정보를 보내지 않습니다.
+const BASE_URL = "/api/public";
+const SGIS_BASE_URL = "/api/sgis";
+const SBIZ_BASE_URL_PROXY = "/api/sbiz";
+const VWORLD_BASE_URL = "/api/vworld";
+
+// 서울시 추정매출은 API 대신 public 폴더의 분기별 CSV 파일을 사용 (목록은 manifest)
+const SEOUL_SALES_MANIFEST_URL = "/seoul_sales_manifest.json";
+
+/**
+ * Standard Fetch Wrapper
+ * 모든 요청은 같은 출처의 /api/* 프록시를 거치므로 CORS 처리가 필요 없습니다.
+ * HTTP 오류와 네트워크 오류는 ApiError로 분류해 던집니다. (응답 본문 안의 오류 코드는 api.ts가 판별)
+ * 요청은 제공처별 스케줄러(services/scheduler.ts)를 거쳐 동시성/초당 요청/일일 한도 안에서 실행됩니다.
+ */
+export const fetchStandard = (url: string, source: ApiSourceName, opts: RequestOptions = {}): Promise<string> => {
+    return schedule(source, signal => fetchText(url, source, signal), { priority: opts.priority, signal: opts.signal, key: url });
+};
+
+const fetchText = async (url: string, source: ApiSourceName, signal?: AbortSignal): Promise<string> => {
+    let response: Response;
+    try {
+        response = await fetch(url, { signal });
+    } catch (e: any) {
+        if (isAbortError(e)) throw e;
+        console.warn(`Fetch failed for ${url}:`, e);
+        throw new ApiError('upstream', `데이터 요청 실패: ${e.message}`, { source, cause: e });
+    }
+
+    const text = await response.text();
+    if (!response.ok) throw fromHttpResponse(response.status, text, source);
+    return text;
+};
+
+const storeListPath = (query: StoreListQuery) => {
+    switch (query.kind) {
+        case 'area': return `storeListInArea?key=${query.key}`;
+        case 'dong': return `storeListInDong?divId=${query.divId}&key=${query.key}`;
+        case 'radius': return `storeListInRadius?radius=${query.radius}&cx=${query.lon}&cy=${query.lat}`;
+        case 'rect': return `storeListInRectangle?minx=${query.minLon}&miny=${query.minLat}&maxx=${query.maxLon}&maxy=${query.maxLat}`;
+    }
+};
+
+const ADMIN_PARENT_PARAM = { mega: "", cty: "ctprvnCd", admi: "signguCd" };
+
+/**
+ * 실제 공공 API를 호출하는 기본 데이터 소스
+ */
+export const liveSource: DataSource = {
+    name: "live",
+
+    searchAddress: (query, type, category, opts) => {
+        let url = `${VWORLD_BASE_URL}/search?service=search&request=search&version=2.0&crs=EPSG:4326&size=10&page=1&query=${encodeURIComponent(query)}&type=${type}&format=json&errorformat=json`;
+        if (category) url += `&category=${category}`;
+        return fetchStandard(url, 'vworld', opts);
+    },
+
+    reverseGeocode: (lat, lon, opts) => {
+        const url = `${VWORLD_BASE_URL}/address?service=address&request=getAddress&version=2.0&crs=EPSG:4326&point=${lon},${lat}&format=json&type=PARCEL&zipcode=false&simple=false`;
+        return fetchStandard(url, 'vworld', opts);
+    },
+
+    searchZones: (lat, lon, radius, opts) => {
+        return fetchStandard(`${BASE_URL}/storeZoneInRadius?radius=${radius}&cx=${lon}&cy=${lat}&type=json`, 'data.go.kr', opts);
+    },
+
+    listStores: (query, pageNo, numOfRows, opts) => {
+        return fetchStandard(`${BASE_URL}/${storeListPath(query)}&numOfRows=${numOfRows}&pageNo=${pageNo}&type=json`, 'data.go.kr', opts);
+    },
+
+    listAdminAreas: (level, parentCode, opts) => {
+        const parentParam = ADMIN_PARENT_PARAM[level];
+        const extra = parentParam && parentCode ? `&${parentParam}=${parentCode}` : "";
+        return fetchStandard(`${BASE_URL}/baroApi?resId=dong&catId=${level}&type=json${extra}`, 'data.go.kr', opts);
+    },
+
+    geocodeAdminArea: (address, opts) => {
+        return fetchStandard(`${SGIS_BASE_URL}/addr/geocode.json?address=${encodeURIComponent(address)}`, 'sgis', opts);
+    },
+
+    fetchAdminBoundary: (admCd, year, opts) => {
+        return fetchStandard(`${SGIS_BASE_URL}/boundary/hadmarea.geojson?adm_cd=${admCd}&year=${year}&low_search=0`, 'sgis', opts);
+    },
+
+    fetchSgisStats: (endpoint, admCd, year, filter = {}, opts) => {
+        const extra = Object.entries(filter).map(([key, value]) => `&${key}=${encodeURIComponent(value)}`).join("");
+        return fetchStandard(`${SGIS_BASE_URL}/stats/${endpoint}.json?adm_cd=${admCd}&year=${year}&low_search=0${extra}`, 'sgis', opts);
+    },
+
+    fetchSbiz: (endpoint, dongCd, opts) => {
+        return fetchStandard(`${SBIZ_BASE_URL_PROXY}/${endpoint}/search.json?dongCd=${dongCd}`, 'sbiz', opts);
+    },
+
+    fetchSeoulSalesManifest: (opts) => {
+        return fetchStandard(SEOUL_SALES_MANIFEST_URL, 'seoul', opts);
+    },
+
+    fetchSeoulSalesCsv: (file, opts = {}) => {
+        // 본문을 스트림으로 넘기므로 다른 호출자와 공유하지 않음 (key 없음)
+        return schedule('seoul', async signal => {
+            let response: Response;
+            try {
+                response = await fetch(`/${file}`, { signal });
+            } catch (e: any) {
+                if (isAbortError(e)) throw e;
+                throw new ApiError('upstream', `매출 CSV 요청 실패: ${e.message}`, { source: 'seoul', cause: e });
+            }
+            if (!response.ok || !response.body) throw fromHttpResponse(response.status, await response.text(), 'seoul');
+            return response.body;
+        }, { priority: opts.priority, signal: opts.signal });
+    }
+};
@@ -0,0 +1,59 @@
+import type { RequestPriority } from '../scheduler';
+
+/**
+ * 데이터 소스(Provider) 인터페이스
+ * 업스트림 API 호출만 담당하고, 응답 원문(JSON/CSV 문자열)을 그대로 돌려줍니다.
+ * 응답 해석(파싱, 오류 판별, 좌표 변환)은 services/api.ts가 담당하므로
+ * 어떤 소스를 쓰더라도 같은 파싱 코드를 거치게 됩니다.
+ */
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    priority?: RequestPriority;   // 스케줄러 대기열 순서 (기본 normal)
+}
+
+// 소상공인 상가정보 목록 조회 조건
+export type StoreListQuery =
+    | { kind: 'area'; key: string }                  // storeListInArea (상권번호)
+    | { kind: 'dong'; divId: string; key: string }   // storeListInDong (행정구역 코드)
+    | { kind: 'radius'; lat: number; lon: number; radius: number }    // storeListInRadius (반경 m)
+    | { kind: 'rect'; minLat: number; minLon: number; maxLat: number; maxLon: number };   // storeListInRectangle
+
+// 행정구역 코드 목록 (baroApi): 시도 → 시군구 → 행정동
+export type AdminAreaLevel = 'mega' | 'cty' | 'admi';
+
+// SGIS 통계 (stats/*.json): 총괄 인구, 성·연령별 인구, 가구, 사업체
+export type SgisStatsEndpoint = 'population' | 'searchpopulation' | 'household' | 'company';
+
+// 소상공인 상권정보 bizonSttus 엔드포인트
+export type SbizEndpoint = 'MaxSlsBiz' | 'DlvyDay' | 'VstAgeRnk' | 'cfrDynppl' | 'TmznDynppl' | 'DowDynppl' | 'SlsTpbizRnk';
+
+export interface DataSource {
+    readonly name: string;
+
+    // 주소 검색 (V-World search API 응답 JSON)
+    searchAddress(query: string, type: string, category?: string, opts?: RequestOptions): Promise<string>;
+    // 좌표 → 주소 (V-World address API 응답 JSON)
+    reverseGeocode(lat: number, lon: number, opts?: RequestOptions): Promise<string>;
+
+    // 반경 내 주요 상권 (storeZoneInRadius)
+    searchZones(lat: number, lon: number, radius: number, opts?: RequestOptions): Promise<string>;
+    // 상가업소 목록 한 페이지
+    listStores(query: StoreListQuery, pageNo: number, numOfRows: number, opts?: RequestOptions): Promise<string>;
+
+    // 행정구역 코드 목록 (parentCode: 상위 시도/시군구 코드)
+    listAdminAreas(level: AdminAreaLevel, parentCode?: string, opts?: RequestOptions): Promise<string>;
+    // 행정구역명 → SGIS 행정구역 코드 (SGIS geocode)
+    geocodeAdminArea(address: string, opts?: RequestOptions): Promise<string>;
+    // SGIS 행정구역 경계 (GeoJSON, UTM-K 좌표)
+    fetchAdminBoundary(admCd: string, year: string, opts?: RequestOptions): Promise<string>;
+    // SGIS 통계 (filter: searchpopulation의 gender, age_type 등 추가 조건)
+    fetchSgisStats(endpoint: SgisStatsEndpoint, admCd: string, year: string, filter?: Record<string, string>, opts?: RequestOptions): Promise<string>;
+
+    // 소상공인 상권정보 지표
+    fetchSbiz(endpoint: SbizEndpoint, dongCd: string, opts?: RequestOptions): Promise<string>;
+    // 서울시 추정매출 분기별 CSV 목록 ({ "files": ["seoul_sales_20253.csv", ...] })
+    fetchSeoulSalesManifest(opts?: RequestOptions): Promise<string>;
+    // 서울시 행정동별 추정매출 CSV (파일이 커서 텍스트 대신 바이트 스트림으로 전달)
+    fetchSeoulSalesCsv(file: string, opts?: RequestOptions): Promise<ReadableStream<Uint8Array>>;
+}
@@ -1,13 +1,21 @@
+import type { ApiError } from './services/errors';
+import type { RawRecord } from './services/normalize';
+
 
 export interface Coords {
   lat: number;
   lon: number;
 }
 
+// 경계 형상 (services/geometry.ts): 폴리곤[] → 링[] (첫 링은 외곽, 나머지는 구멍) → [lat, lon][]
+// 섬이나 떨어진 필지가 있는 행정동은 폴리곤이 여러 개입니다.
+export type ZoneGeometry = number[][][][];
+
+// 정규화된 모델: services/normalize.ts를 거친 값만 담깁니다.
 export interface Zone {
   trarNo: string;
   mainTrarNm: string;
-  trarArea: string;
+  trarArea: number;         // ㎡ (행정구역은 0)
   ctprvnNm: string;
   signguNm: string;
   coords: string;
@@ -15,28 +23,139 @@ export interface Zone {
   stdrDt?: string;
   searchLat?: number;
   searchLon?: number;
-  parsedPolygon?: number[][][];
+  parsedPolygon?: ZoneGeometry;   // undefined = 아직 불러오는 중, [] = 경계 없음
   // New fields for Admin Analysis
-  type?: 'trade' | 'admin'; // 'trade' = 주요상권, 'admin' = 행정구역
+  type?: 'trade' | 'admin' | 'radius' | 'custom'; // 'trade' = 주요상권, 'admin' = 행정구역, 'radius' = 지점 반경, 'custom' = 직접 그린 영역
   adminCode?: string;       // 행정동 코드 or 시군구 코드
   adminLevel?: string;      // 'adongCd' or 'signguCd'
+  subAreas?: AdminArea[];   // 시군구 분석: 관할 행정동 목록
+  radius?: number;          // 반경 분석: 반경(m), 중심은 searchLat/searchLon
+}
+
+// 지도에 직접 그려 저장한 분석 영역 (services/customAreas.ts)
+export interface CustomArea {
+  id: string;
+  name: string;
+  geometry: ZoneGeometry;
+  createdAt: string;        // ISO 8601
+}
+
+// 행정구역 코드/이름 (baroApi)
+export interface AdminArea {
+  code: string;
+  name: string;
 }
 
 export interface Store {
+  bizesId: string;          // 상가업소번호
   bizesNm: string;
-  brchNm: string;
+  brchNm: string;           // 지점명 (없으면 "")
+  indsLclsCd: string;
   indsLclsNm: string;
+  indsMclsCd: string;
   indsMclsNm: string;
-  bldNm: string;
-  flrNo: string;
+  indsSclsCd: string;
+  indsSclsNm: string;
+  ksicCd: string;
+  ksicNm: string;
+  signguCd: string;
+  signguNm: string;
+  adongCd: string;
+  adongNm: string;
   rdnmAdr: string;
-  lat: string;
-  lon: string;
+  lnoAdr: string;
+  bldNm: string;
+  flrNo: string;            // 원문 층 표기
+  floor: number | null;     // 지상 1층 = 1, 지하 1층 = -1, 알 수 없음 = null
+  floorTo: number | null;   // "1~2층"처럼 여러 층에 걸치면 가장 높은 층 (한 층이면 null)
+  lat: number;
+  lon: number;
   stdrYm?: string;
-  stdrDt?: string;
+}
+
+// 정규화 단계에서 제외된 행의 사유
+export type DropReason = 'missing_name' | 'missing_coords' | 'out_of_range' | 'duplicate';
+
+export interface ValidationReport {
+  received: number;
+  accepted: number;
+  dropped: Partial<Record<DropReason, number>>;
+}
+
+// 페이지 단위 수집 완전성 보고서
+export interface FetchCompleteness {
+  pagesExpected: number;
+  pagesReceived: number;
+  missingPages: number[];
+  totalCount: number;      // API가 보고한 전체 건수
+  collectedCount: number;  // 실제로 수집한 건수
+  complete: boolean;
+}
+
+// 수집을 이어받기 위한 페이지별 결과
+export interface PageCheckpoint<T> {
+  totalCount: number;
+  stdrYm: string;
+  pages: Record<number, T[]>;
+}
+
+export interface StoreFetchResult {
+  stores: Store[];
+  stdrYm: string;
+  report: FetchCompleteness;
+  validation: ValidationReport;
+  checkpoint: PageCheckpoint<RawRecord> | null; // 캐시에서 읽은 경우 null (원본 레코드 보관)
+  fromCache: boolean;
+  warning?: ApiError;     // 일부 페이지 누락 시 (kind: 'partial')
+}
+
+export interface StoreFetchOptions {
+  signal?: AbortSignal;
+  checkpoint?: PageCheckpoint<RawRecord> | null;
+  refresh?: boolean;  // true이면 캐시를 무시하고 새로 수집
+}
+
+// 데이터 기준월별 점포 스냅샷 (비교에 필요한 필드만 보관)
+export type SnapshotStore = Pick<Store, 'bizesId' | 'bizesNm' | 'brchNm' | 'indsLclsCd' | 'indsLclsNm' | 'indsMclsCd' | 'indsMclsNm' | 'rdnmAdr' | 'flrNo' | 'lat' | 'lon'>;
+
+export interface SnapshotMeta {
+  zoneKey: string;          // `${type}:${trarNo}`
+  zoneName: string;
+  stdrYm: string;           // YYYYMM
+  storeCount: number;
+  savedAt: string;          // ISO 8601
+  origin: 'cache' | 'saved';  // 'cache' = 분석 시 자동 보관, 'saved' = 사용자가 직접 저장
+}
+
+export interface StoreSnapshot extends SnapshotMeta {
+  stores: SnapshotStore[];
+}
+
+// 업종별 순증감 (대분류 + 중분류)
+export interface CategoryChurn {
+  code: string;             // 중분류 코드
+  large: string;
+  mid: string;
+  before: number;
+  after: number;
+  opened: number;           // 신규 + 이 업종으로 바뀐 점포
+  closed: number;           // 폐업 + 다른 업종으로 바뀐 점포
+  net: number;              // after - before
+}
+
+// 두 기준월 사이 점포 변동 (상가업소번호 기준)
+export interface StoreChurn {
+  from: string;             // 이전 기준월
+  to: string;               // 이후 기준월
+  opened: SnapshotStore[];
+  closed: SnapshotStore[];
+  moved: Array<{ before: SnapshotStore; after: SnapshotStore; distance: number }>;
+  recategorized: Array<{ before: SnapshotStore; after: SnapshotStore }>;
+  byCategory: CategoryChurn[];
 }
 
 export interface ChartData {
+  code?: string;            // 업종 분류 코드 (업종 차트일 때)
   name: string;
   value: number;
   count?: number;
@@ -46,6 +165,7 @@ export interface ChartData {
 }
 
 export interface SummaryData {
+  code: string;             // 업종 분류 코드
   name: string;
   count: number;
   ratio: number;
@@ -53,7 +173,77 @@ export interface SummaryData {
   franchiseRatio: number;
   firstFloorCount: number;
   firstFloorRatio: number;
-  topMid: string;
+  topChild: string;         // 한 단계 아래 분류에서 가장 많은 업종 이름 (소분류 요약이면 "-")
+}
+
+// 시군구 분석의 행정동별 요약
+export interface DongSummary {
+  code: string;
+  name: string;
+  count: number;
+  ratio: number;
+  franchiseCount: number;
+  firstFloorCount: number;
+  topLarge: string;
+}
+
+// 층 구간 (services/floors.ts)
+export type FloorBand = 'basement' | 'ground' | 'second' | 'upper' | 'unknown';
+
+export interface FloorBandCount {
+  band: FloorBand;
+  label: string;
+  count: number;
+  ratio: number;            // %
+}
+
+// 브랜드 사전(services/brands.ts)으로 찾은 브랜드별 점포 수
+export interface BrandSummary {
+  brand: string;
+  parent: string;           // 운영사 (미상이면 "")
+  category: string;
+  count: number;
+  firstFloorCount: number;
+  avgConfidence: number;    // 상호 일치 신뢰도 평균 (0~1)
+}
+
+// 건물별 입점 현황 (services/buildings.ts)
+export interface BuildingSummary {
+  key: string;              // 건물명 + 도로명주소 (이름이 같은 다른 건물 구분)
+  name: string;
+  address: string;
+  count: number;
+  franchiseCount: number;
+  firstFloorCount: number;
+  floorCount: number;       // 점포가 있는 층 수 (층 미상 제외)
+  categoryMix: Array<{ code: string; name: string; count: number }>;   // 대분류 구성 (분류 코드로 묶음, 많은 순)
+  lat: number;
+  lon: number;
+}
+
+// 구역 안의 점포 밀집 구역 (services/clusters.ts, DBSCAN)
+export interface StoreCluster {
+  id: number;               // 점포 수 순위 (1부터)
+  storeIds: string[];       // 소속 점포 bizesId
+  lat: number;              // 중심
+  lon: number;
+  hull: number[][];         // 외곽선 [lat, lon] 닫힌 링
+  topCategories: Array<{ code: string; name: string; count: number }>;   // 중분류 상위 3개 (분류 코드로 묶음)
+  franchiseRate: number;    // %
+}
+
+// 업종 다양성/집중도 (services/diversity.ts)
+export interface DiversityIndex {
+  categories: number;       // 점포가 있는 업종 수
+  shannon: number;          // 섀넌 다양성 H = -Σ p·ln p
+  evenness: number;         // 균등도 H / ln(업종 수), 0~1
+  hhi: number;              // 허핀달-허시만 지수 Σ (100·p)², 0~10000
+  effective: number;        // 유효 업종 수 exp(H)
+}
+
+export interface ZoneDiversity {
+  large: DiversityIndex;    // 대분류 기준
+  mid: DiversityIndex;      // 중분류 기준
 }
 
 export interface StoreStats {
@@ -61,31 +251,55 @@ export interface StoreStats {
   pieData: ChartData[];
   barData: ChartData[];
   fullBarData: ChartData[];
+  smallData: ChartData[];          // 소분류 전체 (현재 필터 기준)
   buildingData: ChartData[];
-  floorData: ChartData[];
+  floorData: FloorBandCount[];     // 3층 이상 → 지하 → 층 미상
   franchiseRate: string;
   summaryTableData: SummaryData[];
+  dongData: DongSummary[];
+  brandData: BrandSummary[];
+  buildings: BuildingSummary[];    // 건물명이 있는 점포의 건물 전체 (점포 많은 순)
+  diversity: ZoneDiversity;        // 업종 필터와 무관하게 구역 전체 기준
 }
 
 // Sbiz API Data Types
+// 지표마다 기준월(crtrYm, YYYYMM)이 다를 수 있어 항목별로 보관합니다.
+export interface SbizSeries<T> {
+  items: T[];
+  crtrYm: string;
+}
+
 export interface SbizStats {
-  population: {
-    total: string;
-    date: string;
-  } | null;
-  maxSales: {
-    type: string;
-    amount: number;
-    percent: number;
-    date: string;
-  } | null;
-  delivery: {
-    day: string;
-    count: number;
-    percent: number;
-    date: string;
-  } | null;
-  ageRank: Array<{ age: string; count: number }> | null;
+  population: { total: number; crtrYm: string } | null;                 // 일 평균 유동인구 (cfrDynppl)
+  maxSales: { type: string; amount: number; percent: number; crtrYm: string } | null;   // 매출 1위 업종 (MaxSlsBiz)
+  delivery: { day: string; count: number; percent: number; crtrYm: string } | null;     // 배달 피크 요일 (DlvyDay)
+  ageDistribution: SbizSeries<{ age: string; count: number }> | null;   // 방문 연령 전체 (VstAgeRnk, 연령 순)
+  timePopulation: SbizSeries<{ slot: string; count: number }> | null;   // 시간대별 유동인구 (TmznDynppl)
+  dowPopulation: SbizSeries<{ day: string; count: number }> | null;     // 요일별 유동인구 (DowDynppl)
+  salesRank: SbizSeries<{ type: string; amount: number; percent: number }> | null;   // 업종별 매출 순위 (SlsTpbizRnk)
+}
+
+// 상권이 걸친 행정동 하나의 Sbiz 지표 (Sbiz는 행정동 단위로만 제공)
+export interface SbizDongStats {
+  code: string;             // 행정동 코드 (10자리)
+  name: string;
+  zoneStores: number;       // 분석 구역 안의 이 동 점포 수
+  stats: SbizStats;         // 실패한 지표는 null
+  error: ApiError | null;   // 지표 중 하나라도 불러오지 못했으면 (다시 시도 가능)
+}
+
+// SGIS 인구·가구·사업체 통계 (통계청 인구주택총조사/전국사업체조사)
+export interface CensusStats {
+  admCd: string;            // SGIS 행정구역 코드
+  year: string;             // 인구 기준 연도
+  population: number;       // 총인구 (명)
+  avgAge: number | null;
+  households: number;       // 가구 수
+  avgHouseholdSize: number | null;
+  companyYear: string | null;  // 사업체 기준 연도 (인구보다 늦게 공개됨)
+  companies: number;        // 사업체 수
+  employees: number;        // 종사자 수
+  ageGroups: Array<{ age: string; male: number; female: number }>;   // 10세 단위 (조회 실패 시 빈 배열)
 }
 
 // Seoul Estimated Sales Data Types
@@ -120,4 +334,14 @@ export interface SeoulSalesData {
 
   // 업종별 데이터 리스트 (메인 데이터에만 포함됨)
   byIndustry?: SeoulSalesData[];
-}
\ No newline at end of file
+}
+// 상권이 걸친 행정동 하나의 매출과 겹침 정도 (services/salesBlend.ts가 가중 합산)
+export interface DongSalesSource {
+  code: string;             // 행정동 코드 (10자리)
+  name: string;
+  overlapArea: number;      // 상권과 겹치는 면적 (㎡, 경계가 없으면 0)
+  dongArea: number;         // 행정동 전체 면적 (㎡, 경계가 없으면 0)
+  zoneStores: number;       // 상권 안의 이 동 점포 수
+  dongStores: number;       // 이 동 전체 점포 수 (조회 실패 시 0)
+  history: SeoulSalesData[];  // 오래된 분기 → 최근 분기 (서울 밖이거나 데이터가 없으면 빈 배열)
+}
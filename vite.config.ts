@@ -1,43 +1,41 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { findApiHandler } from './api/_lib/proxy'
 
-// https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  build: {
-    outDir: 'dist',
-  },
-  server: {
-    port: 5173,
-    open: true,
-    proxy: {
-      '/api/public': {
-        target: 'https://apis.data.go.kr/B553077/api/open/sdsc2',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/public/, ''),
-        secure: false
-      },
-      '/api/sgis': {
-        target: 'https://sgisapi.mods.go.kr/OpenAPI3',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/sgis/, ''),
-        secure: false
-      },
-      '/api/seoul': {
-        target: 'http://openapi.seoul.go.kr:8088',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/seoul/, ''),
-        secure: false
-      },
-      '/api/sbiz': {
-        target: 'https://bigdata.sbiz.or.kr/sbiz/api/bizonSttus',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/sbiz/, ''),
-        secure: false,
-        headers: {
-          'Referer': 'https://sg.sbiz.or.kr/'
-        }
+// 개발 서버에서도 Vercel 함수와 동일한 핸들러로 /api/* 요청을 처리 (키는 서버에서만 사용)
+const apiProxy = (): Plugin => ({
+  name: 'api-proxy',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const url = new URL(req.url || '/', 'http://localhost')
+      const handler = findApiHandler(url.pathname)
+      if (!handler) return next()
+
+      try {
+        const response = await handler(new Request(url))
+        res.statusCode = response.status
+        response.headers.forEach((value, key) => res.setHeader(key, value))
+        res.end(Buffer.from(await response.arrayBuffer()))
+      } catch (e) {
+        next(e)
       }
+    })
+  }
+})
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  // .env 파일의 키를 서버 측 process.env로만 로드 (클라이언트 번들에는 노출되지 않음)
+  Object.assign(process.env, loadEnv(mode, process.cwd(), ''))
+
+  return {
+    plugins: [react(), apiProxy()],
+    build: {
+      outDir: 'dist',
+    },
+    server: {
+      port: 5173,
+      open: true
     }
   }
-})
\ No newline at end of file
+})